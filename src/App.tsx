@@ -4,17 +4,29 @@ import { Navigate, Route, Routes } from "react-router-dom";
 import { useAuth } from "./context/AuthContext";
 import AdminLayout from "./components/layout/AdminLayout";
 import Protected from "./routes/Protected";
+import RequirePermission from "./routes/RequirePermission";
 import Login from "./pages/Login";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
+import VerifyEmail from "./pages/VerifyEmail";
 import Dashboard from "./pages/Dashboard";
 import OrganizationsPage from "./pages/OrganizationsPage";
+import OrganizationLocationMigrationPage from "./pages/organizations/location-migration";
+import OrganizationImportPage from "./pages/organizations/import";
+import OrganizationProfilePage from "./pages/organizations/profile";
+import UsersPage from "./pages/users";
 import RiceTypesPage from "./pages/master-data/rice-types";
 import VarietiesPage from "./pages/master-data/varieties";
 
 import CropYearsPage from "./pages/master-data/crop-years";
+import BagSizesPage from "./pages/master-data/bag-sizes";
 import BagRatesPage from "./pages/master-data/bag-rates";
+import BagRatesComparePage from "./pages/master-data/bag-rates-compare";
 import IkpCentersPage from "./pages/master-data/ikp-centers";
 import LocationsMasterPage from "./pages/master-data/LocationsMasterPage";
 import ByProductsPage from "./pages/master-data/by-products";
+import AccountPage from "./pages/account";
+import SecurityPage from "./pages/account/security";
 
 function RedirectIfAuthed({ children }: { children: React.ReactNode }) {
   const { isAuthenticated } = useAuth();
@@ -33,22 +45,64 @@ export default function App() {
           </RedirectIfAuthed>
         }
       />
+      <Route
+        path="/forgot-password"
+        element={
+          <RedirectIfAuthed>
+            <ForgotPassword />
+          </RedirectIfAuthed>
+        }
+      />
+      <Route
+        path="/reset-password"
+        element={
+          <RedirectIfAuthed>
+            <ResetPassword />
+          </RedirectIfAuthed>
+        }
+      />
+      <Route path="/verify-email" element={<VerifyEmail />} />
 
       <Route element={<Protected />}>
         <Route element={<AdminLayout />}>
-          <Route path="/dashboard" element={<Dashboard />} />
-          <Route path="/organizations" element={<OrganizationsPage />} />
-          <Route path="/master-data/rice-types" element={<RiceTypesPage />} />
-          <Route path="/master-data/varieties" element={<VarietiesPage />} />
-          <Route path="/master-data/by-products" element={<ByProductsPage />} />
-          <Route path="/master-data/crop-years" element={<CropYearsPage />} />
-          <Route path="/master-data/bag-rates" element={<BagRatesPage />} />
-          <Route path="/master-data/locations" element={<LocationsMasterPage />} />
-          <Route path="/master-data/ikp-centers" element={<IkpCentersPage />} />
-          <Route
-            path="/master-data/seasons"
-            element={<Navigate to="/master-data/crop-years" replace />}
-          />
+          <Route element={<RequirePermission permission="dashboard:view" />}>
+            <Route path="/dashboard" element={<Dashboard />} />
+          </Route>
+          <Route element={<RequirePermission permission="organizations:view" />}>
+            <Route path="/organizations" element={<OrganizationsPage />} />
+            <Route path="/organizations/:id" element={<OrganizationProfilePage />} />
+          </Route>
+          <Route element={<RequirePermission permission="organizations:manage" />}>
+            <Route
+              path="/organizations/location-migration"
+              element={<OrganizationLocationMigrationPage />}
+            />
+            <Route element={<RequirePermission permission="users:manage" />}>
+              <Route path="/organizations/import" element={<OrganizationImportPage />} />
+            </Route>
+          </Route>
+          <Route element={<RequirePermission permission="users:manage" />}>
+            <Route path="/users" element={<UsersPage />} />
+          </Route>
+          <Route element={<RequirePermission permission="masterData:manage" />}>
+            <Route path="/master-data/rice-types" element={<RiceTypesPage />} />
+            <Route path="/master-data/varieties" element={<VarietiesPage />} />
+            <Route path="/master-data/by-products" element={<ByProductsPage />} />
+            <Route path="/master-data/crop-years" element={<CropYearsPage />} />
+            <Route path="/master-data/bag-sizes" element={<BagSizesPage />} />
+            <Route path="/master-data/locations" element={<LocationsMasterPage />} />
+            <Route path="/master-data/ikp-centers" element={<IkpCentersPage />} />
+            <Route
+              path="/master-data/seasons"
+              element={<Navigate to="/master-data/crop-years" replace />}
+            />
+          </Route>
+          <Route element={<RequirePermission permission="bagRates:view" />}>
+            <Route path="/master-data/bag-rates" element={<BagRatesPage />} />
+            <Route path="/master-data/bag-rates-compare" element={<BagRatesComparePage />} />
+          </Route>
+          <Route path="/account" element={<AccountPage />} />
+          <Route path="/account/security" element={<SecurityPage />} />
         </Route>
       </Route>
 
@@ -0,0 +1,145 @@
+import * as React from "react";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Check, Eye, EyeOff, Lock, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Field, FieldError, FieldGroup, FieldLabel } from "@/components/ui/field";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupButton,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import { cn } from "@/lib/utils";
+import {
+  ChangePasswordRequestSchema,
+  PASSWORD_RULES,
+  type ChangePasswordRequest,
+} from "@/types/auth";
+
+export function PasswordRulesList({ password }: { password: string }) {
+  return (
+    <ul className="grid gap-1 text-xs">
+      {PASSWORD_RULES.map((rule) => {
+        const met = rule.pattern.test(password);
+        return (
+          <li
+            key={rule.label}
+            className={cn("flex items-center gap-1.5", met ? "text-primary" : "text-muted-foreground")}
+          >
+            {met ? <Check className="size-3" /> : <X className="size-3" />}
+            {rule.label}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export function ChangePasswordForm({
+  onSubmit,
+  submitLabel = "Change password",
+}: {
+  onSubmit: (data: ChangePasswordRequest) => Promise<void>;
+  submitLabel?: string;
+}) {
+  const [showPasswords, setShowPasswords] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    formState: { errors, isSubmitting },
+  } = useForm<ChangePasswordRequest>({
+    resolver: zodResolver(ChangePasswordRequestSchema),
+    defaultValues: { currentPassword: "", newPassword: "", confirmPassword: "" },
+  });
+
+  const newPassword = useWatch({ control, name: "newPassword" }) ?? "";
+
+  async function submit(data: ChangePasswordRequest) {
+    setError(null);
+    try {
+      await onSubmit(data);
+      reset();
+    } catch (err: unknown) {
+      setError(err instanceof Error && err.message ? err.message : "Password change failed.");
+    }
+  }
+
+  const inputType = showPasswords ? "text" : "password";
+
+  return (
+    <form className="flex flex-col gap-6" onSubmit={handleSubmit(submit)}>
+      <FieldGroup>
+        <Field>
+          <FieldLabel htmlFor="currentPassword">Current password</FieldLabel>
+          <InputGroup>
+            <InputGroupAddon>
+              <Lock className="h-4 w-4" />
+            </InputGroupAddon>
+            <InputGroupInput
+              id="currentPassword"
+              type={inputType}
+              autoComplete="current-password"
+              {...register("currentPassword")}
+            />
+            <InputGroupAddon align="inline-end" className="pr-1">
+              <InputGroupButton
+                aria-label={showPasswords ? "Hide passwords" : "Show passwords"}
+                onClick={() => setShowPasswords((prev) => !prev)}
+              >
+                {showPasswords ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </InputGroupButton>
+            </InputGroupAddon>
+          </InputGroup>
+          <FieldError errors={errors.currentPassword ? [errors.currentPassword] : []} />
+        </Field>
+
+        <Field>
+          <FieldLabel htmlFor="newPassword">New password</FieldLabel>
+          <InputGroup>
+            <InputGroupAddon>
+              <Lock className="h-4 w-4" />
+            </InputGroupAddon>
+            <InputGroupInput
+              id="newPassword"
+              type={inputType}
+              autoComplete="new-password"
+              {...register("newPassword")}
+            />
+          </InputGroup>
+          <PasswordRulesList password={newPassword} />
+          <FieldError errors={errors.newPassword ? [errors.newPassword] : []} />
+        </Field>
+
+        <Field>
+          <FieldLabel htmlFor="confirmPassword">Confirm new password</FieldLabel>
+          <InputGroup>
+            <InputGroupAddon>
+              <Lock className="h-4 w-4" />
+            </InputGroupAddon>
+            <InputGroupInput
+              id="confirmPassword"
+              type={inputType}
+              autoComplete="new-password"
+              {...register("confirmPassword")}
+            />
+          </InputGroup>
+          <FieldError errors={errors.confirmPassword ? [errors.confirmPassword] : []} />
+        </Field>
+
+        {error ? <FieldError>{error}</FieldError> : null}
+
+        <Field>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Saving…" : submitLabel}
+          </Button>
+        </Field>
+      </FieldGroup>
+    </form>
+  );
+}
@@ -0,0 +1,115 @@
+import * as React from "react";
+import { KeyRound } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Field,
+  FieldDescription,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import { MFA_TRUST_DEVICE_DAYS } from "@/config";
+
+export function MfaChallengeForm({
+  email,
+  onVerify,
+  onCancel,
+}: {
+  email: string;
+  onVerify: (code: string, trustDevice: boolean) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [code, setCode] = React.useState("");
+  const [useBackupCode, setUseBackupCode] = React.useState(false);
+  const [trustDevice, setTrustDevice] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!code.trim()) {
+      setError(useBackupCode ? "Enter a backup code." : "Enter the 6-digit code.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onVerify(code, trustDevice);
+    } catch (err: unknown) {
+      setError(err instanceof Error && err.message ? err.message : "Verification failed.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <form className="flex flex-col gap-6" onSubmit={onSubmit}>
+      <FieldGroup>
+        <FieldDescription>
+          Two-factor authentication is on for <span className="font-medium">{email}</span>.{" "}
+          {useBackupCode
+            ? "Enter one of your backup codes. Each code works once."
+            : "Enter the code from your authenticator app."}
+        </FieldDescription>
+
+        <Field>
+          <FieldLabel htmlFor="mfaCode">{useBackupCode ? "Backup code" : "Authentication code"}</FieldLabel>
+          <InputGroup>
+            <InputGroupAddon>
+              <KeyRound className="h-4 w-4" />
+            </InputGroupAddon>
+            <InputGroupInput
+              id="mfaCode"
+              autoFocus
+              autoComplete="one-time-code"
+              inputMode={useBackupCode ? "text" : "numeric"}
+              placeholder={useBackupCode ? "xxxx-xxxx" : "123456"}
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+          </InputGroup>
+          {error ? <FieldError>{error}</FieldError> : null}
+        </Field>
+
+        <Field>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={trustDevice} onCheckedChange={(v) => setTrustDevice(Boolean(v))} />
+            <span>Trust this device for {MFA_TRUST_DEVICE_DAYS} days</span>
+          </label>
+          <FieldDescription>Do not use this on a shared computer.</FieldDescription>
+        </Field>
+
+        <Field>
+          <Button type="submit" disabled={isSubmitting} className="w-full">
+            {isSubmitting ? "Verifying…" : "Verify"}
+          </Button>
+          <div className="flex items-center justify-between text-sm">
+            <Button
+              type="button"
+              variant="link"
+              className="px-0"
+              onClick={() => {
+                setUseBackupCode((v) => !v);
+                setCode("");
+                setError(null);
+              }}
+            >
+              {useBackupCode ? "Use authenticator app" : "Use a backup code"}
+            </Button>
+            <Button type="button" variant="link" className="px-0" onClick={onCancel}>
+              Back to sign in
+            </Button>
+          </div>
+        </Field>
+      </FieldGroup>
+    </form>
+  );
+}
@@ -1,5 +1,5 @@
 import * as React from "react";
-import { NavLink, Outlet, useLocation } from "react-router-dom";
+import { NavLink, Outlet, useLocation, useNavigate } from "react-router-dom";
 import {
   BarChart3,
   Building2,
@@ -12,6 +12,9 @@ import {
   Wheat,
   Warehouse,
   Package,
+  Ruler,
+  TrendingUp,
+  Users,
 } from "lucide-react";
 
 import { cn } from "@/lib/utils";
@@ -27,6 +30,8 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useAuth } from "@/context/AuthContext";
+import type { Permission } from "@/lib/permissions";
+import { ImpersonationBanner } from "@/components/layout/ImpersonationBanner";
 import { NavUser } from "@/components/layout/NavUser";
 import { SidebarFooter, SidebarProvider } from "@/components/ui/sidebar";
 import { ToastManager } from "../ui/ToastManager";
@@ -35,6 +40,7 @@ type MenuItem = {
   to: string;
   label: string;
   icon: React.ReactNode;
+  permission: Permission;
 };
 
 type MenuSection = {
@@ -46,40 +52,99 @@ const dashboardItem: MenuItem = {
   to: "/dashboard",
   label: "Dashboard",
   icon: <BarChart3 className="size-4" />,
+  permission: "dashboard:view",
 };
 
 const sections: MenuSection[] = [
   {
     title: "Organizations",
     items: [
-      { to: "/organizations", label: "Organizations", icon: <Building2 className="size-4" /> },
+      {
+        to: "/organizations",
+        label: "Organizations",
+        icon: <Building2 className="size-4" />,
+        permission: "organizations:view",
+      },
+      {
+        to: "/users",
+        label: "Users",
+        icon: <Users className="size-4" />,
+        permission: "users:manage",
+      },
     ],
   },
   {
     title: "Rice",
     items: [
-      { to: "/master-data/rice-types", label: "Rice Types", icon: <Wheat className="size-4" /> },
-      { to: "/master-data/varieties", label: "Varieties", icon: <Sprout className="size-4" /> },
+      {
+        to: "/master-data/rice-types",
+        label: "Rice Types",
+        icon: <Wheat className="size-4" />,
+        permission: "masterData:manage",
+      },
+      {
+        to: "/master-data/varieties",
+        label: "Varieties",
+        icon: <Sprout className="size-4" />,
+        permission: "masterData:manage",
+      },
     ],
   },
   {
     title: "Crop",
     items: [
-      { to: "/master-data/crop-years", label: "Crop Years", icon: <NotebookTabs className="size-4" /> },
-      { to: "/master-data/bag-rates", label: "Bag Rates", icon: <Tag className="size-4" /> },
+      {
+        to: "/master-data/crop-years",
+        label: "Crop Years",
+        icon: <NotebookTabs className="size-4" />,
+        permission: "masterData:manage",
+      },
+      {
+        to: "/master-data/bag-sizes",
+        label: "Bag Sizes",
+        icon: <Ruler className="size-4" />,
+        permission: "masterData:manage",
+      },
+      {
+        to: "/master-data/bag-rates",
+        label: "Bag Rates",
+        icon: <Tag className="size-4" />,
+        permission: "bagRates:view",
+      },
+      {
+        to: "/master-data/bag-rates-compare",
+        label: "Rate Comparison",
+        icon: <TrendingUp className="size-4" />,
+        permission: "bagRates:view",
+      },
     ],
   },
   {
     title: "By Products",
     items: [
-      { to: "/master-data/by-products", label: "By Products", icon: <Package className="size-4" /> },
+      {
+        to: "/master-data/by-products",
+        label: "By Products",
+        icon: <Package className="size-4" />,
+        permission: "masterData:manage",
+      },
     ],
   },
   {
     title: "Locations",
     items: [
-      { to: "/master-data/locations", label: "Locations", icon: <MapPinned className="size-4" /> },
-      { to: "/master-data/ikp-centers", label: "Centers", icon: <Warehouse className="size-4" /> },
+      {
+        to: "/master-data/locations",
+        label: "Locations",
+        icon: <MapPinned className="size-4" />,
+        permission: "masterData:manage",
+      },
+      {
+        to: "/master-data/ikp-centers",
+        label: "Centers",
+        icon: <Warehouse className="size-4" />,
+        permission: "masterData:manage",
+      },
     ],
   },
 ];
@@ -117,8 +182,9 @@ function MenuLink({ item }: { item: MenuItem }) {
 }
 
 export default function AdminLayout() {
-  const { user, logout } = useAuth();
+  const { user, logout, can } = useAuth();
   const location = useLocation();
+  const navigate = useNavigate();
 
   const [isDark, setIsDark] = React.useState<boolean>(() => getInitialIsDark());
   const [confirmLogoutOpen, setConfirmLogoutOpen] = React.useState(false);
@@ -127,8 +193,16 @@ export default function AdminLayout() {
     applyTheme(isDark);
   }, [isDark]);
 
+  const visibleSections = sections
+    .map((section) => ({ ...section, items: section.items.filter((item) => can(item.permission)) }))
+    .filter((section) => section.items.length > 0);
+
   const title = React.useMemo(() => {
     if (dashboardItem.to === location.pathname) return dashboardItem.label;
+    if (location.pathname === "/account") return "Account";
+    if (location.pathname === "/account/security") return "Security";
+    if (location.pathname === "/organizations/location-migration") return "Link locations";
+    if (location.pathname === "/organizations/import") return "Import organizations";
     const active = sections
       .flatMap((s) => s.items)
       .find((m) => location.pathname === m.to || location.pathname.startsWith(`${m.to}/`));
@@ -154,10 +228,12 @@ export default function AdminLayout() {
             </div>
             <div className="flex min-h-0 flex-1 flex-col px-2">
               <nav className="flex flex-1 flex-col gap-3 overflow-auto pb-2">
-                <div className="flex flex-col gap-1">
-                  <MenuLink item={dashboardItem} />
-                </div>
-                {sections.map((section) => (
+                {can(dashboardItem.permission) ? (
+                  <div className="flex flex-col gap-1">
+                    <MenuLink item={dashboardItem} />
+                  </div>
+                ) : null}
+                {visibleSections.map((section) => (
                   <div key={section.title} className="flex flex-col gap-1">
                     <div className="px-3 pt-2 text-[11px] font-medium tracking-wide text-muted-foreground">
                       {section.title}
@@ -176,6 +252,8 @@ export default function AdminLayout() {
                     email: user?.email ?? "",
                     avatar: "",
                   }}
+                  onAccount={() => navigate("/account")}
+                  onSecurity={() => navigate("/account/security")}
                   onLogout={() => setConfirmLogoutOpen(true)}
                 />
               </SidebarFooter>
@@ -183,19 +261,22 @@ export default function AdminLayout() {
           </aside>
 
           <div className="flex min-w-0 flex-col">
-            <header className="sticky top-0 z-40 flex h-14 items-center justify-between border-b border-border bg-background/80 px-4 backdrop-blur-sm">
-              <div className="text-sm font-medium">{title}</div>
-              <div className="flex items-center gap-3">
-                <Button
-                  variant="outline"
-                  size="icon"
-                  onClick={() => setIsDark((v) => !v)}
-                  aria-label={isDark ? "Switch to light theme" : "Switch to dark theme"}
-                >
-                  {isDark ? <Sun className="size-4" /> : <Moon className="size-4" />}
-                </Button>
-              </div>
-            </header>
+            <div className="sticky top-0 z-40">
+              <ImpersonationBanner />
+              <header className="flex h-14 items-center justify-between border-b border-border bg-background/80 px-4 backdrop-blur-sm">
+                <div className="text-sm font-medium">{title}</div>
+                <div className="flex items-center gap-3">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setIsDark((v) => !v)}
+                    aria-label={isDark ? "Switch to light theme" : "Switch to dark theme"}
+                  >
+                    {isDark ? <Sun className="size-4" /> : <Moon className="size-4" />}
+                  </Button>
+                </div>
+              </header>
+            </div>
 
             <main className="min-w-0 flex-1 p-4">
               <Outlet />
@@ -0,0 +1,49 @@
+import * as React from "react";
+import { useNavigate } from "react-router-dom";
+import { Eye } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/context/AuthContext";
+
+export function ImpersonationBanner() {
+  const { user, impersonation, stopImpersonation } = useAuth();
+  const navigate = useNavigate();
+  const [isExiting, setIsExiting] = React.useState(false);
+
+  if (!impersonation) return null;
+
+  const name =
+    user?.firstName || user?.lastName ? `${user?.firstName ?? ""} ${user?.lastName ?? ""}`.trim() : user?.email;
+
+  async function onExit() {
+    setIsExiting(true);
+    try {
+      await stopImpersonation();
+      navigate("/organizations", { replace: true });
+    } finally {
+      setIsExiting(false);
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-3 bg-amber-500 px-4 py-2 text-sm text-amber-950">
+      <div className="flex min-w-0 items-center gap-2">
+        <Eye className="size-4 shrink-0" />
+        <span className="truncate">
+          Viewing as <span className="font-semibold">{name}</span>
+          {user?.organizationName ? ` (${user.organizationName})` : ""} · {user?.role}. Deleting, approving and
+          credential changes are blocked.
+        </span>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        className="shrink-0 border-amber-950/30 bg-transparent hover:bg-amber-400"
+        disabled={isExiting}
+        onClick={() => void onExit()}
+      >
+        {isExiting ? "Exiting…" : "Exit impersonation"}
+      </Button>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import {
   CreditCard,
   EllipsisVertical,
   LogOut,
+  ShieldCheck,
   User as UserIcon,
 } from "lucide-react"
 
@@ -33,6 +34,8 @@ function getInitials(name: string) {
 
 export function NavUser({
   user,
+  onAccount,
+  onSecurity,
   onLogout,
 }: {
   user: {
@@ -40,6 +43,8 @@ export function NavUser({
     email: string
     avatar: string
   }
+  onAccount?: () => void
+  onSecurity?: () => void
   onLogout?: () => void
 }) {
   const { isMobile } = useSidebar()
@@ -91,10 +96,14 @@ export function NavUser({
               </div>
             </div>
             <DropdownMenuSeparator />
-            <DropdownMenuItem disabled>
+            <DropdownMenuItem onClick={() => onAccount?.()}>
               <UserIcon />
               Account
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onSecurity?.()}>
+              <ShieldCheck />
+              Security
+            </DropdownMenuItem>
             <DropdownMenuItem disabled>
               <CreditCard />
               Billing
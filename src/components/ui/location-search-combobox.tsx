@@ -18,6 +18,13 @@ import {
     searchStatesWithContext,
     searchVillagesWithContext,
 } from "@/lib/adminLocationsSearch";
+import {
+    getAdminDistrict,
+    getAdminMandal,
+    getAdminState,
+    getAdminVillage,
+    listAdminDistricts,
+} from "@/lib/adminLocations";
 
 type LocationSearchType = "state" | "district" | "mandal" | "village";
 
@@ -31,6 +38,8 @@ export interface LocationSearchComboboxProps {
     type: LocationSearchType;
     value: string;
     onValueChange: (id: string) => void;
+    /** Limits a district search to this state. */
+    stateId?: string;
     placeholder?: string;
     disabled?: boolean;
     className?: string;
@@ -40,6 +49,7 @@ export function LocationSearchCombobox({
     type,
     value,
     onValueChange,
+    stateId,
     placeholder,
     disabled,
     className,
@@ -48,7 +58,7 @@ export function LocationSearchCombobox({
     const debouncedSearch = useDebounce(search, 300);
 
     const query = useQuery({
-        queryKey: ["location-search", type, debouncedSearch],
+        queryKey: ["location-search", type, stateId ?? "", debouncedSearch],
         queryFn: async () => {
             if (type === "state") {
                 const results = await searchStatesWithContext(debouncedSearch, 20);
@@ -59,6 +69,20 @@ export function LocationSearchCombobox({
                         sublabel: "State",
                     })
                 );
+            } else if (type === "district" && stateId) {
+                const res = await listAdminDistricts({
+                    search: debouncedSearch,
+                    stateId,
+                    limit: 20,
+                    includeInactive: false,
+                });
+                return res.data.items.map(
+                    (r): LocationSearchItem => ({
+                        id: r.id,
+                        label: r.name,
+                        sublabel: "District",
+                    })
+                );
             } else if (type === "district") {
                 const results = await searchDistrictsWithContext(debouncedSearch, 20);
                 return results.map(
@@ -93,11 +117,34 @@ export function LocationSearchCombobox({
     });
 
     const items = query.data ?? [];
+    const selectedInResults = items.find((item) => item.id === value) ?? null;
+
+    // A value set from outside (a saved record or a shared URL) may not be in
+    // the current search results, so look it up by id to show its name.
+    const selectedQuery = useQuery({
+        queryKey: ["location-search", type, "selected", value],
+        queryFn: async (): Promise<LocationSearchItem> => {
+            if (type === "state") {
+                const res = await getAdminState(value);
+                return { id: res.data.id, label: res.data.name, sublabel: "State" };
+            } else if (type === "district") {
+                const res = await getAdminDistrict(value);
+                return { id: res.data.id, label: res.data.name, sublabel: "District" };
+            } else if (type === "mandal") {
+                const res = await getAdminMandal(value);
+                return { id: res.data.id, label: res.data.name, sublabel: "Mandal" };
+            }
+            const res = await getAdminVillage(value);
+            return { id: res.data.id, label: res.data.name, sublabel: "Village" };
+        },
+        enabled: value !== "" && !query.isLoading && !selectedInResults,
+        staleTime: 30000,
+    });
 
     const selectedItem = React.useMemo(() => {
         if (!value) return null;
-        return items.find((item) => item.id === value) ?? null;
-    }, [items, value]);
+        return selectedInResults ?? (selectedQuery.data?.id === value ? selectedQuery.data : null);
+    }, [selectedInResults, selectedQuery.data, value]);
 
     const defaultPlaceholder =
         type === "district"
@@ -0,0 +1,124 @@
+"use client";
+
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+    Combobox,
+    ComboboxContent,
+    ComboboxEmpty,
+    ComboboxInput,
+    ComboboxItem,
+    ComboboxList,
+} from "@/components/ui/combobox";
+import { cn } from "@/lib/utils";
+import { useDebounce } from "@/lib/useDebounce";
+import {
+    formatOrganizationLocation,
+    getAdminOrganization,
+    listAdminOrganizations,
+} from "@/lib/adminOrganizations";
+
+interface OrganizationSearchItem {
+    id: string;
+    label: string;
+    sublabel: string;
+}
+
+export interface OrganizationSearchComboboxProps {
+    value: string;
+    onValueChange: (id: string) => void;
+    placeholder?: string;
+    disabled?: boolean;
+    className?: string;
+}
+
+export function OrganizationSearchCombobox({
+    value,
+    onValueChange,
+    placeholder,
+    disabled,
+    className,
+}: OrganizationSearchComboboxProps) {
+    const [search, setSearch] = React.useState("");
+    const debouncedSearch = useDebounce(search, 300);
+
+    const query = useQuery({
+        queryKey: ["adminOrganizations", "search", debouncedSearch],
+        queryFn: async () => {
+            const res = await listAdminOrganizations({ page: 1, limit: 20, search: debouncedSearch });
+            return res.data.items.map(
+                (org): OrganizationSearchItem => ({
+                    id: org.id,
+                    label: org.name,
+                    sublabel: formatOrganizationLocation(org),
+                })
+            );
+        },
+        staleTime: 30000,
+    });
+
+    const items = query.data ?? [];
+    const selectedInResults = items.find((item) => item.id === value) ?? null;
+
+    // The selected organization may not be among the current search results,
+    // so look it up by id to show its name.
+    const selectedQuery = useQuery({
+        queryKey: ["adminOrganizations", "detail", value],
+        queryFn: () => getAdminOrganization(value),
+        enabled: value !== "" && !query.isLoading && !selectedInResults,
+        staleTime: 30000,
+    });
+
+    const selectedItem = React.useMemo((): OrganizationSearchItem | null => {
+        if (!value) return null;
+        if (selectedInResults) return selectedInResults;
+        const org = selectedQuery.data?.data;
+        if (!org || org.id !== value) return null;
+        return { id: org.id, label: org.name, sublabel: formatOrganizationLocation(org) };
+    }, [selectedInResults, selectedQuery.data, value]);
+
+    return (
+        <Combobox
+            items={items}
+            value={selectedItem}
+            onValueChange={(next) => {
+                if (!next) {
+                    onValueChange("");
+                    return;
+                }
+                if (
+                    typeof next === "object" &&
+                    "id" in next &&
+                    typeof next.id === "string"
+                ) {
+                    onValueChange(next.id);
+                }
+            }}
+            onInputValueChange={setSearch}
+        >
+            <ComboboxInput
+                placeholder={placeholder ?? "Search organization..."}
+                disabled={disabled}
+                showClear
+                className={cn("w-full", className)}
+            />
+            <ComboboxContent>
+                <ComboboxEmpty>
+                    {query.isLoading ? "Searching..." : "No results found."}
+                </ComboboxEmpty>
+                <ComboboxList>
+                    {(item: OrganizationSearchItem) => (
+                        <ComboboxItem key={item.id} value={item}>
+                            <div className="flex flex-col gap-0.5">
+                                <span className="font-medium">{item.label}</span>
+                                <span className="text-xs text-muted-foreground">
+                                    {item.sublabel}
+                                </span>
+                            </div>
+                        </ComboboxItem>
+                    )}
+                </ComboboxList>
+            </ComboboxContent>
+        </Combobox>
+    );
+}
@@ -7,7 +7,23 @@ const RAW_PREFIX = (import.meta.env.VITE_API_PREFIX as string | undefined) ?? "/
 export const API_PREFIX = RAW_PREFIX.startsWith("/") ? RAW_PREFIX : `/${RAW_PREFIX}`;
 
 export const AUTH_STORAGE_KEY = "auth_state";
+/** Legacy key that stored the email and password in plain text. Only read to migrate and wipe it. */
 export const LOGIN_REMEMBER_KEY = "login_remember_state";
+export const LOGIN_REMEMBER_EMAIL_KEY = "login_remember_email";
+export const IMPERSONATION_STORAGE_KEY = "impersonation_state";
+export const MFA_TRUSTED_DEVICE_KEY = "mfa_trusted_devices";
+export const MFA_TRUST_DEVICE_DAYS = 30;
+
+const RAW_TEMP_CREDENTIAL_EXPIRY_HOURS = Number(
+  import.meta.env.VITE_TEMP_CREDENTIAL_EXPIRY_HOURS as string | undefined
+);
+
+/** How long a temporary password or invite link stays valid unless the admin picks another option. */
+export const DEFAULT_TEMP_CREDENTIAL_EXPIRY_HOURS =
+  Number.isFinite(RAW_TEMP_CREDENTIAL_EXPIRY_HOURS) && RAW_TEMP_CREDENTIAL_EXPIRY_HOURS > 0
+    ? RAW_TEMP_CREDENTIAL_EXPIRY_HOURS
+    : 72;
+export const TEMP_CREDENTIAL_EXPIRY_OPTIONS_HOURS = [24, 72, 168];
 
 export function apiUrl(path: string) {
   const p = path.startsWith("/") ? path : `/${path}`;
@@ -1,46 +1,120 @@
 import * as React from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 
-import { applyToken, loginApi } from "../lib/auth";
-import { setOnUnauthorized } from "../lib/api";
-import type { User } from "../types/auth";
+import {
+  applyToken,
+  changePasswordApi,
+  endImpersonationApi,
+  loginApi,
+  refreshTokenApi,
+  verifyMfaApi,
+} from "../lib/auth";
+import { setBlockDeleteRequests, setOnUnauthorized, setTokenRefresher } from "../lib/api";
+import { impersonateAdminUser } from "../lib/adminUsers";
+import { hasPermission, isBlockedWhileImpersonating, type Permission } from "../lib/permissions";
+import {
+  preventSilentSignIn,
+  readTrustedDeviceToken,
+  saveTrustedDeviceToken,
+} from "../lib/rememberedLogin";
+import type { ChangePasswordRequest, LoginResponse, User } from "../types/auth";
 import { useAuthStore, useUiStore } from "../store";
+import type { Impersonation } from "../store/authStore";
 
 interface AuthContextValue {
   token: string | null;
   user: User | null;
   isAuthenticated: boolean;
-  login: (email: string, password: string, remember: boolean) => Promise<void>;
+  can: (permission: Permission) => boolean;
+  login: (email: string, password: string, remember: boolean) => Promise<LoginResult>;
+  verifyMfa: (params: {
+    email: string;
+    mfaToken: string;
+    code: string;
+    trustDevice: boolean;
+    remember: boolean;
+  }) => Promise<void>;
+  changePassword: (payload: ChangePasswordRequest) => Promise<string | undefined>;
+  updateUser: (patch: Partial<User>) => void;
+  impersonation: Impersonation | null;
+  startImpersonation: (userId: string) => Promise<void>;
+  stopImpersonation: () => Promise<void>;
   logout: () => void;
 }
 
+export type LoginResult = { status: "signed_in" } | { status: "mfa_required"; mfaToken: string };
+
 const AuthContext = React.createContext<AuthContextValue | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const { showToast } = useUiStore();
+  const queryClient = useQueryClient();
 
   const token = useAuthStore((s) => s.token);
   const user = useAuthStore((s) => s.user);
+  const impersonation = useAuthStore((s) => s.impersonation);
   const setSession = useAuthStore((s) => s.setSession);
+  const updateTokens = useAuthStore((s) => s.updateTokens);
+  const updateUser = useAuthStore((s) => s.updateUser);
   const clearSession = useAuthStore((s) => s.clearSession);
+  const beginImpersonation = useAuthStore((s) => s.startImpersonation);
+  const endImpersonation = useAuthStore((s) => s.stopImpersonation);
 
   const lastAppliedTokenRef = React.useRef<string | null>(null);
   if (token !== lastAppliedTokenRef.current) {
     applyToken(token);
     lastAppliedTokenRef.current = token;
   }
+  setBlockDeleteRequests(impersonation ? "Not available while impersonating." : null);
 
   const loginMutation = useMutation({
     mutationFn: loginApi,
   });
 
+  const startSession = React.useCallback(
+    (data: LoginResponse["data"], remember: boolean) => {
+      applyToken(data.token);
+      setSession(
+        {
+          token: data.token,
+          refreshToken: data.refreshToken ?? null,
+          user: data.user,
+        },
+        remember
+      );
+    },
+    [setSession]
+  );
+
   React.useEffect(() => {
     setOnUnauthorized(() => {
+      // An expired impersonation token drops back to the admin session rather than signing out.
+      const current = useAuthStore.getState().impersonation;
+      if (current) {
+        applyToken(current.admin.token);
+        endImpersonation();
+        queryClient.clear();
+        showToast("Impersonation ended. You are back in your own account.", "warning");
+        return;
+      }
       clearSession();
       showToast("Session expired. Please sign in again.", "warning");
     });
     return () => setOnUnauthorized(null);
-  }, [clearSession, showToast]);
+  }, [clearSession, endImpersonation, queryClient, showToast]);
+
+  React.useEffect(() => {
+    setTokenRefresher(async () => {
+      const refreshToken = useAuthStore.getState().refreshToken;
+      if (!refreshToken) return null;
+
+      const res = await refreshTokenApi(refreshToken);
+      applyToken(res.data.token);
+      updateTokens(res.data.token, res.data.refreshToken);
+      return res.data.token;
+    });
+    return () => setTokenRefresher(null);
+  }, [updateTokens]);
 
   const isAuthenticated = Boolean(token);
 
@@ -49,28 +123,75 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       token,
       user,
       isAuthenticated,
+      can(permission) {
+        if (impersonation && isBlockedWhileImpersonating(permission)) return false;
+        return hasPermission(user?.role, permission);
+      },
       async login(email, password, remember) {
-        const res = await loginMutation.mutateAsync({ email, password });
+        const res = await loginMutation.mutateAsync({
+          email,
+          password,
+          trustedDeviceToken: readTrustedDeviceToken(email) ?? undefined,
+        });
+
+        if ("status" in res.data) {
+          return { status: "mfa_required", mfaToken: res.data.mfaToken };
+        }
 
+        startSession(res.data, remember);
+        return { status: "signed_in" };
+      },
+      async verifyMfa({ email, mfaToken, code, trustDevice, remember }) {
+        const res = await verifyMfaApi({ mfaToken, code, trustDevice });
+        if (trustDevice && res.data.trustedDeviceToken) {
+          saveTrustedDeviceToken(email, res.data.trustedDeviceToken);
+        }
+        startSession(res.data, remember);
+      },
+      async changePassword(payload) {
+        const res = await changePasswordApi(payload);
+        if (res.data?.token) {
+          applyToken(res.data.token);
+          updateTokens(res.data.token, res.data.refreshToken);
+        }
+        updateUser({ mustChangePassword: false });
+        return res.message;
+      },
+      updateUser,
+      impersonation,
+      async startImpersonation(userId) {
+        const res = await impersonateAdminUser(userId);
         applyToken(res.data.token);
-        setSession(
-          {
-            token: res.data.token,
-            user: res.data.user,
-          },
-          remember
-        );
+        beginImpersonation({ token: res.data.token, user: res.data.user }, res.data.expiresAt ?? null);
+        queryClient.clear();
+      },
+      async stopImpersonation() {
+        try {
+          await endImpersonationApi();
+        } catch {
+          // The token expires on its own; switching back must not depend on this call.
+        }
+        if (impersonation) applyToken(impersonation.admin.token);
+        endImpersonation();
+        queryClient.clear();
       },
       logout() {
+        if (impersonation) void endImpersonationApi().catch(() => undefined);
         clearSession();
+        void preventSilentSignIn();
       },
     }),
     [
+      beginImpersonation,
       clearSession,
+      endImpersonation,
+      impersonation,
       isAuthenticated,
       loginMutation,
-      setSession,
-      showToast,
+      queryClient,
+      startSession,
+      updateTokens,
+      updateUser,
       token,
       user,
     ]
@@ -46,6 +46,13 @@ export async function listAdminStates(params: {
     return parsed.data;
 }
 
+export async function getAdminState(id: string) {
+    const res = await apiFetch(`/admin/locations/states/${encodeURIComponent(id)}`);
+    const parsed = AdminStateResponseSchema.safeParse(res);
+    if (!parsed.success) throw new Error("Unexpected response from server.");
+    return parsed.data;
+}
+
 export async function createAdminState(payload: CreateAdminStateRequest) {
     const validated = CreateAdminStateRequestSchema.safeParse(payload);
     if (!validated.success) throw new Error("Check the state details and try again.");
@@ -124,6 +131,13 @@ export async function listAdminDistricts(params: {
     return parsed.data;
 }
 
+export async function getAdminDistrict(id: string) {
+    const res = await apiFetch(`/admin/locations/districts/${encodeURIComponent(id)}`);
+    const parsed = AdminDistrictResponseSchema.safeParse(res);
+    if (!parsed.success) throw new Error("Unexpected response from server.");
+    return parsed.data;
+}
+
 export async function createAdminDistrict(payload: CreateAdminDistrictRequest) {
     const validated = CreateAdminDistrictRequestSchema.safeParse(payload);
     if (!validated.success) throw new Error("Check the district details and try again.");
@@ -202,6 +216,13 @@ export async function listAdminMandals(params: {
     return parsed.data;
 }
 
+export async function getAdminMandal(id: string) {
+    const res = await apiFetch(`/admin/locations/mandals/${encodeURIComponent(id)}`);
+    const parsed = AdminMandalResponseSchema.safeParse(res);
+    if (!parsed.success) throw new Error("Unexpected response from server.");
+    return parsed.data;
+}
+
 export async function createAdminMandal(payload: CreateAdminMandalRequest) {
     const validated = CreateAdminMandalRequestSchema.safeParse(payload);
     if (!validated.success) throw new Error("Check the mandal details and try again.");
@@ -284,6 +305,13 @@ export async function listAdminVillages(params: {
     return parsed.data;
 }
 
+export async function getAdminVillage(id: string) {
+    const res = await apiFetch(`/admin/locations/villages/${encodeURIComponent(id)}`);
+    const parsed = AdminVillageResponseSchema.safeParse(res);
+    if (!parsed.success) throw new Error("Unexpected response from server.");
+    return parsed.data;
+}
+
 export async function createAdminVillage(payload: CreateAdminVillageRequest) {
     const validated = CreateAdminVillageRequestSchema.safeParse(payload);
     if (!validated.success) throw new Error("Check the village details and try again.");
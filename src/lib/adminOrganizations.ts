@@ -3,17 +3,42 @@ import {
   AdminOrganizationResponseSchema,
   AdminOrganizationsListResponseSchema,
   CreateOrganizationRequestSchema,
+  OrganizationActivityListResponseSchema,
+  OrganizationDependenciesResponseSchema,
+  SuspendOrganizationRequestSchema,
   UpdateOrganizationRequestSchema,
 } from "../types/adminOrganizations";
 import type {
+  AdminOrganization,
   CreateOrganizationRequest,
+  OrganizationSortField,
+  OrganizationStatus,
+  SortOrder,
+  SuspendOrganizationRequest,
   UpdateOrganizationRequest,
 } from "../types/adminOrganizations";
 
+export function formatOrganizationLocation(org: AdminOrganization) {
+  const parts = [org.village, org.mandal, org.district, org.state].filter(
+    (v): v is string => typeof v === "string" && v.trim() !== ""
+  );
+  if (!parts.length) return "Location not set.";
+  return org.villageId ? parts.join(", ") : `${parts.join(", ")} (not linked)`;
+}
+
 export async function listAdminOrganizations(params: {
   page?: number;
   limit?: number;
   search?: string;
+  locationLinked?: boolean;
+  // Archived organizations are left out unless this is ARCHIVED.
+  status?: OrganizationStatus;
+  stateId?: string;
+  districtId?: string;
+  // false: organizations without an active MILLER user.
+  hasActiveMiller?: boolean;
+  sortBy?: OrganizationSortField;
+  sortOrder?: SortOrder;
 } = {}) {
   const searchParams = new URLSearchParams();
 
@@ -22,6 +47,17 @@ export async function listAdminOrganizations(params: {
   if (params.search && params.search.trim() !== "") {
     searchParams.set("search", params.search.trim());
   }
+  if (typeof params.locationLinked === "boolean") {
+    searchParams.set("locationLinked", String(params.locationLinked));
+  }
+  if (params.status) searchParams.set("status", params.status);
+  if (params.stateId) searchParams.set("stateId", params.stateId);
+  if (params.districtId) searchParams.set("districtId", params.districtId);
+  if (typeof params.hasActiveMiller === "boolean") {
+    searchParams.set("hasActiveMiller", String(params.hasActiveMiller));
+  }
+  if (params.sortBy) searchParams.set("sortBy", params.sortBy);
+  if (params.sortOrder) searchParams.set("sortOrder", params.sortOrder);
 
   const qs = searchParams.toString();
   const res = await apiFetch(`/admin/organizations${qs ? `?${qs}` : ""}`);
@@ -31,6 +67,31 @@ export async function listAdminOrganizations(params: {
   return parsed.data;
 }
 
+export async function getAdminOrganization(id: string) {
+  const res = await apiFetch(`/admin/organizations/${encodeURIComponent(id)}`);
+
+  const parsed = AdminOrganizationResponseSchema.safeParse(res);
+  if (!parsed.success) throw new Error("Unexpected response from server.");
+  return parsed.data;
+}
+
+export async function listAdminOrganizationActivity(
+  id: string,
+  params: { page?: number; limit?: number } = {}
+) {
+  const searchParams = new URLSearchParams();
+
+  if (typeof params.page === "number") searchParams.set("page", String(params.page));
+  if (typeof params.limit === "number") searchParams.set("limit", String(params.limit));
+
+  const qs = searchParams.toString();
+  const res = await apiFetch(`/admin/organizations/${encodeURIComponent(id)}/activity${qs ? `?${qs}` : ""}`);
+
+  const parsed = OrganizationActivityListResponseSchema.safeParse(res);
+  if (!parsed.success) throw new Error("Unexpected response from server.");
+  return parsed.data;
+}
+
 export async function createAdminOrganization(payload: CreateOrganizationRequest) {
   const validated = CreateOrganizationRequestSchema.safeParse(payload);
   if (!validated.success) throw new Error("Check the organization details and try again.");
@@ -59,6 +120,51 @@ export async function updateAdminOrganization(id: string, payload: UpdateOrganiz
   return parsed.data;
 }
 
+export async function suspendAdminOrganization(id: string, payload: SuspendOrganizationRequest) {
+  const validated = SuspendOrganizationRequestSchema.safeParse(payload);
+  if (!validated.success) throw new Error("Enter a reason for the suspension.");
+
+  const res = await apiFetch(`/admin/organizations/${encodeURIComponent(id)}/suspend`, {
+    method: "POST",
+    body: JSON.stringify(validated.data),
+  });
+
+  const parsed = AdminOrganizationResponseSchema.safeParse(res);
+  if (!parsed.success) throw new Error("Unexpected response from server.");
+  return parsed.data;
+}
+
+export async function archiveAdminOrganization(id: string) {
+  const res = await apiFetch(`/admin/organizations/${encodeURIComponent(id)}/archive`, {
+    method: "POST",
+  });
+
+  const parsed = AdminOrganizationResponseSchema.safeParse(res);
+  if (!parsed.success) throw new Error("Unexpected response from server.");
+  return parsed.data;
+}
+
+/** Returns a suspended or archived organization to ACTIVE. */
+export async function restoreAdminOrganization(id: string) {
+  const res = await apiFetch(`/admin/organizations/${encodeURIComponent(id)}/restore`, {
+    method: "POST",
+  });
+
+  const parsed = AdminOrganizationResponseSchema.safeParse(res);
+  if (!parsed.success) throw new Error("Unexpected response from server.");
+  return parsed.data;
+}
+
+export async function getAdminOrganizationDependencies(id: string) {
+  const res = await apiFetch(`/admin/organizations/${encodeURIComponent(id)}/dependencies`);
+
+  const parsed = OrganizationDependenciesResponseSchema.safeParse(res);
+  if (!parsed.success) throw new Error("Unexpected response from server.");
+  return parsed.data;
+}
+
+// Only archived organizations with no dependent data can be deleted; the
+// server rejects anything else.
 export async function deleteAdminOrganization(id: string) {
   const res = await apiFetch(`/admin/organizations/${encodeURIComponent(id)}`, {
     method: "DELETE",
@@ -1,15 +1,73 @@
 import { apiFetch } from "./api";
 import {
   AdminUserResponseSchema,
+  AdminUsersListResponseSchema,
   AdminUserTemporaryPasswordResponseSchema,
+  BulkAdminUsersRequestSchema,
+  BulkAdminUsersResponseSchema,
+  CreateAdminUserRequestSchema,
+  CreateAdminUserResponseSchema,
   CreateMillerUserRequestSchema,
   CreateMillerUserResponseSchema,
+  ImpersonationResponseSchema,
+  IssueCredentialRequestSchema,
+  IssueCredentialResponseSchema,
   UpdateAdminUserRequestSchema,
 } from "../types/adminUsers";
 import type {
+  BulkAdminUsersRequest,
+  CreateAdminUserRequest,
   CreateMillerUserRequest,
+  IssueCredentialRequest,
   UpdateAdminUserRequest,
 } from "../types/adminUsers";
+import type { AdminRole } from "../types/adminOrganizations";
+
+export async function listAdminUsers(params: {
+  page?: number;
+  limit?: number;
+  search?: string;
+  role?: AdminRole;
+  organizationId?: string;
+  isActive?: boolean;
+  isEmailVerified?: boolean;
+  lastLoginBefore?: string;
+  neverLoggedIn?: boolean;
+} = {}) {
+  const searchParams = new URLSearchParams();
+  if (typeof params.page === "number") searchParams.set("page", String(params.page));
+  if (typeof params.limit === "number") searchParams.set("limit", String(params.limit));
+  if (params.search && params.search.trim() !== "") searchParams.set("search", params.search.trim());
+  if (params.role) searchParams.set("role", params.role);
+  if (params.organizationId) searchParams.set("organizationId", params.organizationId);
+  if (typeof params.isActive === "boolean") searchParams.set("isActive", String(params.isActive));
+  if (typeof params.isEmailVerified === "boolean") {
+    searchParams.set("isEmailVerified", String(params.isEmailVerified));
+  }
+  if (params.lastLoginBefore) searchParams.set("lastLoginBefore", params.lastLoginBefore);
+  if (params.neverLoggedIn) searchParams.set("neverLoggedIn", "true");
+
+  const qs = searchParams.toString();
+  const res = await apiFetch(`/admin/users${qs ? `?${qs}` : ""}`);
+
+  const parsed = AdminUsersListResponseSchema.safeParse(res);
+  if (!parsed.success) throw new Error("Unexpected response from server.");
+  return parsed.data;
+}
+
+export async function bulkUpdateAdminUsers(payload: BulkAdminUsersRequest) {
+  const validated = BulkAdminUsersRequestSchema.safeParse(payload);
+  if (!validated.success) throw new Error("Select at least one user.");
+
+  const res = await apiFetch("/admin/users/bulk", {
+    method: "POST",
+    body: JSON.stringify(validated.data),
+  });
+
+  const parsed = BulkAdminUsersResponseSchema.safeParse(res);
+  if (!parsed.success) throw new Error("Unexpected response from server.");
+  return parsed.data;
+}
 
 export async function createMillerUser(payload: CreateMillerUserRequest) {
   const validated = CreateMillerUserRequestSchema.safeParse(payload);
@@ -25,6 +83,20 @@ export async function createMillerUser(payload: CreateMillerUserRequest) {
   return parsed.data;
 }
 
+export async function createAdminUser(payload: CreateAdminUserRequest) {
+  const validated = CreateAdminUserRequestSchema.safeParse(payload);
+  if (!validated.success) throw new Error("Check the user details and try again.");
+
+  const res = await apiFetch("/admin/users", {
+    method: "POST",
+    body: JSON.stringify(validated.data),
+  });
+
+  const parsed = CreateAdminUserResponseSchema.safeParse(res);
+  if (!parsed.success) throw new Error("Unexpected response from server.");
+  return parsed.data;
+}
+
 export async function updateAdminUser(id: string, payload: UpdateAdminUserRequest) {
   const validated = UpdateAdminUserRequestSchema.safeParse(payload);
   if (!validated.success) throw new Error("Check the user details and try again.");
@@ -51,9 +123,61 @@ export async function deactivateAdminUser(id: string) {
   return res as { success: boolean; data: null; message?: string };
 }
 
-export async function getAdminUserTemporaryPassword(id: string) {
-  const res = await apiFetch(`/admin/users/${encodeURIComponent(id)}/temporary-password`);
+/** Reveals a pending temporary password. The server records who revealed it and only allows it once. */
+export async function revealAdminUserTemporaryPassword(id: string) {
+  const res = await apiFetch(`/admin/users/${encodeURIComponent(id)}/temporary-password/reveal`, {
+    method: "POST",
+  });
   const parsed = AdminUserTemporaryPasswordResponseSchema.safeParse(res);
   if (!parsed.success) throw new Error("Unexpected response from server.");
   return parsed.data;
 }
+
+/** Replaces any outstanding temporary credential with a new password or an emailed invite link. */
+export async function issueAdminUserCredential(id: string, payload: IssueCredentialRequest) {
+  const validated = IssueCredentialRequestSchema.safeParse(payload);
+  if (!validated.success) throw new Error("Choose how to send the credential and when it expires.");
+
+  const res = await apiFetch(`/admin/users/${encodeURIComponent(id)}/credentials`, {
+    method: "POST",
+    body: JSON.stringify(validated.data),
+  });
+
+  const parsed = IssueCredentialResponseSchema.safeParse(res);
+  if (!parsed.success) throw new Error("Unexpected response from server.");
+  return parsed.data;
+}
+
+export async function resendVerificationEmail(id: string) {
+  const res = await apiFetch(`/admin/users/${encodeURIComponent(id)}/resend-verification`, {
+    method: "POST",
+  });
+
+  if (typeof res !== "object" || res === null || !("success" in res)) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return res as { success: boolean; data: null; message?: string };
+}
+
+export async function sendPasswordResetEmail(id: string) {
+  const res = await apiFetch(`/admin/users/${encodeURIComponent(id)}/password-reset`, {
+    method: "POST",
+  });
+
+  if (typeof res !== "object" || res === null || !("success" in res)) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return res as { success: boolean; data: null; message?: string };
+}
+
+export async function impersonateAdminUser(id: string) {
+  const res = await apiFetch(`/admin/users/${encodeURIComponent(id)}/impersonate`, {
+    method: "POST",
+  });
+
+  const parsed = ImpersonationResponseSchema.safeParse(res);
+  if (!parsed.success) throw new Error("Unexpected response from server.");
+  return parsed.data;
+}
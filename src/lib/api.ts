@@ -2,6 +2,9 @@ import { apiUrl } from "../config";
 
 let authToken: string | null = null;
 let onUnauthorized: (() => void) | null = null;
+let tokenRefresher: (() => Promise<string | null>) | null = null;
+let refreshInFlight: Promise<string | null> | null = null;
+let blockedDeleteMessage: string | null = null;
 
 export function setAuthToken(token: string | null) {
   authToken = token;
@@ -11,6 +14,36 @@ export function setOnUnauthorized(handler: (() => void) | null) {
   onUnauthorized = handler;
 }
 
+export function setTokenRefresher(handler: (() => Promise<string | null>) | null) {
+  tokenRefresher = handler;
+}
+
+/** While set, DELETE requests fail locally with this message instead of reaching the server. */
+export function setBlockDeleteRequests(message: string | null) {
+  blockedDeleteMessage = message;
+}
+
+// Every 401 that arrives while a refresh is running waits on the same promise,
+// so a failed refresh ends the session once rather than once per request.
+function refreshAuthToken(): Promise<string | null> {
+  if (!tokenRefresher) {
+    onUnauthorized?.();
+    return Promise.resolve(null);
+  }
+  if (!refreshInFlight) {
+    refreshInFlight = tokenRefresher()
+      .catch(() => null)
+      .then((token) => {
+        if (!token) onUnauthorized?.();
+        return token;
+      })
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  return refreshInFlight;
+}
+
 type ApiErrorData = unknown;
 
 export class ApiError extends Error {
@@ -34,37 +67,59 @@ function safeJsonParse(text: string): unknown {
   }
 }
 
-export async function apiFetch(path: string, init: RequestInit = {}) {
-  const url = path.startsWith("http") ? path : apiUrl(path);
+function errorMessage(data: unknown, fallback: string): string {
+  return typeof data === "object" && data !== null && "message" in data
+    ? String((data as { message: unknown }).message)
+    : fallback;
+}
+
+export interface ApiFetchOptions {
+  /** Set for auth endpoints so a 401 is returned as-is instead of triggering a token refresh. */
+  skipRefresh?: boolean;
+}
 
+async function send(url: string, init: RequestInit, token: string | null) {
   const headers = new Headers(init.headers);
   if (!headers.has("Content-Type") && !(init.body instanceof FormData)) {
     headers.set("Content-Type", "application/json");
   }
-  if (authToken) {
-    headers.set("Authorization", `Bearer ${authToken}`);
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
   }
 
   const res = await fetch(url, { ...init, headers });
-
   const text = await res.text();
-  const data = safeJsonParse(text);
+  return { res, data: safeJsonParse(text) };
+}
+
+export async function apiFetch(path: string, init: RequestInit = {}, options: ApiFetchOptions = {}) {
+  const url = path.startsWith("http") ? path : apiUrl(path);
+
+  if (blockedDeleteMessage && init.method?.toUpperCase() === "DELETE") {
+    throw new ApiError(blockedDeleteMessage, 403, null);
+  }
+
+  if (refreshInFlight && !options.skipRefresh) {
+    await refreshInFlight;
+  }
+
+  const sentToken = authToken;
+  let { res, data } = await send(url, init, sentToken);
+
+  if (res.status === 401 && !options.skipRefresh && sentToken) {
+    const nextToken = authToken && authToken !== sentToken ? authToken : await refreshAuthToken();
+    if (nextToken) {
+      ({ res, data } = await send(url, init, nextToken));
+      if (res.status === 401) onUnauthorized?.();
+    }
+  }
 
   if (res.status === 401) {
-    if (onUnauthorized) onUnauthorized();
-    const message =
-      typeof data === "object" && data !== null && "message" in data
-        ? String((data as { message: unknown }).message)
-        : "Unauthorized";
-    throw new ApiError(message, 401, data);
+    throw new ApiError(errorMessage(data, "Unauthorized"), 401, data);
   }
 
   if (!res.ok) {
-    const message =
-      typeof data === "object" && data !== null && "message" in data
-        ? String((data as { message: unknown }).message)
-        : res.statusText;
-    throw new ApiError(message, res.status, data);
+    throw new ApiError(errorMessage(data, res.statusText), res.status, data);
   }
 
   return data;
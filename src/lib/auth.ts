@@ -1,6 +1,29 @@
 import { apiFetch, setAuthToken } from "./api";
-import type { LoginRequest } from "../types/auth";
-import { LoginResponseSchema } from "../types/auth";
+import type {
+  ChangePasswordRequest,
+  ForgotPasswordRequest,
+  LoginRequest,
+  MfaCodeRequest,
+  ResetPasswordRequest,
+  UpdateProfileRequest,
+  VerifyMfaRequest,
+} from "../types/auth";
+import {
+  AuthMessageResponseSchema,
+  ChangePasswordRequestSchema,
+  ChangePasswordResponseSchema,
+  ForgotPasswordRequestSchema,
+  LoginResponseSchema,
+  MfaBackupCodesResponseSchema,
+  MfaCodeRequestSchema,
+  MfaEnrollmentResponseSchema,
+  MfaRequiredResponseSchema,
+  RefreshTokenResponseSchema,
+  ResetPasswordRequestSchema,
+  UpdateProfileRequestSchema,
+  UserResponseSchema,
+  VerifyMfaRequestSchema,
+} from "../types/auth";
 
 export async function loginApi(payload: LoginRequest) {
   const res = await apiFetch("/auth/login", {
@@ -9,6 +32,108 @@ export async function loginApi(payload: LoginRequest) {
   });
 
   const parsed = LoginResponseSchema.safeParse(res);
+  if (parsed.success) return parsed.data;
+
+  const mfa = MfaRequiredResponseSchema.safeParse(res);
+  if (mfa.success) return mfa.data;
+
+  throw new Error("Unexpected response from server.");
+}
+
+export async function verifyMfaApi(payload: VerifyMfaRequest) {
+  const parsedPayload = VerifyMfaRequestSchema.safeParse(payload);
+  if (!parsedPayload.success) {
+    throw new Error("Enter the 6-digit code or a backup code.");
+  }
+
+  const res = await apiFetch(
+    "/auth/mfa/verify",
+    {
+      method: "POST",
+      body: JSON.stringify(parsedPayload.data),
+    },
+    { skipRefresh: true }
+  );
+
+  const parsed = LoginResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
+
+export async function startMfaEnrollment() {
+  const res = await apiFetch("/auth/mfa/enroll", { method: "POST" });
+
+  const parsed = MfaEnrollmentResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
+
+async function postMfaCode(path: string, payload: MfaCodeRequest) {
+  const parsedPayload = MfaCodeRequestSchema.safeParse(payload);
+  if (!parsedPayload.success) {
+    throw new Error("Enter the 6-digit code from your authenticator app.");
+  }
+
+  return apiFetch(
+    path,
+    {
+      method: "POST",
+      body: JSON.stringify(parsedPayload.data),
+    },
+    { skipRefresh: true }
+  );
+}
+
+export async function confirmMfaEnrollment(payload: MfaCodeRequest) {
+  const res = await postMfaCode("/auth/mfa/enroll/confirm", payload);
+
+  const parsed = MfaBackupCodesResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
+
+export async function regenerateMfaBackupCodes(payload: MfaCodeRequest) {
+  const res = await postMfaCode("/auth/mfa/backup-codes", payload);
+
+  const parsed = MfaBackupCodesResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
+
+export async function disableMfa(payload: MfaCodeRequest) {
+  const res = await postMfaCode("/auth/mfa/disable", payload);
+
+  const parsed = AuthMessageResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
+
+export async function refreshTokenApi(refreshToken: string) {
+  const res = await apiFetch(
+    "/auth/refresh",
+    {
+      method: "POST",
+      body: JSON.stringify({ refreshToken }),
+    },
+    { skipRefresh: true }
+  );
+
+  const parsed = RefreshTokenResponseSchema.safeParse(res);
   if (!parsed.success) {
     throw new Error("Unexpected response from server.");
   }
@@ -19,3 +144,134 @@ export async function loginApi(payload: LoginRequest) {
 export function applyToken(token: string | null) {
   setAuthToken(token);
 }
+
+export async function getMe() {
+  const res = await apiFetch("/auth/me");
+
+  const parsed = UserResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
+
+export async function updateProfile(payload: UpdateProfileRequest) {
+  const parsedPayload = UpdateProfileRequestSchema.safeParse(payload);
+  if (!parsedPayload.success) {
+    throw new Error("Check your details and try again.");
+  }
+
+  const res = await apiFetch("/auth/me", {
+    method: "PATCH",
+    body: JSON.stringify(parsedPayload.data),
+  });
+
+  const parsed = UserResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
+
+export async function changePasswordApi(payload: ChangePasswordRequest) {
+  const parsedPayload = ChangePasswordRequestSchema.safeParse(payload);
+  if (!parsedPayload.success) {
+    throw new Error("Check the password rules and try again.");
+  }
+
+  const { currentPassword, newPassword } = parsedPayload.data;
+  const res = await apiFetch(
+    "/auth/change-password",
+    {
+      method: "POST",
+      body: JSON.stringify({ currentPassword, newPassword }),
+    },
+    { skipRefresh: true }
+  );
+
+  const parsed = ChangePasswordResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
+
+export async function requestPasswordReset(payload: ForgotPasswordRequest) {
+  const parsedPayload = ForgotPasswordRequestSchema.safeParse(payload);
+  if (!parsedPayload.success) {
+    throw new Error("Enter a valid email.");
+  }
+
+  const res = await apiFetch(
+    "/auth/forgot-password",
+    {
+      method: "POST",
+      body: JSON.stringify(parsedPayload.data),
+    },
+    { skipRefresh: true }
+  );
+
+  const parsed = AuthMessageResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
+
+export async function resetPasswordApi(payload: ResetPasswordRequest) {
+  const parsedPayload = ResetPasswordRequestSchema.safeParse(payload);
+  if (!parsedPayload.success) {
+    throw new Error("Check the password rules and try again.");
+  }
+
+  const { token, newPassword } = parsedPayload.data;
+  const res = await apiFetch(
+    "/auth/reset-password",
+    {
+      method: "POST",
+      body: JSON.stringify({ token, newPassword }),
+    },
+    { skipRefresh: true }
+  );
+
+  const parsed = AuthMessageResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
+
+export async function verifyEmailApi(token: string) {
+  const res = await apiFetch(
+    "/auth/verify-email",
+    {
+      method: "POST",
+      body: JSON.stringify({ token }),
+    },
+    { skipRefresh: true }
+  );
+
+  const parsed = AuthMessageResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
+
+/** Tells the server to revoke the impersonation token. Sent with the impersonation token itself. */
+export async function endImpersonationApi() {
+  const res = await apiFetch("/auth/impersonation/end", { method: "POST" }, { skipRefresh: true });
+
+  const parsed = AuthMessageResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
@@ -3,8 +3,78 @@ import {
   CropYearListResponseSchema,
   CropYearResponseSchema,
   CreateCropYearRequestSchema,
+  SetCropYearStatusRequestSchema,
+  UpdateCropYearRequestSchema,
+  UpdateCropYearSeasonsRequestSchema,
 } from "../types/cropYears";
-import type { CreateCropYearRequest } from "../types/cropYears";
+import type {
+  CreateCropYearRequest,
+  CropYear,
+  CropYearStatus,
+  Season,
+  UpdateCropYearRequest,
+  UpdateCropYearSeasonsRequest,
+} from "../types/cropYears";
+
+export const CROP_YEAR_STATUS_LABELS: Record<CropYearStatus, string> = {
+  PLANNED: "Planned",
+  OPEN: "Open",
+  CLOSED: "Closed",
+  ARCHIVED: "Archived",
+};
+
+// Allowed lifecycle moves. Closed years can be reopened and archived years restored to closed.
+export const CROP_YEAR_STATUS_TRANSITIONS: Record<CropYearStatus, CropYearStatus[]> = {
+  PLANNED: ["OPEN"],
+  OPEN: ["CLOSED"],
+  CLOSED: ["OPEN", "ARCHIVED"],
+  ARCHIVED: ["CLOSED"],
+};
+
+export function isCropYearReadOnly(cropYear: Pick<CropYear, "status"> | null | undefined) {
+  return cropYear?.status === "CLOSED" || cropYear?.status === "ARCHIVED";
+}
+
+const BUILT_IN_SEASON_NAMES: Record<string, string> = {
+  KHARIF: "Kharif",
+  RABI: "Rabi",
+};
+
+export function formatSeasonName(code: string, seasons: Pick<Season, "code" | "name">[] = []): string {
+  return seasons.find((s) => s.code === code)?.name ?? BUILT_IN_SEASON_NAMES[code] ?? code;
+}
+
+export function compareSeasons(a: Season, b: Season): number {
+  if (a.procurementStartDate && b.procurementStartDate && a.procurementStartDate !== b.procurementStartDate) {
+    return a.procurementStartDate < b.procurementStartDate ? -1 : 1;
+  }
+  if (a.isCustom !== b.isCustom) return a.isCustom ? 1 : -1;
+  const order: Record<string, number> = { KHARIF: 1, RABI: 2 };
+  return (order[a.code] ?? 99) - (order[b.code] ?? 99) || a.name.localeCompare(b.name);
+}
+
+// Seasons whose procurement windows share at least one day, keyed by season code.
+export function findSeasonOverlaps(seasons: Season[]): Map<string, Season[]> {
+  const overlaps = new Map<string, Season[]>();
+  for (const a of seasons) {
+    if (!a.procurementStartDate || !a.procurementEndDate) continue;
+    for (const b of seasons) {
+      if (a.code === b.code || !b.procurementStartDate || !b.procurementEndDate) continue;
+      if (a.procurementStartDate <= b.procurementEndDate && b.procurementStartDate <= a.procurementEndDate) {
+        overlaps.set(a.code, [...(overlaps.get(a.code) ?? []), b]);
+      }
+    }
+  }
+  return overlaps;
+}
+
+export function findCurrentCropYear(cropYears: CropYear[]): CropYear | null {
+  const marked = cropYears.find((cy) => cy.isCurrent);
+  if (marked) return marked;
+
+  const byStartYear = cropYears.slice().sort((a, b) => b.startYear - a.startYear);
+  return byStartYear.find((cy) => cy.status === "OPEN") ?? byStartYear[0] ?? null;
+}
 
 export async function listCropYears(params: {
   page?: number;
@@ -63,3 +133,74 @@ export async function createCropYear(payload: CreateCropYearRequest) {
 
   return parsed.data;
 }
+
+export async function updateCropYear(id: string, payload: UpdateCropYearRequest) {
+  const parsedPayload = UpdateCropYearRequestSchema.safeParse(payload);
+  if (!parsedPayload.success) {
+    throw new Error("Check the crop year details and try again.");
+  }
+
+  const res = await apiFetch(`/admin/crop-years/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    body: JSON.stringify(parsedPayload.data),
+  });
+
+  const parsed = CropYearResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
+
+export async function setCropYearStatus(id: string, status: CropYearStatus) {
+  const parsedPayload = SetCropYearStatusRequestSchema.safeParse({ status });
+  if (!parsedPayload.success) {
+    throw new Error("Select a valid status.");
+  }
+
+  const res = await apiFetch(`/admin/crop-years/${encodeURIComponent(id)}/status`, {
+    method: "POST",
+    body: JSON.stringify(parsedPayload.data),
+  });
+
+  const parsed = CropYearResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
+
+export async function setCurrentCropYear(id: string) {
+  const res = await apiFetch("/admin/crop-years/current", {
+    method: "PUT",
+    body: JSON.stringify({ cropYearId: id }),
+  });
+
+  const parsed = CropYearResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
+
+export async function updateCropYearSeasons(id: string, payload: UpdateCropYearSeasonsRequest) {
+  const parsedPayload = UpdateCropYearSeasonsRequestSchema.safeParse(payload);
+  if (!parsedPayload.success) {
+    throw new Error("Check the season details and try again.");
+  }
+
+  const res = await apiFetch(`/admin/crop-years/${encodeURIComponent(id)}/seasons`, {
+    method: "PUT",
+    body: JSON.stringify(parsedPayload.data),
+  });
+
+  const parsed = CropYearResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
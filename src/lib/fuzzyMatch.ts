@@ -0,0 +1,73 @@
+import type { VillageSearchResult } from "./adminLocationsSearch";
+
+function normalizeName(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function levenshtein(a: string, b: string) {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i += 1) {
+    const next = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      next[j] = Math.min(prev[j] + 1, next[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = next;
+  }
+  return prev[b.length];
+}
+
+/** 0..1 similarity of two names, ignoring case, punctuation and spacing. */
+export function nameSimilarity(a: string, b: string) {
+  const left = normalizeName(a).replace(/ /g, "");
+  const right = normalizeName(b).replace(/ /g, "");
+  if (!left || !right) return 0;
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+}
+
+export type FreeTextLocation = {
+  state: string | null;
+  district: string | null;
+  village: string | null;
+};
+
+export type VillageMatch = {
+  village: VillageSearchResult;
+  score: number;
+};
+
+const MATCH_WEIGHTS = { village: 0.6, district: 0.25, state: 0.15 };
+
+/**
+ * Ranks village master records against free-text location values. Parts the
+ * source leaves blank are left out and the remaining weights are rescaled.
+ */
+export function rankVillageMatches(source: FreeTextLocation, candidates: VillageSearchResult[]) {
+  const parts = (
+    [
+      ["village", source.village, (v: VillageSearchResult) => v.name],
+      ["district", source.district, (v: VillageSearchResult) => v.districtName],
+      ["state", source.state, (v: VillageSearchResult) => v.stateName],
+    ] as const
+  ).filter(([, text]) => typeof text === "string" && text.trim() !== "");
+
+  const totalWeight = parts.reduce((sum, [key]) => sum + MATCH_WEIGHTS[key], 0);
+  if (totalWeight === 0) return [];
+
+  return candidates
+    .map((village): VillageMatch => {
+      const weighted = parts.reduce(
+        (sum, [key, text, pick]) => sum + MATCH_WEIGHTS[key] * nameSimilarity(text ?? "", pick(village)),
+        0
+      );
+      return { village, score: weighted / totalWeight };
+    })
+    .sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,75 @@
+import { apiFetch } from "./api";
+import {
+  DeleteMasterBagSizeResponseSchema,
+  MasterBagSizeListResponseSchema,
+  MasterBagSizeResponseSchema,
+  UpsertMasterBagSizeRequestSchema,
+} from "../types/masterBagSizes";
+import type { MasterBagSize, UpsertMasterBagSizeRequest } from "../types/masterBagSizes";
+
+export function sortBagSizes<T extends Pick<MasterBagSize, "displayOrder" | "weightKg">>(items: T[]): T[] {
+  return items
+    .slice()
+    .sort((a, b) => a.displayOrder - b.displayOrder || b.weightKg - a.weightKg);
+}
+
+export async function listMasterBagSizes(params: { includeInactive?: boolean } = {}) {
+  const searchParams = new URLSearchParams();
+
+  if (typeof params.includeInactive === "boolean") {
+    searchParams.set("includeInactive", String(params.includeInactive));
+  }
+
+  const qs = searchParams.toString();
+  const res = await apiFetch(`/master-data/bag-sizes${qs ? `?${qs}` : ""}`);
+  const parsed = MasterBagSizeListResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+  return {
+    ...parsed.data,
+    data: { items: sortBagSizes(parsed.data.data.items) },
+  };
+}
+
+export async function upsertMasterBagSize(code: string, payload: UpsertMasterBagSizeRequest) {
+  const normalizedCode = code.trim().toUpperCase();
+  if (!normalizedCode) {
+    throw new Error("Enter a bag size code.");
+  }
+
+  const validated = UpsertMasterBagSizeRequestSchema.safeParse(payload);
+  if (!validated.success) {
+    throw new Error("Check the bag size details and try again.");
+  }
+
+  const res = await apiFetch(`/admin/bag-sizes/${encodeURIComponent(normalizedCode)}`, {
+    method: "PUT",
+    body: JSON.stringify(validated.data),
+  });
+
+  const parsed = MasterBagSizeResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
+
+export async function deleteMasterBagSize(code: string) {
+  const normalizedCode = code.trim().toUpperCase();
+  if (!normalizedCode) {
+    throw new Error("Enter a bag size code.");
+  }
+
+  const res = await apiFetch(`/admin/bag-sizes/${encodeURIComponent(normalizedCode)}`, {
+    method: "DELETE",
+  });
+
+  const parsed = DeleteMasterBagSizeResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+
+  return parsed.data;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+
+import { formatPaise, formatPercent, parsePercent, parseRupeesToPaise, prorataPaise, rupeesToPaise } from "./money";
+
+describe("parseRupeesToPaise", () => {
+  it("accepts grouping commas and rupee symbols", () => {
+    expect(parseRupeesToPaise("1,250.50")).toBe(125050);
+    expect(parseRupeesToPaise("₹1250")).toBe(125000);
+    expect(parseRupeesToPaise("Rs. 1,00,000")).toBe(10000000);
+  });
+
+  it("rounds the third decimal half away from zero", () => {
+    expect(parseRupeesToPaise("0.005")).toBe(1);
+    expect(parseRupeesToPaise("-0.005")).toBe(-1);
+    expect(parseRupeesToPaise("1.995")).toBe(200);
+    expect(parseRupeesToPaise("1.994")).toBe(199);
+  });
+
+  it("does not return negative zero", () => {
+    expect(Object.is(parseRupeesToPaise("-0.004"), 0)).toBe(true);
+  });
+
+  it("rejects input that is not an amount", () => {
+    expect(parseRupeesToPaise("")).toBeNull();
+    expect(parseRupeesToPaise("₹")).toBeNull();
+    expect(parseRupeesToPaise("-")).toBeNull();
+    expect(parseRupeesToPaise("abc")).toBeNull();
+    expect(parseRupeesToPaise("1.2.3")).toBeNull();
+    expect(parseRupeesToPaise("12a")).toBeNull();
+  });
+});
+
+describe("formatPaise", () => {
+  it("groups rupees in lakhs and crores", () => {
+    expect(formatPaise(99999)).toBe("₹999.99");
+    expect(formatPaise(10000000)).toBe("₹1,00,000.00");
+    expect(formatPaise(12345678901)).toBe("₹12,34,56,789.01");
+  });
+
+  it("puts the sign before the symbol for negative amounts", () => {
+    expect(formatPaise(-125050)).toBe("-₹1,250.50");
+    expect(formatPaise(-5)).toBe("-₹0.05");
+  });
+
+  it("can leave out the symbol and grouping", () => {
+    expect(formatPaise(10000000, { symbol: false, grouping: false })).toBe("100000.00");
+  });
+});
+
+describe("rupeesToPaise", () => {
+  it("rounds using the decimal text rather than the float", () => {
+    expect(rupeesToPaise(1.005)).toBe(101);
+    expect(rupeesToPaise(0.1 + 0.2)).toBe(30);
+    expect(rupeesToPaise(19.99)).toBe(1999);
+  });
+
+  it("falls back to multiplying for exponent notation", () => {
+    expect(rupeesToPaise(1e-7)).toBe(0);
+  });
+});
+
+describe("prorataPaise", () => {
+  it("rounds to the nearest paisa", () => {
+    expect(prorataPaise(1000, 3, 1)).toBe(333);
+    expect(prorataPaise(1000, 3, 2)).toBe(667);
+    expect(prorataPaise(-1000, 3, 2)).toBe(-667);
+  });
+
+  it("rounds halves away from zero", () => {
+    expect(prorataPaise(5, 2, 1)).toBe(3);
+    expect(prorataPaise(-5, 2, 1)).toBe(-3);
+    expect(prorataPaise(166667, 100, 75)).toBe(125000);
+  });
+
+  it("is exact when the quantities divide evenly", () => {
+    expect(prorataPaise(5000, 50, 25)).toBe(2500);
+  });
+});
+
+describe("parsePercent", () => {
+  it("parses whole, decimal and signed percentages", () => {
+    expect(parsePercent("10")).toBe(10);
+    expect(parsePercent(" 2.5 % ")).toBe(2.5);
+    expect(parsePercent("-7.5")).toBe(-7.5);
+    expect(parsePercent("+.5")).toBe(0.5);
+  });
+
+  it("rejects blank and malformed input", () => {
+    expect(parsePercent("")).toBeNull();
+    expect(parsePercent("-")).toBeNull();
+    expect(parsePercent("1e2")).toBeNull();
+    expect(parsePercent("ten")).toBeNull();
+  });
+});
+
+describe("formatPercent", () => {
+  it("shows one decimal place, rounding halves away from zero", () => {
+    expect(formatPercent(12)).toBe("12.0%");
+    expect(formatPercent(2.25)).toBe("2.3%");
+    expect(formatPercent(-2.25)).toBe("-2.3%");
+    expect(formatPercent(-0.01)).toBe("0.0%");
+  });
+});
@@ -1,18 +1,93 @@
-export function toNumberOrNull(raw: string): number | null {
-  const v = raw.trim();
-  if (!v) return null;
-  const n = Number(v);
-  if (!Number.isFinite(n)) return null;
-  return n;
-}
-
-export function formatBagSizeLabel(bagSize: "KG_40" | "KG_75" | "KG_100"): string {
-  switch (bagSize) {
-    case "KG_40":
-      return "40 kg";
-    case "KG_75":
-      return "75 kg";
-    case "KG_100":
-      return "100 kg";
+export type Paise = number;
+
+const RUPEE_SYMBOLS = /₹|\brs\.?|\binr\b/gi;
+const RUPEE_AMOUNT = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+export function parseRupeesToPaise(raw: string): Paise | null {
+  const cleaned = raw.replace(RUPEE_SYMBOLS, "").replace(/[,\s]/g, "");
+  const match = RUPEE_AMOUNT.exec(cleaned);
+  if (!match) return null;
+
+  const [, sign, whole = "", fraction = ""] = match;
+  if (!whole && !fraction) return null;
+
+  const digits = fraction.padEnd(3, "0");
+  let paise = Number(whole || "0") * 100 + Number(digits.slice(0, 2));
+  if (Number(digits[2]) >= 5) paise += 1;
+  if (!Number.isSafeInteger(paise)) return null;
+
+  return sign === "-" && paise !== 0 ? -paise : paise;
+}
+
+export function rupeesToPaise(rupees: number): Paise {
+  const text = String(rupees);
+  if (!/e/i.test(text)) {
+    const paise = parseRupeesToPaise(text);
+    if (paise !== null) return paise;
   }
+  return Math.round(rupees * 100);
+}
+
+export function paiseToRupees(paise: Paise): number {
+  return paise / 100;
+}
+
+function roundHalfAwayFromZero(value: number): number {
+  return Math.sign(value) * Math.round(Math.abs(value));
+}
+
+export function prorataPaise(paise: Paise, fromQuantity: number, toQuantity: number): Paise {
+  const result = roundHalfAwayFromZero((paise * toQuantity) / fromQuantity);
+  return result === 0 ? 0 : result;
+}
+
+const PERCENT = /^([+-])?(\d*)(?:\.(\d*))?%?$/;
+
+/** Parses a percentage such as "10", "-2.5" or "7.5%" into a number of percent. */
+export function parsePercent(raw: string): number | null {
+  const match = PERCENT.exec(raw.replace(/\s/g, ""));
+  if (!match) return null;
+  const [, sign, whole = "", fraction = ""] = match;
+  if (!whole && !fraction) return null;
+  const value = Number(`${whole || "0"}.${fraction || "0"}`);
+  return sign === "-" && value !== 0 ? -value : value;
+}
+
+/** Formats a percentage to one decimal place, rounding half away from zero. */
+export function formatPercent(value: number): string {
+  const tenths = Math.round(Math.abs(value) * 10);
+  const sign = value < 0 && tenths !== 0 ? "-" : "";
+  return `${sign}${Math.floor(tenths / 10)}.${tenths % 10}%`;
+}
+
+function groupIndian(digits: string): string {
+  const lastThree = digits.slice(-3);
+  const rest = digits.slice(0, -3);
+  if (!rest) return lastThree;
+  return `${rest.replace(/\B(?=(\d{2})+(?!\d))/g, ",")},${lastThree}`;
+}
+
+export function formatPaise(
+  paise: Paise,
+  options: { symbol?: boolean; grouping?: boolean } = {}
+): string {
+  const { symbol = true, grouping = true } = options;
+  const whole = Math.round(paise);
+  const abs = Math.abs(whole);
+  const rupees = String(Math.floor(abs / 100));
+  const fraction = String(abs % 100).padStart(2, "0");
+  const sign = whole < 0 ? "-" : "";
+  return `${sign}${symbol ? "₹" : ""}${grouping ? groupIndian(rupees) : rupees}.${fraction}`;
+}
+
+export function formatRupees(rupees: number | null | undefined): string {
+  return typeof rupees === "number" && Number.isFinite(rupees) ? formatPaise(rupeesToPaise(rupees)) : "—";
+}
+
+export function paiseToInputValue(paise: Paise | null): string {
+  return paise === null ? "" : formatPaise(paise, { symbol: false, grouping: false });
+}
+
+export function formatBagSizeLabel(bagSize: { weightKg: number }): string {
+  return `${bagSize.weightKg} kg`;
 }
@@ -0,0 +1,243 @@
+import { searchVillagesWithContext, type VillageSearchResult } from "./adminLocationsSearch";
+import { nameSimilarity, rankVillageMatches } from "./fuzzyMatch";
+import type { SpreadsheetRow, SpreadsheetValue } from "./spreadsheet";
+import { CreateOrganizationRequestSchema } from "../types/adminOrganizations";
+import { CreateMillerUserRequestSchema } from "../types/adminUsers";
+
+export const ORGANIZATION_IMPORT_FIELDS = [
+  { key: "name", label: "Organization name", required: true, candidates: ["organizationname", "organization", "orgname", "name"] },
+  { key: "villageId", label: "Village ID", required: false, candidates: ["villageid"] },
+  { key: "village", label: "Village", required: false, candidates: ["village", "villagename"] },
+  { key: "mandal", label: "Mandal", required: false, candidates: ["mandal", "mandalname"] },
+  { key: "district", label: "District", required: false, candidates: ["district", "districtname"] },
+  { key: "state", label: "State", required: false, candidates: ["state", "statename"] },
+  { key: "millerEmail", label: "Miller email", required: true, candidates: ["milleremail", "email"] },
+  { key: "millerFirstName", label: "Miller first name", required: true, candidates: ["millerfirstname", "firstname"] },
+  { key: "millerLastName", label: "Miller last name", required: true, candidates: ["millerlastname", "lastname"] },
+] as const;
+
+export type OrganizationImportField = (typeof ORGANIZATION_IMPORT_FIELDS)[number]["key"];
+
+/** Column index for each field; -1 when the file has no such column. */
+export type OrganizationImportMapping = Record<OrganizationImportField, number>;
+
+export type OrganizationImportRow = {
+  line: number;
+  name: string;
+  villageId: string;
+  village: string;
+  mandal: string;
+  district: string;
+  state: string;
+  millerEmail: string;
+  millerFirstName: string;
+  millerLastName: string;
+  resolvedVillage: VillageSearchResult | null;
+  errors: string[];
+};
+
+export type OrganizationImportStatus = "created" | "partial" | "failed" | "skipped";
+
+export type OrganizationImportResult = {
+  line: number;
+  name: string;
+  organizationId: string | null;
+  millerEmail: string;
+  temporaryPassword: string | null;
+  passwordExpiresAt: string | null;
+  status: OrganizationImportStatus;
+  message: string;
+};
+
+// Villages whose names are this close to the typed one are offered as a hint
+// when there is no exact match.
+const SUGGESTION_MIN_SCORE = 0.75;
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export function guessImportMapping(header: string[]): OrganizationImportMapping {
+  const normalized = header.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as OrganizationImportMapping;
+  for (const field of ORGANIZATION_IMPORT_FIELDS) {
+    const col = normalized.findIndex(
+      (h, i) => !used.has(i) && (field.candidates as readonly string[]).includes(h)
+    );
+    mapping[field.key] = col;
+    if (col >= 0) used.add(col);
+  }
+  return mapping;
+}
+
+export function validateImportMapping(mapping: OrganizationImportMapping): string | null {
+  const missing = ORGANIZATION_IMPORT_FIELDS.find((f) => f.required && mapping[f.key] < 0);
+  if (missing) return `Choose the column for ${missing.label}.`;
+  if (mapping.village < 0 && mapping.villageId < 0) return "Choose a Village or Village ID column.";
+
+  const cols = Object.values(mapping).filter((c) => c >= 0);
+  if (new Set(cols).size !== cols.length) return "Each column can be used for one field only.";
+  return null;
+}
+
+const MillerDetailsSchema = CreateMillerUserRequestSchema.omit({ organizationId: true });
+const OrganizationNameSchema = CreateOrganizationRequestSchema.pick({ name: true });
+
+export function readImportRows(rows: SpreadsheetRow[], mapping: OrganizationImportMapping): OrganizationImportRow[] {
+  const [, ...body] = rows;
+  const seenNames = new Set<string>();
+  const seenEmails = new Set<string>();
+
+  return body.map((cells, index) => {
+    const cell = (field: OrganizationImportField) =>
+      mapping[field] >= 0 ? (cells[mapping[field]] ?? "").trim() : "";
+
+    const row: OrganizationImportRow = {
+      line: index + 2,
+      name: cell("name"),
+      villageId: cell("villageId"),
+      village: cell("village"),
+      mandal: cell("mandal"),
+      district: cell("district"),
+      state: cell("state"),
+      millerEmail: cell("millerEmail").toLowerCase(),
+      millerFirstName: cell("millerFirstName"),
+      millerLastName: cell("millerLastName"),
+      resolvedVillage: null,
+      errors: [],
+    };
+
+    const name = OrganizationNameSchema.safeParse({ name: row.name });
+    if (!name.success) row.errors.push(name.error.issues[0]?.message ?? "Enter an organization name.");
+
+    const nameKey = row.name.toLowerCase();
+    if (nameKey && seenNames.has(nameKey)) row.errors.push(`${row.name} appears more than once.`);
+    seenNames.add(nameKey);
+
+    if (!row.villageId && !row.village) row.errors.push("Enter a village or village ID.");
+
+    const miller = MillerDetailsSchema.safeParse({
+      email: row.millerEmail,
+      firstName: row.millerFirstName,
+      lastName: row.millerLastName,
+    });
+    if (!miller.success) {
+      for (const issue of miller.error.issues) row.errors.push(issue.message);
+    }
+
+    if (row.millerEmail && seenEmails.has(row.millerEmail)) {
+      row.errors.push(`${row.millerEmail} is used by more than one row.`);
+    }
+    seenEmails.add(row.millerEmail);
+
+    return row;
+  });
+}
+
+function matchesContext(row: OrganizationImportRow, village: VillageSearchResult) {
+  const parts: Array<[string, string]> = [
+    [row.mandal, village.mandalName],
+    [row.district, village.districtName],
+    [row.state, village.stateName],
+  ];
+  return parts.every(([typed, master]) => !typed || nameSimilarity(typed, master) >= 0.9);
+}
+
+function describeVillage(village: VillageSearchResult) {
+  return `${village.name} (${village.mandalName}, ${village.districtName})`;
+}
+
+/**
+ * Looks up each typed village in the location master. A row resolves only when
+ * exactly one village matches its name and any mandal/district/state given.
+ */
+export async function resolveImportVillages(
+  rows: OrganizationImportRow[],
+  onProgress?: (done: number, total: number) => void
+): Promise<OrganizationImportRow[]> {
+  const cache = new Map<string, VillageSearchResult[]>();
+  const resolved: OrganizationImportRow[] = [];
+
+  for (const [index, source] of rows.entries()) {
+    const row = { ...source, errors: [...source.errors] };
+
+    if (!row.villageId && row.village) {
+      const key = row.village.toLowerCase();
+      let candidates = cache.get(key);
+      if (!candidates) {
+        candidates = await searchVillagesWithContext(row.village, 20);
+        cache.set(key, candidates);
+      }
+
+      const matches = candidates.filter(
+        (v) => nameSimilarity(row.village, v.name) === 1 && matchesContext(row, v)
+      );
+
+      if (matches.length === 1) {
+        row.resolvedVillage = matches[0];
+        row.villageId = matches[0].id;
+      } else if (matches.length > 1) {
+        row.errors.push(
+          `${row.village} matches ${matches.length} villages. Add the mandal or district, or a village ID.`
+        );
+      } else {
+        const hint = rankVillageMatches(row, candidates).find((m) => m.score >= SUGGESTION_MIN_SCORE);
+        row.errors.push(
+          hint
+            ? `Village ${row.village} not found. Did you mean ${describeVillage(hint.village)}?`
+            : `Village ${row.village} not found.`
+        );
+      }
+    }
+
+    if (row.villageId) {
+      const org = CreateOrganizationRequestSchema.safeParse({ name: row.name, villageId: row.villageId });
+      if (!org.success && row.errors.length === 0) {
+        row.errors.push(org.error.issues[0]?.message ?? "Check the organization details.");
+      }
+    }
+
+    resolved.push(row);
+    onProgress?.(index + 1, rows.length);
+  }
+
+  return resolved;
+}
+
+export const ORGANIZATION_IMPORT_TEMPLATE: SpreadsheetValue[][] = [
+  ORGANIZATION_IMPORT_FIELDS.map((f) => f.label),
+  ["Sri Lakshmi Rice Mill", "", "Pithapuram", "Pithapuram", "Kakinada", "Andhra Pradesh", "owner@example.com", "Ravi", "Kumar"],
+];
+
+const RESULT_STATUS_LABELS: Record<OrganizationImportStatus, string> = {
+  created: "Created",
+  partial: "Organization only",
+  failed: "Failed",
+  skipped: "Skipped",
+};
+
+export function buildImportResultsSheet(results: OrganizationImportResult[]): SpreadsheetValue[][] {
+  return [
+    [
+      "Row",
+      "Organization",
+      "Organization ID",
+      "Miller email",
+      "Temporary password",
+      "Password expires",
+      "Status",
+      "Message",
+    ],
+    ...results.map((r) => [
+      r.line,
+      r.name,
+      r.organizationId,
+      r.millerEmail,
+      r.temporaryPassword,
+      r.passwordExpiresAt,
+      RESULT_STATUS_LABELS[r.status],
+      r.message,
+    ]),
+  ];
+}
@@ -0,0 +1,59 @@
+import type { User } from "../types/auth";
+
+export type Role = User["role"];
+
+export type Permission =
+  | "dashboard:view"
+  | "organizations:view"
+  | "organizations:manage"
+  | "organizations:deletePermanently"
+  | "users:manage"
+  | "users:viewTemporaryPassword"
+  | "users:impersonate"
+  | "masterData:manage"
+  | "bagRates:view"
+  | "bagRates:edit"
+  | "bagRates:reset"
+  | "bagRates:approve";
+
+const ALL_PERMISSIONS: Permission[] = [
+  "dashboard:view",
+  "organizations:view",
+  "organizations:manage",
+  "organizations:deletePermanently",
+  "users:manage",
+  "users:viewTemporaryPassword",
+  "users:impersonate",
+  "masterData:manage",
+  "bagRates:view",
+  "bagRates:edit",
+  "bagRates:reset",
+  "bagRates:approve",
+];
+
+// Millers and managers can look up the published bag rates; everything else is for admins.
+export const ROLE_PERMISSIONS: Record<Role, ReadonlySet<Permission>> = {
+  ADMIN: new Set(ALL_PERMISSIONS),
+  MILLER: new Set(["dashboard:view", "bagRates:view"]),
+  MANAGER: new Set(["dashboard:view", "bagRates:view"]),
+  DRIVER: new Set(["dashboard:view"]),
+};
+
+export function hasPermission(role: Role | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.has(permission) ?? false;
+}
+
+// Impersonation is for looking around; anything that deletes, approves or hands out credentials stays off.
+const BLOCKED_WHILE_IMPERSONATING: ReadonlySet<Permission> = new Set([
+  "organizations:deletePermanently",
+  "users:manage",
+  "users:viewTemporaryPassword",
+  "users:impersonate",
+  "bagRates:reset",
+  "bagRates:approve",
+]);
+
+export function isBlockedWhileImpersonating(permission: Permission): boolean {
+  return BLOCKED_WHILE_IMPERSONATING.has(permission);
+}
@@ -0,0 +1,137 @@
+import {
+  LOGIN_REMEMBER_EMAIL_KEY,
+  LOGIN_REMEMBER_KEY,
+  MFA_TRUST_DEVICE_DAYS,
+  MFA_TRUSTED_DEVICE_KEY,
+} from "../config";
+
+// Chromium-only parts of the Credential Management API that lib.dom does not declare.
+interface PasswordCredentialData {
+  id: string;
+  password: string;
+  name?: string;
+}
+
+interface PasswordCredentialLike extends Credential {
+  password?: string;
+}
+
+type PasswordCredentialConstructor = new (data: PasswordCredentialData) => Credential;
+
+function getPasswordCredentialConstructor(): PasswordCredentialConstructor | null {
+  if (typeof window === "undefined" || !navigator.credentials) return null;
+  const ctor = (window as unknown as { PasswordCredential?: PasswordCredentialConstructor }).PasswordCredential;
+  return ctor ?? null;
+}
+
+/**
+ * Moves the email out of the legacy "remember me" entry and deletes the entry, which also held the password.
+ * Safe to call on every load.
+ */
+export function migrateRememberedLogin() {
+  if (typeof window === "undefined") return;
+  const raw = localStorage.getItem(LOGIN_REMEMBER_KEY);
+  if (raw === null) return;
+
+  try {
+    const stored: unknown = JSON.parse(raw);
+    const obj = stored && typeof stored === "object" ? (stored as Record<string, unknown>) : {};
+    if (obj.remember !== false && typeof obj.email === "string" && obj.email.trim() !== "") {
+      localStorage.setItem(LOGIN_REMEMBER_EMAIL_KEY, obj.email.trim());
+    }
+  } catch {
+    // ignore malformed values
+  }
+
+  localStorage.removeItem(LOGIN_REMEMBER_KEY);
+}
+
+export function readRememberedEmail(): string | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(LOGIN_REMEMBER_EMAIL_KEY);
+}
+
+export function rememberEmail(email: string | null) {
+  if (typeof window === "undefined") return;
+  if (email) {
+    localStorage.setItem(LOGIN_REMEMBER_EMAIL_KEY, email);
+  } else {
+    localStorage.removeItem(LOGIN_REMEMBER_EMAIL_KEY);
+  }
+}
+
+/** Asks the browser's password manager for a saved credential. The browser may show its account chooser. */
+export async function getStoredCredential(): Promise<{ email: string; password: string } | null> {
+  if (!getPasswordCredentialConstructor()) return null;
+  try {
+    const credential = (await navigator.credentials.get({
+      password: true,
+      mediation: "optional",
+    } as CredentialRequestOptions)) as PasswordCredentialLike | null;
+    if (!credential || credential.type !== "password" || !credential.password) return null;
+    return { email: credential.id, password: credential.password };
+  } catch {
+    return null;
+  }
+}
+
+/** Offers the credential to the browser's password manager, which asks the user before saving it. */
+export async function storeCredential(email: string, password: string) {
+  const PasswordCredential = getPasswordCredentialConstructor();
+  if (!PasswordCredential) return;
+  try {
+    await navigator.credentials.store(new PasswordCredential({ id: email, password }));
+  } catch {
+    // the user declined or the browser does not allow it here
+  }
+}
+
+export async function preventSilentSignIn() {
+  if (typeof window === "undefined" || !navigator.credentials?.preventSilentAccess) return;
+  try {
+    await navigator.credentials.preventSilentAccess();
+  } catch {
+    // not supported
+  }
+}
+
+type TrustedDevices = Record<string, { token: string; expiresAt: number }>;
+
+function readTrustedDevices(): TrustedDevices {
+  try {
+    const raw = localStorage.getItem(MFA_TRUSTED_DEVICE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed === "object" ? (parsed as TrustedDevices) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeTrustedDevices(devices: TrustedDevices) {
+  const now = Date.now();
+  const live = Object.fromEntries(Object.entries(devices).filter(([, d]) => d.expiresAt > now));
+  if (Object.keys(live).length === 0) {
+    localStorage.removeItem(MFA_TRUSTED_DEVICE_KEY);
+  } else {
+    localStorage.setItem(MFA_TRUSTED_DEVICE_KEY, JSON.stringify(live));
+  }
+}
+
+/** Token the server issued when the user chose to trust this device, if it has not expired. */
+export function readTrustedDeviceToken(email: string): string | null {
+  if (typeof window === "undefined") return null;
+  const device = readTrustedDevices()[email.trim().toLowerCase()];
+  return device && device.expiresAt > Date.now() ? device.token : null;
+}
+
+export function saveTrustedDeviceToken(email: string, token: string | null) {
+  if (typeof window === "undefined") return;
+  const devices = readTrustedDevices();
+  const key = email.trim().toLowerCase();
+  if (token) {
+    devices[key] = { token, expiresAt: Date.now() + MFA_TRUST_DEVICE_DAYS * 24 * 60 * 60 * 1000 };
+  } else {
+    delete devices[key];
+  }
+  writeTrustedDevices(devices);
+}
@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { apiFetch } from "./api";
+import { approveSeasonBagRateDraft, findPerKgInconsistencies } from "./seasonBagRates";
+import type { SeasonBagRateDraft } from "../types/seasonBagRates";
+
+vi.mock("./api", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./api")>()),
+  apiFetch: vi.fn(),
+}));
+
+const mockedApiFetch = vi.mocked(apiFetch);
+
+const draft: SeasonBagRateDraft = {
+  id: "draft-1",
+  cropYearStartYear: 2025,
+  seasonCode: "KHARIF",
+  status: "PENDING_APPROVAL",
+  effectiveFrom: "2025-11-01",
+  note: "Kharif revision",
+  items: [
+    {
+      cropYearStartYear: 2025,
+      seasonCode: "KHARIF",
+      riceType: { code: "BPT", name: "BPT 5204" },
+      rates: { B75: 1800, B50: null },
+    },
+  ],
+  updatedAt: "2025-10-20T10:00:00Z",
+  updatedBy: null,
+  submittedAt: "2025-10-20T10:00:00Z",
+  submittedBy: null,
+  reviewedAt: null,
+  reviewedBy: null,
+  reviewComment: null,
+};
+
+const publishedResponse = {
+  success: true,
+  data: { items: draft.items },
+};
+
+describe("approveSeasonBagRateDraft", () => {
+  beforeEach(() => {
+    mockedApiFetch.mockReset();
+  });
+
+  it("publishes the draft rates before closing the draft", async () => {
+    mockedApiFetch
+      .mockResolvedValueOnce(publishedResponse)
+      .mockResolvedValueOnce({ success: true, data: null, message: "Bag rates approved." });
+
+    const res = await approveSeasonBagRateDraft(draft, { comment: "Looks right" });
+
+    expect(mockedApiFetch.mock.calls.map(([path]) => path)).toEqual([
+      "/admin/season-bag-rates",
+      "/admin/season-bag-rates/drafts/draft-1/approve",
+    ]);
+    expect(JSON.parse(String(mockedApiFetch.mock.calls[0][1]?.body))).toEqual({
+      cropYearStartYear: 2025,
+      seasonCode: "KHARIF",
+      rates: [{ riceTypeCode: "BPT", rates: { B75: 1800 } }],
+      effectiveFrom: "2025-11-01",
+      note: "Kharif revision",
+    });
+    expect(res.message).toBe("Bag rates approved.");
+  });
+
+  it("leaves the draft open when publishing fails", async () => {
+    mockedApiFetch.mockRejectedValueOnce(new Error("Network error"));
+
+    await expect(approveSeasonBagRateDraft(draft, {})).rejects.toThrow("Network error");
+    expect(mockedApiFetch).toHaveBeenCalledTimes(1);
+    expect(mockedApiFetch.mock.calls[0][0]).toBe("/admin/season-bag-rates");
+  });
+
+  it("reports a published set whose draft could not be closed", async () => {
+    mockedApiFetch
+      .mockResolvedValueOnce(publishedResponse)
+      .mockRejectedValueOnce(new Error("Draft is no longer pending."));
+
+    await expect(approveSeasonBagRateDraft(draft, {})).rejects.toThrow(
+      "The rates were published, but the draft could not be closed: Draft is no longer pending."
+    );
+  });
+});
+
+describe("findPerKgInconsistencies", () => {
+  const bagSizes = [
+    { code: "B25", weightKg: 25 },
+    { code: "B50", weightKg: 50 },
+    { code: "B75", weightKg: 75 },
+  ];
+
+  it("flags a bigger bag that is cheaper per kg than a smaller one", () => {
+    expect(findPerKgInconsistencies({ B25: 650, B50: 1300, B75: 1800 }, bagSizes)).toEqual([
+      { bagSize: "B75", perKg: 24, referenceBagSize: "B25", referencePerKg: 26 },
+    ]);
+  });
+
+  it("uses the smaller bag it undercuts the most as the reference", () => {
+    const issues = findPerKgInconsistencies({ B25: 650, B50: 1250, B75: 1800 }, bagSizes);
+    expect(issues.map((i) => [i.bagSize, i.referenceBagSize])).toEqual([
+      ["B50", "B25"],
+      ["B75", "B25"],
+    ]);
+  });
+
+  it("does not flag a bigger bag that costs more per kg", () => {
+    expect(findPerKgInconsistencies({ B25: 600, B50: 1250, B75: 1950 }, bagSizes)).toEqual([]);
+  });
+
+  it("ignores differences within a paise per kg", () => {
+    const sizes = [
+      { code: "B50", weightKg: 50 },
+      { code: "B100", weightKg: 100 },
+    ];
+    expect(findPerKgInconsistencies({ B50: 1000, B100: 1999.01 }, sizes)).toEqual([]);
+    expect(findPerKgInconsistencies({ B50: 1000, B100: 1998 }, sizes).map((i) => i.bagSize)).toEqual(["B100"]);
+  });
+
+  it("does not flag rates derived from one per-quintal price", () => {
+    // ₹3,333.33 per quintal spread over each bag, rounded to whole paise
+    expect(findPerKgInconsistencies({ B25: 833.33, B50: 1666.67, B75: 2500 }, bagSizes)).toEqual([]);
+  });
+
+  it("skips bag sizes without a rate", () => {
+    expect(findPerKgInconsistencies({ B25: 650, B50: null, B75: 1800 }, bagSizes).map((i) => i.bagSize)).toEqual([
+      "B75",
+    ]);
+  });
+});
@@ -1,25 +1,40 @@
 import { apiFetch } from "./api";
 import { ApiError } from "./api";
+import { paiseToRupees, rupeesToPaise } from "./money";
 import { z } from "zod";
 import {
+  ApproveSeasonBagRateDraftRequestSchema,
+  BagSizeCodeSchema,
+  GetSeasonBagRateDraftResponseSchema,
+  ListSeasonBagRateRevisionsResponseSchema,
   ListSeasonBagRatesResponseSchema,
+  RejectSeasonBagRateDraftRequestSchema,
+  RestoreSeasonBagRateRevisionRequestSchema,
+  SeasonBagRateDraftClosedResponseSchema,
+  SeasonBagRateDraftResponseSchema,
+  SeasonCodeSchema,
+  UpsertSeasonBagRatesRequestSchema,
 } from "../types/seasonBagRates";
 import type {
+  ApproveSeasonBagRateDraftRequest,
+  RejectSeasonBagRateDraftRequest,
+  RestoreSeasonBagRateRevisionRequest,
+  SeasonBagRate,
+  SeasonBagRateDraft,
+  SeasonBagRateRatesBySize,
   SeasonCode,
   UpsertSeasonBagRatesRequest,
 } from "../types/seasonBagRates";
 
-const LegacyBagSizeSchema = z.enum(["KG_40", "KG_75", "KG_100"]);
-
 const LegacySeasonBagRateSchema = z.object({
   id: z.string(),
   cropYearStartYear: z.number().int(),
-  seasonCode: z.enum(["KHARIF", "RABI"]),
+  seasonCode: SeasonCodeSchema,
   riceType: z.object({
     code: z.string(),
     name: z.string(),
   }),
-  bagSize: LegacyBagSizeSchema,
+  bagSize: BagSizeCodeSchema,
   rateRupees: z.number(),
 });
 
@@ -46,16 +61,16 @@ function normalizeSeasonBagRatesResponse(res: unknown) {
       cropYearStartYear: number;
       seasonCode: SeasonCode;
       riceType: { code: string; name: string };
-      rates: { KG_40: number | null; KG_75: number | null; KG_100: number | null };
+      rates: SeasonBagRateRatesBySize;
     }
   >();
 
   for (const item of legacy.data.data.items) {
     const existing = byRiceTypeCode.get(item.riceType.code) ?? {
       cropYearStartYear: item.cropYearStartYear,
-      seasonCode: item.seasonCode as SeasonCode,
+      seasonCode: item.seasonCode,
       riceType: item.riceType,
-      rates: { KG_40: null, KG_75: null, KG_100: null },
+      rates: {},
     };
 
     existing.rates[item.bagSize] = item.rateRupees;
@@ -74,15 +89,17 @@ function normalizeSeasonBagRatesResponse(res: unknown) {
 function toLegacyUpsertPayload(payload: UpsertSeasonBagRatesRequest) {
   const items: Array<{ riceTypeCode: string; bagSize: string; rateRupees: number }> = [];
   for (const row of payload.rates) {
-    items.push({ riceTypeCode: row.riceTypeCode, bagSize: "KG_40", rateRupees: row.rates.KG_40 });
-    items.push({ riceTypeCode: row.riceTypeCode, bagSize: "KG_75", rateRupees: row.rates.KG_75 });
-    items.push({ riceTypeCode: row.riceTypeCode, bagSize: "KG_100", rateRupees: row.rates.KG_100 });
+    for (const [bagSize, rateRupees] of Object.entries(row.rates)) {
+      items.push({ riceTypeCode: row.riceTypeCode, bagSize, rateRupees });
+    }
   }
 
   return {
     cropYearStartYear: payload.cropYearStartYear,
     seasonCode: payload.seasonCode,
     rates: items,
+    effectiveFrom: payload.effectiveFrom,
+    note: payload.note,
   };
 }
 
@@ -121,19 +138,251 @@ export async function upsertSeasonBagRates(payload: UpsertSeasonBagRatesRequest)
   }
 }
 
-export async function resetSeasonBagRates(params: {
+export async function listSeasonBagRateRevisions(params: {
   cropYearStartYear: number;
   seasonCode: SeasonCode;
-  confirm: string;
 }) {
-  const res = await apiFetch("/admin/season-bag-rates/reset", {
-    method: "POST",
-    body: JSON.stringify({
-      cropYearStartYear: params.cropYearStartYear,
-      seasonCode: params.seasonCode,
-      confirm: params.confirm,
-    }),
-  });
+  const searchParams = new URLSearchParams();
+  searchParams.set("cropYearStartYear", String(params.cropYearStartYear));
+  searchParams.set("seasonCode", params.seasonCode);
+
+  const qs = searchParams.toString();
+  const res = await apiFetch(`/admin/season-bag-rates/revisions?${qs}`);
+
+  const parsed = ListSeasonBagRateRevisionsResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+  return parsed.data;
+}
+
+export async function restoreSeasonBagRateRevision(
+  revisionId: string,
+  payload: RestoreSeasonBagRateRevisionRequest
+) {
+  const validated = RestoreSeasonBagRateRevisionRequestSchema.safeParse(payload);
+  if (!validated.success) {
+    throw new Error("Enter an effective date.");
+  }
+
+  const res = await apiFetch(
+    `/admin/season-bag-rates/revisions/${encodeURIComponent(revisionId)}/restore`,
+    {
+      method: "POST",
+      body: JSON.stringify(validated.data),
+    }
+  );
 
   return normalizeSeasonBagRatesResponse(res);
 }
+
+export type SeasonBagRateDiffRow = {
+  riceTypeCode: string;
+  riceTypeName: string;
+  cells: Array<{
+    bagSize: string;
+    from: number | null;
+    to: number | null;
+    changed: boolean;
+  }>;
+};
+
+export function diffSeasonBagRates(
+  fromItems: SeasonBagRate[],
+  toItems: SeasonBagRate[],
+  bagSizeCodes: string[]
+): SeasonBagRateDiffRow[] {
+  const names = new Map<string, string>();
+  const fromByCode = new Map(fromItems.map((i) => [i.riceType.code, i]));
+  const toByCode = new Map(toItems.map((i) => [i.riceType.code, i]));
+  for (const i of [...fromItems, ...toItems]) names.set(i.riceType.code, i.riceType.name);
+
+  return Array.from(names.entries())
+    .sort((a, b) => a[1].localeCompare(b[1]))
+    .map(([code, name]) => ({
+      riceTypeCode: code,
+      riceTypeName: name,
+      cells: bagSizeCodes.map((bagSize) => {
+        const a = fromByCode.get(code)?.rates[bagSize] ?? null;
+        const b = toByCode.get(code)?.rates[bagSize] ?? null;
+        return { bagSize, from: a, to: b, changed: a !== b };
+      }),
+    }));
+}
+
+function parseDraftResponse(res: unknown) {
+  const parsed = SeasonBagRateDraftResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+  return parsed.data;
+}
+
+export async function getSeasonBagRateDraft(params: {
+  cropYearStartYear: number;
+  seasonCode: SeasonCode;
+}) {
+  const searchParams = new URLSearchParams();
+  searchParams.set("cropYearStartYear", String(params.cropYearStartYear));
+  searchParams.set("seasonCode", params.seasonCode);
+
+  const qs = searchParams.toString();
+  const res = await apiFetch(`/admin/season-bag-rates/draft?${qs}`);
+
+  const parsed = GetSeasonBagRateDraftResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+  return parsed.data;
+}
+
+export async function saveSeasonBagRateDraft(payload: UpsertSeasonBagRatesRequest) {
+  const validated = UpsertSeasonBagRatesRequestSchema.safeParse(payload);
+  if (!validated.success) {
+    throw new Error("Check the bag rate details and try again.");
+  }
+
+  const res = await apiFetch("/admin/season-bag-rates/draft", {
+    method: "PUT",
+    body: JSON.stringify(validated.data),
+  });
+
+  return parseDraftResponse(res);
+}
+
+export async function submitSeasonBagRateDraft(draftId: string) {
+  const res = await apiFetch(
+    `/admin/season-bag-rates/drafts/${encodeURIComponent(draftId)}/submit`,
+    { method: "POST" }
+  );
+
+  return parseDraftResponse(res);
+}
+
+/**
+ * Publishes the draft's rates through the regular upsert, so the published set
+ * gets a revision like any other save, and only then records the review. The
+ * approve endpoint closes the draft and returns `{ success, data: null, message? }`.
+ * If publishing fails the draft stays pending and the review can be retried.
+ */
+export async function approveSeasonBagRateDraft(
+  draft: SeasonBagRateDraft,
+  payload: ApproveSeasonBagRateDraftRequest
+) {
+  const validated = ApproveSeasonBagRateDraftRequestSchema.safeParse(payload);
+  if (!validated.success) {
+    throw new Error("Check the review details and try again.");
+  }
+
+  const published = await upsertSeasonBagRates({
+    cropYearStartYear: draft.cropYearStartYear,
+    seasonCode: draft.seasonCode,
+    rates: draft.items.map((item) => ({
+      riceTypeCode: item.riceType.code,
+      rates: Object.fromEntries(
+        Object.entries(item.rates).filter((entry): entry is [string, number] => typeof entry[1] === "number")
+      ),
+    })),
+    effectiveFrom: draft.effectiveFrom,
+    note: draft.note ?? undefined,
+  });
+
+  let closed: unknown;
+  try {
+    closed = await apiFetch(
+      `/admin/season-bag-rates/drafts/${encodeURIComponent(draft.id)}/approve`,
+      {
+        method: "POST",
+        body: JSON.stringify(validated.data),
+      }
+    );
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : "Unknown error.";
+    throw new Error(`The rates were published, but the draft could not be closed: ${reason}`);
+  }
+
+  const parsed = SeasonBagRateDraftClosedResponseSchema.safeParse(closed);
+  return { ...published, message: (parsed.success ? parsed.data.message : undefined) ?? published.message };
+}
+
+export async function rejectSeasonBagRateDraft(
+  draftId: string,
+  payload: RejectSeasonBagRateDraftRequest
+) {
+  const validated = RejectSeasonBagRateDraftRequestSchema.safeParse(payload);
+  if (!validated.success) {
+    throw new Error("Enter a reason for rejecting.");
+  }
+
+  const res = await apiFetch(
+    `/admin/season-bag-rates/drafts/${encodeURIComponent(draftId)}/reject`,
+    {
+      method: "POST",
+      body: JSON.stringify(validated.data),
+    }
+  );
+
+  return parseDraftResponse(res);
+}
+
+export async function discardSeasonBagRateDraft(draftId: string) {
+  const res = await apiFetch(`/admin/season-bag-rates/drafts/${encodeURIComponent(draftId)}`, {
+    method: "DELETE",
+  });
+
+  const parsed = SeasonBagRateDraftClosedResponseSchema.safeParse(res);
+  if (!parsed.success) {
+    throw new Error("Unexpected response from server.");
+  }
+  return parsed.data;
+}
+
+// Rates derived from a per-quintal price are rounded to whole paise per bag,
+// which can move the per-kg price by up to half a paise. A bigger bag is only
+// flagged when it is cheaper per kg by more than this.
+export const PER_KG_TOLERANCE_PAISE = 1;
+
+export type PerKgInconsistency = {
+  bagSize: string;
+  perKg: number;
+  referenceBagSize: string;
+  referencePerKg: number;
+};
+
+/**
+ * Flags each bag size that is cheaper per kg than a smaller bag of the same
+ * rice type. The reference is the smaller bag it undercuts by the most.
+ */
+export function findPerKgInconsistencies(
+  rates: SeasonBagRateRatesBySize,
+  bagSizes: Array<{ code: string; weightKg: number }>
+): PerKgInconsistency[] {
+  const priced = bagSizes
+    .filter((size) => size.weightKg > 0 && typeof rates[size.code] === "number")
+    .map((size) => ({ code: size.code, weightKg: size.weightKg, paise: rupeesToPaise(rates[size.code] as number) }))
+    .sort((a, b) => a.weightKg - b.weightKg);
+
+  const issues: PerKgInconsistency[] = [];
+  for (const [index, larger] of priced.entries()) {
+    // larger.paise / larger.kg < smaller.paise / smaller.kg - tolerance, cross-multiplied
+    const undercut = priced
+      .slice(0, index)
+      .filter(
+        (smaller) =>
+          smaller.weightKg < larger.weightKg &&
+          larger.paise * smaller.weightKg <
+            smaller.paise * larger.weightKg - PER_KG_TOLERANCE_PAISE * larger.weightKg * smaller.weightKg
+      )
+      .sort((a, b) => b.paise * a.weightKg - a.paise * b.weightKg);
+
+    const reference = undercut[0];
+    if (!reference) continue;
+    issues.push({
+      bagSize: larger.code,
+      perKg: paiseToRupees(larger.paise) / larger.weightKg,
+      referenceBagSize: reference.code,
+      referencePerKg: paiseToRupees(reference.paise) / reference.weightKg,
+    });
+  }
+  return issues;
+}
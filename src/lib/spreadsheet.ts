@@ -0,0 +1,143 @@
+export type SpreadsheetRow = string[];
+
+export type SpreadsheetValue = string | number | null;
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export function parseCsv(text: string): SpreadsheetRow[] {
+  const rows: SpreadsheetRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+function escapeCsvCell(value: SpreadsheetValue): string {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: SpreadsheetValue[][]): string {
+  return rows.map((r) => r.map(escapeCsvCell).join(",")).join("\r\n");
+}
+
+function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === "object") {
+    const v = value as { text?: unknown; result?: unknown; richText?: Array<{ text: string }> };
+    if (Array.isArray(v.richText)) return v.richText.map((t) => t.text).join("");
+    if (v.result !== undefined) return cellToString(v.result);
+    if (typeof v.text === "string") return v.text;
+  }
+  return String(value);
+}
+
+export async function readSpreadsheetFile(file: File): Promise<SpreadsheetRow[]> {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith(".csv") || file.type === "text/csv") {
+    return parseCsv(await file.text());
+  }
+
+  if (!name.endsWith(".xlsx")) {
+    throw new Error("Upload a .csv or .xlsx file.");
+  }
+
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(await file.arrayBuffer());
+  } catch {
+    throw new Error("The file could not be read as an Excel workbook.");
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: SpreadsheetRow[] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = [];
+    for (let c = 1; c <= sheet.columnCount; c++) {
+      cells.push(cellToString(row.getCell(c).value).trim());
+    }
+    rows.push(cells);
+  });
+
+  return rows.filter((r) => r.some((cell) => cell !== ""));
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export async function downloadSpreadsheet(
+  rows: SpreadsheetValue[][],
+  filename: string,
+  format: SpreadsheetFormat,
+  sheetName = "Sheet1"
+) {
+  if (format === "csv") {
+    downloadBlob(new Blob(["\uFEFF", toCsv(rows)], { type: "text/csv;charset=utf-8" }), `${filename}.csv`);
+    return;
+  }
+
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+  for (const row of rows) sheet.addRow(row);
+  if (rows.length > 0) sheet.getRow(1).font = { bold: true };
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(new Blob([buffer], { type: XLSX_MIME }), `${filename}.xlsx`);
+}
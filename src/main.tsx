@@ -4,6 +4,9 @@ import { createRoot } from "react-dom/client"
 import "./index.css"
 import App from "./App.tsx"
 import { AppProviders } from "./providers/AppProviders"
+import { migrateRememberedLogin } from "./lib/rememberedLogin"
+
+migrateRememberedLogin()
 
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
@@ -0,0 +1,34 @@
+import { AuthCardLayout } from "@/components/layout/AuthCardLayout";
+import { ChangePasswordForm } from "@/components/ChangePasswordForm";
+import { Button } from "@/components/ui/button";
+import { FieldDescription } from "@/components/ui/field";
+import { useAuth } from "@/context/AuthContext";
+import { useUiStore } from "@/store";
+
+export default function ChangePasswordRequired() {
+  const { user, changePassword, logout } = useAuth();
+  const { showToast } = useUiStore();
+
+  return (
+    <AuthCardLayout
+      title="Choose a new password"
+      subtitle="Your password was set by an admin or has expired. Change it to continue."
+      belowCard={
+        <FieldDescription>
+          Signed in as <span className="font-medium">{user?.email}</span>.{" "}
+          <Button type="button" variant="link" className="px-0" onClick={logout}>
+            Sign out
+          </Button>
+        </FieldDescription>
+      }
+    >
+      <ChangePasswordForm
+        submitLabel="Change password and continue"
+        onSubmit={async (data) => {
+          const message = await changePassword(data);
+          showToast(message ?? "Password changed.", "success");
+        }}
+      />
+    </AuthCardLayout>
+  );
+}
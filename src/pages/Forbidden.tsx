@@ -0,0 +1,23 @@
+import { Link } from "react-router-dom";
+
+import { buttonVariants } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+export default function Forbidden() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Access denied</CardTitle>
+        <div className="text-sm text-muted-foreground">Error 403</div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="text-sm text-muted-foreground">
+          Your role does not have permission to open this page. Ask an admin if you need access.
+        </div>
+        <Link to="/dashboard" className={buttonVariants({ variant: "outline" })}>
+          Back to dashboard
+        </Link>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Mail } from "lucide-react";
+
+import { AuthCardLayout } from "@/components/layout/AuthCardLayout";
+import { Button } from "@/components/ui/button";
+import {
+  Field,
+  FieldDescription,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { InputGroup, InputGroupAddon, InputGroupInput } from "@/components/ui/input-group";
+import { requestPasswordReset } from "@/lib/auth";
+import { readRememberedEmail } from "@/lib/rememberedLogin";
+import { useUiStore } from "@/store";
+import { ForgotPasswordRequestSchema, type ForgotPasswordRequest } from "@/types/auth";
+
+export default function ForgotPassword() {
+  const { showToast } = useUiStore();
+
+  const {
+    register,
+    handleSubmit,
+    getValues,
+    formState: { errors },
+  } = useForm<ForgotPasswordRequest>({
+    resolver: zodResolver(ForgotPasswordRequestSchema),
+    defaultValues: { email: readRememberedEmail() ?? "" },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: requestPasswordReset,
+    onError: (err) => {
+      showToast(err instanceof Error ? err.message : "Request failed.", "error");
+    },
+  });
+
+  const backToSignIn = (
+    <FieldDescription>
+      <Link to="/login">Back to sign in</Link>
+    </FieldDescription>
+  );
+
+  if (requestMutation.isSuccess) {
+    return (
+      <AuthCardLayout title="Check your email" belowCard={backToSignIn}>
+        <FieldDescription className="text-center">
+          If an account exists for <span className="font-medium">{getValues("email")}</span>, we sent a link to
+          reset the password. The link expires soon, so use it within the hour.
+        </FieldDescription>
+      </AuthCardLayout>
+    );
+  }
+
+  return (
+    <AuthCardLayout
+      title="Forgot password"
+      subtitle="Enter your email and we will send you a reset link."
+      belowCard={backToSignIn}
+    >
+      <form className="flex flex-col gap-6" onSubmit={handleSubmit((data) => requestMutation.mutate(data))}>
+        <FieldGroup>
+          <Field>
+            <FieldLabel htmlFor="forgotEmail">Email</FieldLabel>
+            <InputGroup>
+              <InputGroupAddon>
+                <Mail className="h-4 w-4" />
+              </InputGroupAddon>
+              <InputGroupInput id="forgotEmail" type="email" autoComplete="email" {...register("email")} />
+            </InputGroup>
+            <FieldError errors={errors.email ? [errors.email] : []} />
+          </Field>
+          <Field>
+            <Button type="submit" disabled={requestMutation.isPending} className="w-full">
+              {requestMutation.isPending ? "Sending…" : "Send reset link"}
+            </Button>
+          </Field>
+        </FieldGroup>
+      </form>
+    </AuthCardLayout>
+  );
+}
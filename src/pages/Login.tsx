@@ -1,11 +1,12 @@
 import * as React from "react";
-import { Navigate, useNavigate } from "react-router-dom";
+import { Link, Navigate, useNavigate } from "react-router-dom";
 import { Controller, useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Eye, EyeOff, Lock, Mail } from "lucide-react";
 
 import { AuthCardLayout } from "@/components/layout/AuthCardLayout";
+import { MfaChallengeForm } from "@/components/MfaChallengeForm";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
 import {
@@ -23,7 +24,12 @@ import {
 } from "@/components/ui/input-group";
 import { useAuth } from "@/context/AuthContext";
 import { useUiStore } from "@/store";
-import { LOGIN_REMEMBER_KEY } from "@/config";
+import {
+  getStoredCredential,
+  readRememberedEmail,
+  rememberEmail,
+  storeCredential,
+} from "@/lib/rememberedLogin";
 
 const schema = z.object({
   email: z.string().min(1, "Enter your email.").email("Enter a valid email."),
@@ -35,7 +41,12 @@ type FormData = z.infer<typeof schema>;
 
 export default function Login() {
   const [showPassword, setShowPassword] = React.useState(false);
-  const { isAuthenticated, login } = useAuth();
+  const [challenge, setChallenge] = React.useState<{
+    mfaToken: string;
+    email: string;
+    remember: boolean;
+  } | null>(null);
+  const { isAuthenticated, login, verifyMfa } = useAuth();
   const { showToast } = useUiStore();
   const navigate = useNavigate();
 
@@ -51,44 +62,66 @@ export default function Login() {
   });
 
   React.useEffect(() => {
-    if (typeof window === "undefined") return;
-    try {
-      const raw = localStorage.getItem(LOGIN_REMEMBER_KEY);
-      if (!raw) return;
-      const stored: unknown = JSON.parse(raw);
-      if (!stored || typeof stored !== "object") return;
-      const obj = stored as Record<string, unknown>;
-      if (typeof obj.email === "string") setValue("email", obj.email);
-      if (typeof obj.password === "string") setValue("password", obj.password);
-      if (typeof obj.remember === "boolean") setValue("remember", obj.remember);
-    } catch {
-      // ignore malformed values
-    }
+    const email = readRememberedEmail();
+    if (email) setValue("email", email);
+
+    let cancelled = false;
+    void getStoredCredential().then((credential) => {
+      if (cancelled || !credential) return;
+      setValue("email", credential.email);
+      setValue("password", credential.password);
+    });
+    return () => {
+      cancelled = true;
+    };
   }, [setValue]);
 
   if (isAuthenticated) return <Navigate to="/dashboard" replace />;
 
+  function finishSignIn(email: string, remember: boolean) {
+    rememberEmail(remember ? email : null);
+    navigate("/dashboard", { replace: true });
+  }
+
   async function onSubmit(data: FormData) {
+    const remember = Boolean(data.remember);
     try {
-      await login(data.email, data.password, Boolean(data.remember));
+      const result = await login(data.email, data.password, remember);
+      // The password is correct at this point, so offer it to the browser now
+      // rather than holding it in state through the MFA step.
+      if (remember) void storeCredential(data.email, data.password);
+      if (result.status === "mfa_required") {
+        setChallenge({ mfaToken: result.mfaToken, email: data.email, remember });
+        return;
+      }
     } catch (e: unknown) {
       const message = e instanceof Error ? e.message : "Sign-in failed.";
       showToast(message || "Sign-in failed.", "error");
       return;
     }
 
-    if (typeof window === "undefined") return;
-
-    if (data.remember) {
-      localStorage.setItem(
-        LOGIN_REMEMBER_KEY,
-        JSON.stringify({ email: data.email, password: data.password, remember: true })
-      );
-    } else {
-      localStorage.removeItem(LOGIN_REMEMBER_KEY);
-    }
+    finishSignIn(data.email, remember);
+  }
 
-    navigate("/dashboard", { replace: true });
+  if (challenge) {
+    return (
+      <AuthCardLayout title="PaddyPress Admin" subtitle="Verify it's you.">
+        <MfaChallengeForm
+          email={challenge.email}
+          onCancel={() => setChallenge(null)}
+          onVerify={async (code, trustDevice) => {
+            await verifyMfa({
+              email: challenge.email,
+              mfaToken: challenge.mfaToken,
+              code,
+              trustDevice,
+              remember: challenge.remember,
+            });
+            finishSignIn(challenge.email, challenge.remember);
+          }}
+        />
+      </AuthCardLayout>
+    );
   }
 
   return (
@@ -170,7 +203,14 @@ export default function Login() {
                 />
                 <span>Remember this device</span>
               </label>
+              <Link to="/forgot-password" className="text-muted-foreground hover:text-foreground">
+                Forgot password?
+              </Link>
             </div>
+            <FieldDescription>
+              Keeps you signed in and remembers your email. Your password is only saved if your browser's
+              password manager offers to.
+            </FieldDescription>
           </Field>
 
           <Field>
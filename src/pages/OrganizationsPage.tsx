@@ -3,6 +3,7 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Controller, useForm } from "react-hook-form";
 import { z } from "zod";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 
 import { Button, buttonVariants } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -14,7 +15,6 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Badge } from "@/components/ui/badge";
 import {
   Field,
   FieldError,
@@ -34,17 +34,6 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog";
-import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -60,260 +49,227 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { CheckIcon, CopyIcon, MoreHorizontalIcon } from "lucide-react";
+import { LocationSearchCombobox } from "@/components/ui/location-search-combobox";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ArrowDownIcon, ArrowUpDownIcon, ArrowUpIcon, MoreHorizontalIcon } from "lucide-react";
 
 import { useUiStore } from "@/store";
+import { useAuth } from "@/context/AuthContext";
+import { useDebounce } from "@/lib/useDebounce";
 import {
   createAdminOrganization,
-  deleteAdminOrganization,
+  formatOrganizationLocation,
   listAdminOrganizations,
-  updateAdminOrganization,
 } from "@/lib/adminOrganizations";
-import {
-  createMillerUser,
-  deactivateAdminUser,
-  getAdminUserTemporaryPassword,
-  updateAdminUser,
-} from "@/lib/adminUsers";
 import {
   type AdminOrganization,
-  type AdminOrgUser,
-  type AdminRole,
-  AdminRoleSchema,
+  type OrganizationSortField,
+  OrganizationSortFieldSchema,
+  type OrganizationStatus,
+  OrganizationStatusSchema,
+  type SortOrder,
+  SortOrderSchema,
 } from "@/types/adminOrganizations";
 
-const EDIT_USER_ROLES: Array<{ value: AdminRole; label: string }> = [
-  { value: "MILLER", label: "Miller" },
-  { value: "MANAGER", label: "Manager" },
-  { value: "DRIVER", label: "Driver" },
+import {
+  DeleteOrganizationDialog,
+  OrganizationStatusBadge,
+  OrganizationStatusDialog,
+  type OrganizationStatusAction,
+} from "./organizations/OrganizationStatusDialogs";
+
+// Default filter: everything except archived organizations.
+const CURRENT = "CURRENT";
+
+const STATUS_FILTER_OPTIONS: Array<{ value: OrganizationStatus | typeof CURRENT; label: string }> = [
+  { value: CURRENT, label: "Active and suspended" },
+  { value: "ACTIVE", label: "Active" },
+  { value: "SUSPENDED", label: "Suspended" },
+  { value: "ARCHIVED", label: "Archived" },
 ];
 
-function TempPasswordCopyButton({ userId }: { userId: string }) {
-  const { showToast } = useUiStore();
-  const [copied, setCopied] = React.useState(false);
-
-  const query = useQuery({
-    queryKey: ["adminUserTemporaryPassword", userId],
-    queryFn: () => getAdminUserTemporaryPassword(userId),
-    enabled: false,
-    retry: false,
-  });
-
-  async function onCopy() {
-    try {
-      let pwd = query.data?.data.temporaryPassword;
-      if (!pwd) {
-        const res = await query.refetch();
-        pwd = res.data?.data.temporaryPassword;
-      }
-
-      if (pwd) {
-        await navigator.clipboard.writeText(pwd);
-        showToast("Password copied to clipboard.", "success");
-        setCopied(true);
-        setTimeout(() => setCopied(false), 2000);
-      } else {
-        showToast("Temporary password not available.", "error");
-      }
-    } catch (err) {
-      showToast("Failed to copy password.", "error");
-    }
-  }
-
-  return (
-    <div className="flex items-center gap-2">
-      <span className="font-mono text-xs text-muted-foreground select-none">••••••••</span>
-      <Button variant="ghost" size="icon-xs" onClick={onCopy} title="Copy temporary password">
-        {copied ? <CheckIcon className="size-3 text-green-600" /> : <CopyIcon className="size-3" />}
-      </Button>
-    </div>
-  );
-}
-
-const userSchema = z.object({
-  email: z.string().min(1, "Enter an email address.").email("Enter a valid email."),
-  firstName: z.string().min(1, "Enter a first name."),
-  lastName: z.string().min(1, "Enter a last name."),
-  role: AdminRoleSchema,
-  password: z.string().optional().or(z.literal("")),
-  emailVerified: z.boolean(),
-  isActive: z.boolean(),
-});
-
-type UserFormData = {
-  email: string;
-  firstName: string;
-  lastName: string;
-  role: AdminRole;
-  password?: string;
-  emailVerified: boolean;
-  isActive: boolean;
+const DEFAULT_PAGE_SIZE = 20;
+
+// Everything that shapes the table lives in the URL so a filtered view can be
+// bookmarked and shared. Defaults are left out to keep links short.
+type OrganizationsTableState = {
+  search: string;
+  status: OrganizationStatus | typeof CURRENT;
+  stateId: string;
+  districtId: string;
+  noActiveMiller: boolean;
+  sortBy: OrganizationSortField;
+  sortOrder: SortOrder;
+  page: number;
 };
 
-const millerSchema = z.object({
-  email: z.string().min(1, "Enter an email address.").email("Enter a valid email."),
-  firstName: z.string().min(1, "Enter a first name."),
-  lastName: z.string().min(1, "Enter a last name."),
-});
-
-type MillerFormData = z.infer<typeof millerSchema>;
-
-function CreateMillerDialog(props: {
-  org: AdminOrganization | null;
-  onClose: () => void;
-  isSaving: boolean;
-  onCreate: (payload: {
-    org: AdminOrganization;
-    email: string;
-    firstName: string;
-    lastName: string;
-  }) => void;
-}) {
-  const org = props.org;
-
-  const {
-    register,
-    handleSubmit,
-    reset,
-    formState: { errors },
-  } = useForm<MillerFormData>({
-    resolver: zodResolver(millerSchema),
-  });
+const DEFAULT_TABLE_STATE: OrganizationsTableState = {
+  search: "",
+  status: CURRENT,
+  stateId: "",
+  districtId: "",
+  noActiveMiller: false,
+  sortBy: "name",
+  sortOrder: "asc",
+  page: 1,
+};
 
-  React.useEffect(() => {
-    if (org) {
-      reset({ email: "", firstName: "", lastName: "" });
-    }
-  }, [org, reset]);
+function readTableState(sp: URLSearchParams): OrganizationsTableState {
+  const status = OrganizationStatusSchema.safeParse(sp.get("status"));
+  const sortBy = OrganizationSortFieldSchema.safeParse(sp.get("sort"));
+  const sortOrder = SortOrderSchema.safeParse(sp.get("order"));
+  const page = Number(sp.get("page"));
+  return {
+    search: sp.get("q") ?? "",
+    status: status.success ? status.data : CURRENT,
+    stateId: sp.get("stateId") ?? "",
+    districtId: sp.get("districtId") ?? "",
+    noActiveMiller: sp.get("noActiveMiller") === "true",
+    sortBy: sortBy.success ? sortBy.data : DEFAULT_TABLE_STATE.sortBy,
+    sortOrder: sortOrder.success ? sortOrder.data : DEFAULT_TABLE_STATE.sortOrder,
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  };
+}
 
-  function onSubmit(data: MillerFormData) {
-    if (!org) return;
-    props.onCreate({
-      org,
-      ...data,
-    });
+function toSearchParams(state: OrganizationsTableState) {
+  const sp = new URLSearchParams();
+  if (state.search) sp.set("q", state.search);
+  if (state.status !== CURRENT) sp.set("status", state.status);
+  if (state.stateId) sp.set("stateId", state.stateId);
+  if (state.districtId) sp.set("districtId", state.districtId);
+  if (state.noActiveMiller) sp.set("noActiveMiller", "true");
+  if (state.sortBy !== DEFAULT_TABLE_STATE.sortBy || state.sortOrder !== DEFAULT_TABLE_STATE.sortOrder) {
+    sp.set("sort", state.sortBy);
+    sp.set("order", state.sortOrder);
   }
+  if (state.page > 1) sp.set("page", String(state.page));
+  return sp;
+}
 
-  return (
-    <Dialog open={Boolean(org)} onOpenChange={(open) => (!open ? props.onClose() : null)}>
-      <DialogContent className="max-w-xl">
-        <DialogHeader>
-          <DialogTitle>Create miller</DialogTitle>
-          <DialogDescription>
-            This creates a Miller user with a temporary password.
-          </DialogDescription>
-        </DialogHeader>
-
-        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-          <FieldGroup>
-            <Field>
-              <FieldLabel htmlFor="millerEmail">Email</FieldLabel>
-              <InputGroup>
-                <InputGroupAddon>Email</InputGroupAddon>
-                <InputGroupInput
-                  id="millerEmail"
-                  placeholder="miller@example.com"
-                  {...register("email")}
-                />
-              </InputGroup>
-              <FieldError errors={errors.email ? [errors.email] : []} />
-            </Field>
-
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <Field>
-                <FieldLabel htmlFor="millerFirstName">First name</FieldLabel>
-                <InputGroup>
-                  <InputGroupAddon>First</InputGroupAddon>
-                  <InputGroupInput
-                    id="millerFirstName"
-                    placeholder="First name"
-                    {...register("firstName")}
-                  />
-                </InputGroup>
-                <FieldError errors={errors.firstName ? [errors.firstName] : []} />
-              </Field>
-
-              <Field>
-                <FieldLabel htmlFor="millerLastName">Last name</FieldLabel>
-                <InputGroup>
-                  <InputGroupAddon>Last</InputGroupAddon>
-                  <InputGroupInput
-                    id="millerLastName"
-                    placeholder="Last name"
-                    {...register("lastName")}
-                  />
-                </InputGroup>
-                <FieldError errors={errors.lastName ? [errors.lastName] : []} />
-              </Field>
-            </div>
-          </FieldGroup>
+function hasActiveMiller(org: AdminOrganization) {
+  return org.users.some((u) => u.role === "MILLER" && u.isActive);
+}
 
-          <DialogFooter>
-            <Button type="button" variant="outline" onClick={props.onClose}>
-              Cancel
-            </Button>
-            <Button type="submit" disabled={props.isSaving}>
-              {props.isSaving ? "Creating…" : "Create"}
-            </Button>
-          </DialogFooter>
-        </form>
-      </DialogContent>
-    </Dialog>
-  );
+function formatDate(value: string): string {
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return value;
+  return d.toLocaleDateString(undefined, { day: "2-digit", month: "short", year: "numeric" });
 }
 
-function ActiveBadge({ active }: { active: boolean }) {
+function SortableHead(props: {
+  field: OrganizationSortField;
+  label: string;
+  state: OrganizationsTableState;
+  onSort: (field: OrganizationSortField) => void;
+  className?: string;
+}) {
+  const active = props.state.sortBy === props.field;
+  const Icon = !active ? ArrowUpDownIcon : props.state.sortOrder === "asc" ? ArrowUpIcon : ArrowDownIcon;
   return (
-    <Badge variant={active ? "default" : "outline"}>
-      {active ? "Active" : "Inactive"}
-    </Badge>
+    <TableHead
+      className={props.className}
+      aria-sort={active ? (props.state.sortOrder === "asc" ? "ascending" : "descending") : "none"}
+    >
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 hover:text-foreground"
+        onClick={() => props.onSort(props.field)}
+      >
+        {props.label}
+        <Icon className={active ? "size-3" : "size-3 opacity-50"} />
+      </button>
+    </TableHead>
   );
 }
 
 export default function OrganizationsPage() {
   const { showToast } = useUiStore();
+  const { can } = useAuth();
+  const navigate = useNavigate();
   const queryClient = useQueryClient();
-  const [search, setSearch] = React.useState("");
+  const [searchParams, setSearchParams] = useSearchParams();
+  const table = React.useMemo(() => readTableState(searchParams), [searchParams]);
+
+  const [searchInput, setSearchInput] = React.useState(table.search);
+  const debouncedSearch = useDebounce(searchInput, 300);
 
   const [createOrgOpen, setCreateOrgOpen] = React.useState(false);
-  const [editOrg, setEditOrg] = React.useState<AdminOrganization | null>(null);
   const [deleteOrg, setDeleteOrg] = React.useState<AdminOrganization | null>(null);
-
-  const [createMillerOrg, setCreateMillerOrg] = React.useState<AdminOrganization | null>(null);
-  const [usersOrgId, setUsersOrgId] = React.useState<string | null>(null);
-  const [editUser, setEditUser] = React.useState<{
+  const [statusTarget, setStatusTarget] = React.useState<{
     org: AdminOrganization;
-    user: AdminOrgUser;
+    action: OrganizationStatusAction;
   } | null>(null);
-  const [deactivateUser, setDeactivateUser] = React.useState<{
-    org: AdminOrganization;
-    user: AdminOrgUser;
-  } | null>(null);
-
 
+  // Any change other than paging starts again from the first page.
+  const updateTable = React.useCallback(
+    (patch: Partial<OrganizationsTableState>) => {
+      setSearchParams((prev) => toSearchParams({ ...readTableState(prev), page: 1, ...patch }), { replace: true });
+    },
+    [setSearchParams]
+  );
 
-  const organizationsQuery = useQuery({
-    queryKey: ["adminOrganizations", search],
-    queryFn: () => listAdminOrganizations({ page: 1, limit: 200, search }),
-  });
+  // The last search written to or read from the URL, so a URL change made by
+  // the debounce below is not copied back over what the user is still typing.
+  const syncedSearch = React.useRef(table.search);
 
-  function formatLocation(org: AdminOrganization) {
-    const parts = [org.state, org.district, org.village].filter(
-      (v): v is string => typeof v === "string" && v.trim() !== ""
+  React.useEffect(() => {
+    syncedSearch.current = debouncedSearch;
+    setSearchParams(
+      (prev) => {
+        const current = readTableState(prev);
+        if (current.search === debouncedSearch) return prev;
+        return toSearchParams({ ...current, page: 1, search: debouncedSearch });
+      },
+      { replace: true }
     );
-    return parts.length ? parts.join(", ") : "Location not set.";
+  }, [debouncedSearch, setSearchParams]);
+
+  // Back/forward navigation or a pasted link can change the search in the URL.
+  React.useEffect(() => {
+    if (table.search === syncedSearch.current) return;
+    syncedSearch.current = table.search;
+    setSearchInput(table.search);
+  }, [table.search]);
+
+  function toggleSort(field: OrganizationSortField) {
+    if (table.sortBy === field) {
+      updateTable({ sortOrder: table.sortOrder === "asc" ? "desc" : "asc" });
+    } else {
+      updateTable({ sortBy: field, sortOrder: field === "name" ? "asc" : "desc" });
+    }
   }
 
+  const hasFilters =
+    table.search !== "" ||
+    table.status !== CURRENT ||
+    table.stateId !== "" ||
+    table.districtId !== "" ||
+    table.noActiveMiller;
+
+  const organizationsQuery = useQuery({
+    queryKey: ["adminOrganizations", table],
+    queryFn: () =>
+      listAdminOrganizations({
+        page: table.page,
+        limit: DEFAULT_PAGE_SIZE,
+        search: table.search,
+        status: table.status === CURRENT ? undefined : table.status,
+        stateId: table.stateId || undefined,
+        districtId: table.districtId || undefined,
+        hasActiveMiller: table.noActiveMiller ? false : undefined,
+        sortBy: table.sortBy,
+        sortOrder: table.sortOrder,
+      }),
+  });
+
   const orgs = organizationsQuery.data?.data.items ?? [];
-  const usersOrg = React.useMemo(() => orgs.find((o) => o.id === usersOrgId) || null, [orgs, usersOrgId]);
+  const total = organizationsQuery.data?.data.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / DEFAULT_PAGE_SIZE));
 
   const createOrgMutation = useMutation({
-    mutationFn: async (payload: {
-      name: string;
-      state: string;
-      district: string;
-      village: string;
-    }) => createAdminOrganization(payload),
+    mutationFn: async (payload: { name: string; villageId: string }) =>
+      createAdminOrganization(payload),
     onSuccess: (res) => {
       showToast(res.message ?? "Organization created.", "success");
       void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
@@ -325,126 +281,6 @@ export default function OrganizationsPage() {
     },
   });
 
-  const createMillerMutation = useMutation({
-    mutationFn: async (payload: {
-      org: AdminOrganization;
-      email: string;
-      firstName: string;
-      lastName: string;
-    }) =>
-      createMillerUser({
-        organizationId: payload.org.id,
-        email: payload.email,
-        firstName: payload.firstName,
-        lastName: payload.lastName,
-      }),
-    onSuccess: (res) => {
-      showToast(res.message ?? "Miller user created.", "success");
-      void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
-      setCreateMillerOrg(null);
-    },
-    onError: (err: unknown) => {
-      const message = err instanceof Error ? err.message : "Create failed.";
-      showToast(message, "error");
-    },
-  });
-
-
-
-  const updateOrgMutation = useMutation({
-    mutationFn: async (params: {
-      id: string;
-      name: string;
-      state: string;
-      district: string;
-      village: string;
-    }) =>
-      updateAdminOrganization(params.id, {
-        name: params.name,
-        state: params.state,
-        district: params.district,
-        village: params.village,
-      }),
-    onSuccess: (res) => {
-      showToast(res.message ?? "Organization updated.", "success");
-      void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
-      setEditOrg(null);
-    },
-    onError: (err: unknown) => {
-      const message = err instanceof Error ? err.message : "Update failed.";
-      showToast(message, "error");
-    },
-  });
-
-  const deleteOrgMutation = useMutation({
-    mutationFn: async (id: string) => deleteAdminOrganization(id),
-    onSuccess: (res) => {
-      showToast(res.message ?? "Organization deleted.", "success");
-      void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
-      setDeleteOrg(null);
-    },
-    onError: (err: unknown) => {
-      const message = err instanceof Error ? err.message : "Delete failed.";
-      showToast(message, "error");
-    },
-  });
-
-  const updateUserMutation = useMutation({
-    mutationFn: async (payload: {
-      id: string;
-      email: string;
-      firstName: string;
-      lastName: string;
-      role: AdminRole;
-      password?: string;
-      emailVerified: boolean;
-      isActive: boolean;
-    }) =>
-      updateAdminUser(payload.id, {
-        email: payload.email,
-        firstName: payload.firstName,
-        lastName: payload.lastName,
-        role: payload.role,
-        password: payload.password,
-        emailVerified: payload.emailVerified,
-        isActive: payload.isActive,
-      }),
-    onSuccess: (res) => {
-      showToast(res.message ?? "User updated.", "success");
-      void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
-      setEditUser(null);
-    },
-    onError: (err: unknown) => {
-      const message = err instanceof Error ? err.message : "Update failed.";
-      showToast(message, "error");
-    },
-  });
-
-  const deactivateUserMutation = useMutation({
-    mutationFn: async (id: string) => deactivateAdminUser(id),
-    onSuccess: (res) => {
-      showToast(res.message ?? "User deactivated.", "success");
-      void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
-      setDeactivateUser(null);
-    },
-    onError: (err: unknown) => {
-      const message = err instanceof Error ? err.message : "Deactivate failed.";
-      showToast(message, "error");
-    },
-  });
-
-  const activateUserMutation = useMutation({
-    mutationFn: async (id: string) => updateAdminUser(id, { isActive: true }),
-    onSuccess: (res) => {
-      showToast(res.message ?? "User activated.", "success");
-      void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
-    },
-    onError: (err: unknown) => {
-      const message = err instanceof Error ? err.message : "Activate failed.";
-      showToast(message, "error");
-    },
-  });
-
   return (
     <Card>
       <CardHeader>
@@ -455,13 +291,25 @@ export default function OrganizationsPage() {
               Manage organizations and users.
             </div>
           </div>
-          <Button size="lg" onClick={() => setCreateOrgOpen(true)}>
-            New organization
-          </Button>
+          {can("organizations:manage") ? (
+            <div className="flex items-center gap-2">
+              <Button size="lg" variant="outline" onClick={() => navigate("/organizations/location-migration")}>
+                Link locations
+              </Button>
+              {can("users:manage") ? (
+                <Button size="lg" variant="outline" onClick={() => navigate("/organizations/import")}>
+                  Import
+                </Button>
+              ) : null}
+              <Button size="lg" onClick={() => setCreateOrgOpen(true)}>
+                New organization
+              </Button>
+            </div>
+          ) : null}
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="max-w-sm">
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-2 xl:grid-cols-4">
           <Field>
             <FieldLabel htmlFor="search">Search</FieldLabel>
             <InputGroup>
@@ -469,11 +317,77 @@ export default function OrganizationsPage() {
               <InputGroupInput
                 id="search"
                 placeholder="Type an organization name"
-                value={search}
-                onChange={(e) => setSearch(e.target.value)}
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
               />
             </InputGroup>
           </Field>
+          <Field>
+            <FieldLabel>Status</FieldLabel>
+            <Select
+              value={table.status}
+              onValueChange={(v) => updateTable({ status: (v as OrganizationStatus | typeof CURRENT | null) ?? CURRENT })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue>
+                  {STATUS_FILTER_OPTIONS.find((o) => o.value === table.status)?.label ?? table.status}
+                </SelectValue>
+              </SelectTrigger>
+              <SelectContent>
+                <SelectGroup>
+                  {STATUS_FILTER_OPTIONS.map((o) => (
+                    <SelectItem key={o.value} value={o.value}>
+                      {o.label}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              </SelectContent>
+            </Select>
+          </Field>
+          <Field>
+            <FieldLabel>State</FieldLabel>
+            <LocationSearchCombobox
+              type="state"
+              value={table.stateId}
+              onValueChange={(id) => {
+                if (id !== table.stateId) updateTable({ stateId: id, districtId: "" });
+              }}
+              placeholder="All states"
+            />
+          </Field>
+          <Field>
+            <FieldLabel>District</FieldLabel>
+            <LocationSearchCombobox
+              type="district"
+              value={table.districtId}
+              onValueChange={(id) => updateTable({ districtId: id })}
+              stateId={table.stateId || undefined}
+              placeholder={table.stateId ? "All districts in state" : "All districts"}
+            />
+          </Field>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={table.noActiveMiller}
+              onCheckedChange={(v) => updateTable({ noActiveMiller: Boolean(v) })}
+            />
+            <span>Only organizations without an active miller</span>
+          </label>
+          {hasFilters ? (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setSearchInput("");
+                updateTable({ ...DEFAULT_TABLE_STATE, sortBy: table.sortBy, sortOrder: table.sortOrder });
+              }}
+            >
+              Clear filters
+            </Button>
+          ) : null}
         </div>
 
         {organizationsQuery.isLoading ? (
@@ -486,53 +400,118 @@ export default function OrganizationsPage() {
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Organization</TableHead>
+                <SortableHead field="name" label="Organization" state={table} onSort={toggleSort} />
                 <TableHead className="w-[260px]">Org ID</TableHead>
-                <TableHead className="w-[120px]">Users</TableHead>
+                <TableHead className="w-[120px]">Status</TableHead>
+                <SortableHead field="userCount" label="Users" state={table} onSort={toggleSort} className="w-[120px]" />
+                <SortableHead field="createdAt" label="Created" state={table} onSort={toggleSort} className="w-[140px]" />
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
-              {orgs.map((org) => {
-                const hasMiller = org.users.some((u) => u.role === "MILLER");
-
-                return (
-                  <TableRow key={org.id}>
-                    <TableCell>
-                      <div className="font-medium">{org.name}</div>
-                      <div className="text-[11px] text-muted-foreground">{formatLocation(org)}</div>
-                    </TableCell>
-                    <TableCell className="font-mono text-[11px] text-muted-foreground">{org.id}</TableCell>
-                    <TableCell>{org.users.length}</TableCell>
-                    <TableCell className="text-right">
-                      <DropdownMenu>
-                        <DropdownMenuTrigger
-                          aria-label="Open actions"
-                          className={buttonVariants({ size: "icon-sm", variant: "ghost" })}
-                        >
-                          <MoreHorizontalIcon />
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuItem onClick={() => setUsersOrgId(org.id)}>Users</DropdownMenuItem>
-                          {!hasMiller ? (
-                            <DropdownMenuItem onClick={() => setCreateMillerOrg(org)}>
-                              Create miller
+              {orgs.map((org) => (
+                <TableRow key={org.id}>
+                  <TableCell>
+                    <Link to={`/organizations/${org.id}`} className="font-medium hover:underline">
+                      {org.name}
+                    </Link>
+                    <div className="text-[11px] text-muted-foreground">{formatOrganizationLocation(org)}</div>
+                    {!hasActiveMiller(org) ? (
+                      <Badge variant="destructive" className="mt-1">
+                        No active miller
+                      </Badge>
+                    ) : null}
+                  </TableCell>
+                  <TableCell className="font-mono text-[11px] text-muted-foreground">{org.id}</TableCell>
+                  <TableCell>
+                    <OrganizationStatusBadge status={org.status} />
+                  </TableCell>
+                  <TableCell>{org.users.length}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{formatDate(org.createdAt)}</TableCell>
+                  <TableCell className="text-right">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger
+                        aria-label="Open actions"
+                        className={buttonVariants({ size: "icon-sm", variant: "ghost" })}
+                      >
+                        <MoreHorizontalIcon />
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => navigate(`/organizations/${org.id}`)}>
+                          Open
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => navigate(`/organizations/${org.id}?tab=users`)}>
+                          Users
+                        </DropdownMenuItem>
+                        {can("organizations:manage") ? (
+                          <>
+                            <DropdownMenuItem onClick={() => navigate(`/organizations/${org.id}?tab=settings`)}>
+                              Edit organization
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            {org.status === "ACTIVE" ? (
+                              <DropdownMenuItem onClick={() => setStatusTarget({ org, action: "suspend" })}>
+                                Suspend
+                              </DropdownMenuItem>
+                            ) : null}
+                            {org.status === "SUSPENDED" ? (
+                              <DropdownMenuItem onClick={() => setStatusTarget({ org, action: "restore" })}>
+                                Reactivate
+                              </DropdownMenuItem>
+                            ) : null}
+                            {org.status === "ARCHIVED" ? (
+                              <DropdownMenuItem onClick={() => setStatusTarget({ org, action: "restore" })}>
+                                Restore
+                              </DropdownMenuItem>
+                            ) : (
+                              <DropdownMenuItem onClick={() => setStatusTarget({ org, action: "archive" })}>
+                                Archive
+                              </DropdownMenuItem>
+                            )}
+                          </>
+                        ) : null}
+                        {org.status === "ARCHIVED" && can("organizations:deletePermanently") ? (
+                          <>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem variant="destructive" onClick={() => setDeleteOrg(org)}>
+                              Delete
                             </DropdownMenuItem>
-                          ) : null}
-                          <DropdownMenuItem onClick={() => setEditOrg(org)}>Edit organization</DropdownMenuItem>
-                          <DropdownMenuSeparator />
-                          <DropdownMenuItem variant="destructive" onClick={() => setDeleteOrg(org)}>
-                            Delete
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
-                    </TableCell>
-                  </TableRow>
-                );
-              })}
+                          </>
+                        ) : null}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))}
             </TableBody>
           </Table>
         )}
+
+        <div className="flex items-center justify-between gap-3">
+          <div className="text-xs text-muted-foreground">
+            Page {table.page} of {totalPages} · {total} total
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => updateTable({ page: Math.max(1, table.page - 1) })}
+              disabled={organizationsQuery.isLoading || table.page <= 1}
+            >
+              Previous
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => updateTable({ page: Math.min(totalPages, table.page + 1) })}
+              disabled={organizationsQuery.isLoading || table.page >= totalPages}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
       </CardContent>
 
       <CreateOrganizationDialog
@@ -542,179 +521,16 @@ export default function OrganizationsPage() {
         isSaving={createOrgMutation.isPending}
       />
 
-      <EditOrganizationDialog
-        value={editOrg}
-        onClose={() => setEditOrg(null)}
-        onSave={(payload) => updateOrgMutation.mutate(payload)}
-        isSaving={updateOrgMutation.isPending}
-      />
-
-      <AlertDialog open={Boolean(deleteOrg)} onOpenChange={(open) => (!open ? setDeleteOrg(null) : null)}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Delete organization</AlertDialogTitle>
-            <AlertDialogDescription>
-              This action is permanent. It deletes the organization, its users, and all organization data.
-              This cannot be undone.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction
-              variant="destructive"
-              disabled={deleteOrgMutation.isPending}
-              onClick={() => {
-                if (!deleteOrg) return;
-                deleteOrgMutation.mutate(deleteOrg.id);
-              }}
-            >
-              {deleteOrgMutation.isPending ? "Deleting…" : "Delete"}
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
-
-      <Dialog open={Boolean(usersOrgId)} onOpenChange={(open) => (!open ? setUsersOrgId(null) : null)}>
-        <DialogContent className="sm:max-w-6xl w-[95vw]">
-          <DialogHeader>
-            <DialogTitle>Organization users</DialogTitle>
-            <DialogDescription>
-              Users linked to {usersOrg?.name ?? "this organization"}.
-            </DialogDescription>
-          </DialogHeader>
-
-          {usersOrg?.users?.length ? (
-            <div className="overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>User</TableHead>
-                    <TableHead>Email</TableHead>
-                    <TableHead>Role</TableHead>
-                    <TableHead>Pwd Changed</TableHead>
-                    <TableHead>Temp Pwd</TableHead>
-                    <TableHead>Status</TableHead>
-                    <TableHead className="text-right">Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {usersOrg.users.map((u) => (
-                    <TableRow key={u.id}>
-                      <TableCell>{`${u.firstName} ${u.lastName}`.trim() || "—"}</TableCell>
-                      <TableCell className="max-w-[260px] truncate">{u.email}</TableCell>
-                      <TableCell>{u.role}</TableCell>
-                      <TableCell>
-                        <Badge variant={u.mustChangePassword ? "outline" : "default"}>
-                          {u.mustChangePassword ? "No" : "Yes"}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        {u.role === "MILLER" && u.mustChangePassword ? (
-                          <TempPasswordCopyButton userId={u.id} />
-                        ) : (
-                          <span className="text-muted-foreground">—</span>
-                        )}
-                      </TableCell>
-                      <TableCell>
-                        <ActiveBadge active={u.isActive} />
-                      </TableCell>
-                      <TableCell className="text-right">
-                        <DropdownMenu>
-                          <DropdownMenuTrigger
-                            aria-label="Open user actions"
-                            className={buttonVariants({ size: "icon-sm", variant: "ghost" })}
-                          >
-                            <MoreHorizontalIcon />
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent align="end">
-                            <DropdownMenuItem onClick={() => setEditUser({ org: usersOrg, user: u })}>
-                              Edit
-                            </DropdownMenuItem>
-                            {u.isActive ? (
-                              <DropdownMenuItem onClick={() => setDeactivateUser({ org: usersOrg, user: u })}>
-                                Deactivate
-                              </DropdownMenuItem>
-                            ) : (
-                              <DropdownMenuItem onClick={() => activateUserMutation.mutate(u.id)}>
-                                Activate
-                              </DropdownMenuItem>
-                            )}
-                          </DropdownMenuContent>
-                        </DropdownMenu>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </div>
-          ) : (
-            <div className="text-sm text-muted-foreground">No users linked to this organization.</div>
-          )}
-
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setUsersOrgId(null)}>
-              Close
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-
-      <CreateMillerDialog
-        org={createMillerOrg}
-        onClose={() => setCreateMillerOrg(null)}
-        isSaving={createMillerMutation.isPending}
-        onCreate={(payload: {
-          org: AdminOrganization;
-          email: string;
-          firstName: string;
-          lastName: string;
-        }) => createMillerMutation.mutate(payload)}
-      />
-
-      <EditUserDialog
-        value={editUser}
-        onClose={() => setEditUser(null)}
-        isSaving={updateUserMutation.isPending}
-        onSave={(payload) => updateUserMutation.mutate(payload)}
-      />
-
-      <AlertDialog
-        open={Boolean(deactivateUser)}
-        onOpenChange={(open) => (!open ? setDeactivateUser(null) : null)}
-      >
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Deactivate user</AlertDialogTitle>
-            <AlertDialogDescription>
-              This disables login for the user. Use Activate to re-enable.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction
-              variant="destructive"
-              disabled={deactivateUserMutation.isPending}
-              onClick={() => {
-                if (!deactivateUser) return;
-                deactivateUserMutation.mutate(deactivateUser.user.id);
-              }}
-            >
-              {deactivateUserMutation.isPending ? "Deactivating…" : "Deactivate"}
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
-
+      <OrganizationStatusDialog target={statusTarget} onClose={() => setStatusTarget(null)} />
 
+      <DeleteOrganizationDialog org={deleteOrg} onClose={() => setDeleteOrg(null)} />
     </Card>
   );
 }
 
 const orgSchema = z.object({
   name: z.string().min(1, "Enter an organization name."),
-  state: z.string().min(1, "Enter a state."),
-  district: z.string().min(1, "Enter a district."),
-  village: z.string().min(1, "Enter a village."),
+  villageId: z.string().min(1, "Select a village."),
 });
 
 type OrgFormData = z.infer<typeof orgSchema>;
@@ -722,11 +538,12 @@ type OrgFormData = z.infer<typeof orgSchema>;
 function CreateOrganizationDialog(props: {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onCreate: (payload: { name: string; state: string; district: string; village: string }) => void;
+  onCreate: (payload: { name: string; villageId: string }) => void;
   isSaving: boolean;
 }) {
   const {
     register,
+    control,
     handleSubmit,
     reset,
     formState: { errors },
@@ -736,7 +553,7 @@ function CreateOrganizationDialog(props: {
 
   React.useEffect(() => {
     if (props.open) {
-      reset({ name: "", state: "", district: "", village: "" });
+      reset({ name: "", villageId: "" });
     }
   }, [props.open, reset]);
 
@@ -767,45 +584,21 @@ function CreateOrganizationDialog(props: {
               <FieldError errors={errors.name ? [errors.name] : []} />
             </Field>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <Field>
-                <FieldLabel htmlFor="orgState">State</FieldLabel>
-                <InputGroup>
-                  <InputGroupAddon>State</InputGroupAddon>
-                  <InputGroupInput
-                    id="orgState"
-                    placeholder="State"
-                    {...register("state")}
-                  />
-                </InputGroup>
-                <FieldError errors={errors.state ? [errors.state] : []} />
-              </Field>
-
-              <Field>
-                <FieldLabel htmlFor="orgDistrict">District</FieldLabel>
-                <InputGroup>
-                  <InputGroupAddon>District</InputGroupAddon>
-                  <InputGroupInput
-                    id="orgDistrict"
-                    placeholder="District"
-                    {...register("district")}
-                  />
-                </InputGroup>
-                <FieldError errors={errors.district ? [errors.district] : []} />
-              </Field>
-            </div>
-
             <Field>
-              <FieldLabel htmlFor="orgVillage">Village</FieldLabel>
-              <InputGroup>
-                <InputGroupAddon>Village</InputGroupAddon>
-                <InputGroupInput
-                  id="orgVillage"
-                  placeholder="Village"
-                  {...register("village")}
-                />
-              </InputGroup>
-              <FieldError errors={errors.village ? [errors.village] : []} />
+              <FieldLabel>Village</FieldLabel>
+              <Controller
+                control={control}
+                name="villageId"
+                render={({ field }) => (
+                  <LocationSearchCombobox
+                    type="village"
+                    value={field.value}
+                    onValueChange={field.onChange}
+                    placeholder="Search village..."
+                  />
+                )}
+              />
+              <FieldError errors={errors.villageId ? [errors.villageId] : []} />
             </Field>
           </FieldGroup>
 
@@ -822,310 +615,3 @@ function CreateOrganizationDialog(props: {
     </Dialog>
   );
 }
-
-function EditOrganizationDialog(props: {
-  value: AdminOrganization | null;
-  onClose: () => void;
-  onSave: (payload: { id: string; name: string; state: string; district: string; village: string }) => void;
-  isSaving: boolean;
-}) {
-  const org = props.value;
-
-  const {
-    register,
-    handleSubmit,
-    reset,
-    formState: { errors },
-  } = useForm<OrgFormData>({
-    resolver: zodResolver(orgSchema),
-  });
-
-  React.useEffect(() => {
-    if (org) {
-      reset({
-        name: org.name,
-        state: org.state ?? "",
-        district: org.district ?? "",
-        village: org.village ?? "",
-      });
-    }
-  }, [org, reset]);
-
-  function onSubmit(data: OrgFormData) {
-    if (!org) return;
-    props.onSave({
-      id: org.id,
-      ...data,
-    });
-  }
-
-  return (
-    <Dialog open={Boolean(org)} onOpenChange={(open) => (!open ? props.onClose() : null)}>
-      <DialogContent className="max-w-3xl">
-        <DialogHeader>
-          <DialogTitle>Edit organization</DialogTitle>
-          <DialogDescription>Update the organization details.</DialogDescription>
-        </DialogHeader>
-
-        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-          <FieldGroup>
-            <Field>
-              <FieldLabel htmlFor="orgEditName">Name</FieldLabel>
-              <InputGroup>
-                <InputGroupAddon>Name</InputGroupAddon>
-                <InputGroupInput
-                  id="orgEditName"
-                  placeholder="Organization name"
-                  {...register("name")}
-                />
-              </InputGroup>
-              <FieldError errors={errors.name ? [errors.name] : []} />
-            </Field>
-
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <Field>
-                <FieldLabel htmlFor="orgEditState">State</FieldLabel>
-                <InputGroup>
-                  <InputGroupAddon>State</InputGroupAddon>
-                  <InputGroupInput
-                    id="orgEditState"
-                    placeholder="State"
-                    {...register("state")}
-                  />
-                </InputGroup>
-                <FieldError errors={errors.state ? [errors.state] : []} />
-              </Field>
-
-              <Field>
-                <FieldLabel htmlFor="orgEditDistrict">District</FieldLabel>
-                <InputGroup>
-                  <InputGroupAddon>District</InputGroupAddon>
-                  <InputGroupInput
-                    id="orgEditDistrict"
-                    placeholder="District"
-                    {...register("district")}
-                  />
-                </InputGroup>
-                <FieldError errors={errors.district ? [errors.district] : []} />
-              </Field>
-            </div>
-
-            <Field>
-              <FieldLabel htmlFor="orgEditVillage">Village</FieldLabel>
-              <InputGroup>
-                <InputGroupAddon>Village</InputGroupAddon>
-                <InputGroupInput
-                  id="orgEditVillage"
-                  placeholder="Village"
-                  {...register("village")}
-                />
-              </InputGroup>
-              <FieldError errors={errors.village ? [errors.village] : []} />
-            </Field>
-          </FieldGroup>
-
-          <DialogFooter>
-            <Button type="button" variant="outline" onClick={props.onClose}>
-              Cancel
-            </Button>
-            <Button type="submit" disabled={props.isSaving}>
-              {props.isSaving ? "Saving…" : "Save"}
-            </Button>
-          </DialogFooter>
-        </form>
-      </DialogContent>
-    </Dialog>
-  );
-}
-
-function EditUserDialog(props: {
-  value: { org: AdminOrganization; user: AdminOrgUser } | null;
-  onClose: () => void;
-  isSaving: boolean;
-  onSave: (payload: {
-    id: string;
-    email: string;
-    firstName: string;
-    lastName: string;
-    role: AdminRole;
-    password?: string;
-    emailVerified: boolean;
-    isActive: boolean;
-  }) => void;
-}) {
-  const value = props.value;
-
-  const {
-    register,
-    handleSubmit,
-    reset,
-    control,
-    formState: { errors },
-  } = useForm<UserFormData>({
-    resolver: zodResolver(userSchema) as any,
-  });
-
-  React.useEffect(() => {
-    if (value) {
-      reset({
-        email: value.user.email,
-        firstName: value.user.firstName,
-        lastName: value.user.lastName,
-        role: value.user.role,
-        password: "",
-        emailVerified: value.user.isEmailVerified,
-        isActive: value.user.isActive,
-      });
-    }
-  }, [value, reset]);
-
-  function onSubmit(data: UserFormData) {
-    if (!value) return;
-    props.onSave({
-      id: value.user.id,
-      ...data,
-      password: data.password || undefined,
-    } as any);
-  }
-
-  return (
-    <Dialog open={Boolean(value)} onOpenChange={(open) => (!open ? props.onClose() : null)}>
-      <DialogContent className="max-w-2xl">
-        <DialogHeader>
-          <DialogTitle>Edit user</DialogTitle>
-          <DialogDescription>
-            Update user details for {value?.org.name ?? "this organization"}.
-          </DialogDescription>
-        </DialogHeader>
-
-        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-          <FieldGroup>
-            <Field>
-              <FieldLabel htmlFor="editUserEmail">Email</FieldLabel>
-              <InputGroup>
-                <InputGroupAddon>Email</InputGroupAddon>
-                <InputGroupInput
-                  id="editUserEmail"
-                  placeholder="user@example.com"
-                  {...register("email")}
-                />
-              </InputGroup>
-              <FieldError errors={errors.email ? [errors.email] : []} />
-            </Field>
-
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <Field>
-                <FieldLabel htmlFor="editUserFirstName">First name</FieldLabel>
-                <InputGroup>
-                  <InputGroupAddon>First</InputGroupAddon>
-                  <InputGroupInput
-                    id="editUserFirstName"
-                    placeholder="First name"
-                    {...register("firstName")}
-                  />
-                </InputGroup>
-                <FieldError errors={errors.firstName ? [errors.firstName] : []} />
-              </Field>
-
-              <Field>
-                <FieldLabel htmlFor="editUserLastName">Last name</FieldLabel>
-                <InputGroup>
-                  <InputGroupAddon>Last</InputGroupAddon>
-                  <InputGroupInput
-                    id="editUserLastName"
-                    placeholder="Last name"
-                    {...register("lastName")}
-                  />
-                </InputGroup>
-                <FieldError errors={errors.lastName ? [errors.lastName] : []} />
-              </Field>
-            </div>
-
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <Field>
-                <FieldLabel>Role</FieldLabel>
-                <Controller
-                  control={control}
-                  name="role"
-                  render={({ field }) => (
-                    <Select value={field.value} onValueChange={(v) => field.onChange(v ?? "")}>
-                      <SelectTrigger className="w-full">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectGroup>
-                          {EDIT_USER_ROLES.map((r) => (
-                            <SelectItem key={r.value} value={r.value}>
-                              {r.label}
-                            </SelectItem>
-                          ))}
-                        </SelectGroup>
-                      </SelectContent>
-                    </Select>
-                  )}
-                />
-              </Field>
-
-              <Field>
-                <FieldLabel htmlFor="editUserPassword">New password (optional)</FieldLabel>
-                <InputGroup>
-                  <InputGroupAddon>Pass</InputGroupAddon>
-                  <InputGroupInput
-                    id="editUserPassword"
-                    type="password"
-                    placeholder="Leave blank to keep current"
-                    {...register("password")}
-                  />
-                </InputGroup>
-                <FieldError errors={errors.password ? [errors.password] : []} />
-              </Field>
-            </div>
-
-            <div className="flex gap-6 mt-2">
-              <Field>
-                <label className="flex items-center gap-2 text-sm">
-                  <Controller
-                    control={control}
-                    name="emailVerified"
-                    render={({ field }) => (
-                      <Checkbox
-                        checked={field.value}
-                        onCheckedChange={(v) => field.onChange(Boolean(v))}
-                      />
-                    )}
-                  />
-                  <span>Email verified</span>
-                </label>
-              </Field>
-
-              <Field>
-                <label className="flex items-center gap-2 text-sm">
-                  <Controller
-                    control={control}
-                    name="isActive"
-                    render={({ field }) => (
-                      <Checkbox
-                        checked={field.value}
-                        onCheckedChange={(v) => field.onChange(Boolean(v))}
-                      />
-                    )}
-                  />
-                  <span>Active</span>
-                </label>
-              </Field>
-            </div>
-          </FieldGroup>
-
-          <DialogFooter>
-            <Button type="button" variant="outline" onClick={props.onClose}>
-              Cancel
-            </Button>
-            <Button type="submit" disabled={props.isSaving}>
-              {props.isSaving ? "Saving…" : "Save"}
-            </Button>
-          </DialogFooter>
-        </form>
-      </DialogContent>
-    </Dialog>
-  );
-}
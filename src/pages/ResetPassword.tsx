@@ -0,0 +1,111 @@
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Lock } from "lucide-react";
+
+import { AuthCardLayout } from "@/components/layout/AuthCardLayout";
+import { PasswordRulesList } from "@/components/ChangePasswordForm";
+import { Button } from "@/components/ui/button";
+import {
+  Field,
+  FieldDescription,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { InputGroup, InputGroupAddon, InputGroupInput } from "@/components/ui/input-group";
+import { resetPasswordApi } from "@/lib/auth";
+import { useUiStore } from "@/store";
+import { ResetPasswordRequestSchema, type ResetPasswordRequest } from "@/types/auth";
+
+export default function ResetPassword() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const navigate = useNavigate();
+  const { showToast } = useUiStore();
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    formState: { errors },
+  } = useForm<ResetPasswordRequest>({
+    resolver: zodResolver(ResetPasswordRequestSchema),
+    defaultValues: { token, newPassword: "", confirmPassword: "" },
+  });
+
+  const newPassword = useWatch({ control, name: "newPassword" }) ?? "";
+
+  const resetMutation = useMutation({
+    mutationFn: resetPasswordApi,
+    onSuccess: (res) => {
+      showToast(res.message ?? "Password reset. Sign in with your new password.", "success");
+      navigate("/login", { replace: true });
+    },
+    onError: (err) => {
+      showToast(err instanceof Error ? err.message : "Password reset failed.", "error");
+    },
+  });
+
+  const belowCard = (
+    <FieldDescription>
+      <Link to="/forgot-password">Request a new link</Link> · <Link to="/login">Back to sign in</Link>
+    </FieldDescription>
+  );
+
+  if (!token) {
+    return (
+      <AuthCardLayout title="Reset link is invalid" belowCard={belowCard}>
+        <FieldDescription className="text-center">
+          This link is missing its reset token. Open the link from your email again or request a new one.
+        </FieldDescription>
+      </AuthCardLayout>
+    );
+  }
+
+  return (
+    <AuthCardLayout title="Reset password" subtitle="Choose a new password for your account." belowCard={belowCard}>
+      <form className="flex flex-col gap-6" onSubmit={handleSubmit((data) => resetMutation.mutate(data))}>
+        <FieldGroup>
+          <Field>
+            <FieldLabel htmlFor="resetNewPassword">New password</FieldLabel>
+            <InputGroup>
+              <InputGroupAddon>
+                <Lock className="h-4 w-4" />
+              </InputGroupAddon>
+              <InputGroupInput
+                id="resetNewPassword"
+                type="password"
+                autoComplete="new-password"
+                {...register("newPassword")}
+              />
+            </InputGroup>
+            <PasswordRulesList password={newPassword} />
+            <FieldError errors={errors.newPassword ? [errors.newPassword] : []} />
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="resetConfirmPassword">Confirm new password</FieldLabel>
+            <InputGroup>
+              <InputGroupAddon>
+                <Lock className="h-4 w-4" />
+              </InputGroupAddon>
+              <InputGroupInput
+                id="resetConfirmPassword"
+                type="password"
+                autoComplete="new-password"
+                {...register("confirmPassword")}
+              />
+            </InputGroup>
+            <FieldError errors={errors.confirmPassword ? [errors.confirmPassword] : []} />
+          </Field>
+          <Field>
+            <Button type="submit" disabled={resetMutation.isPending} className="w-full">
+              {resetMutation.isPending ? "Saving…" : "Reset password"}
+            </Button>
+          </Field>
+        </FieldGroup>
+      </form>
+    </AuthCardLayout>
+  );
+}
@@ -0,0 +1,63 @@
+import * as React from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useMutation } from "@tanstack/react-query";
+
+import { AuthCardLayout } from "@/components/layout/AuthCardLayout";
+import { buttonVariants } from "@/components/ui/button";
+import { FieldDescription } from "@/components/ui/field";
+import { useAuth } from "@/context/AuthContext";
+import { verifyEmailApi } from "@/lib/auth";
+
+export default function VerifyEmail() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") ?? "";
+  const { isAuthenticated } = useAuth();
+
+  const { mutate, isSuccess, isError, error, data } = useMutation({ mutationFn: verifyEmailApi });
+
+  // Tokens are single-use, so make sure a StrictMode double effect does not spend it twice.
+  const requestedRef = React.useRef<string | null>(null);
+  React.useEffect(() => {
+    if (!token || requestedRef.current === token) return;
+    requestedRef.current = token;
+    mutate(token);
+  }, [mutate, token]);
+
+  const continueLink = (
+    <Link to={isAuthenticated ? "/dashboard" : "/login"} className={buttonVariants({ className: "w-full" })}>
+      {isAuthenticated ? "Continue to dashboard" : "Continue to sign in"}
+    </Link>
+  );
+
+  if (!token) {
+    return (
+      <AuthCardLayout title="Verification link is invalid">
+        <div className="flex flex-col gap-6">
+          <FieldDescription className="text-center">
+            This link is missing its verification token. Open the link from your email again.
+          </FieldDescription>
+          {continueLink}
+        </div>
+      </AuthCardLayout>
+    );
+  }
+
+  return (
+    <AuthCardLayout
+      title={isSuccess ? "Email verified" : isError ? "Could not verify email" : "Verifying email…"}
+    >
+      <div className="flex flex-col gap-6">
+        <FieldDescription className="text-center">
+          {isSuccess
+            ? data.message ?? "Thanks, your email address is confirmed."
+            : isError
+              ? error instanceof Error && error.message
+                ? error.message
+                : "The link may have expired. Ask an admin to send a new one."
+              : "Please wait a moment."}
+        </FieldDescription>
+        {isSuccess || isError ? continueLink : null}
+      </div>
+    </AuthCardLayout>
+  );
+}
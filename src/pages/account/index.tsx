@@ -0,0 +1,154 @@
+import * as React from "react";
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+
+import { ChangePasswordForm } from "@/components/ChangePasswordForm";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Field,
+  FieldDescription,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { InputGroup, InputGroupInput } from "@/components/ui/input-group";
+import { useAuth } from "@/context/AuthContext";
+import { getMe, updateProfile } from "@/lib/auth";
+import { useUiStore } from "@/store";
+import { UpdateProfileRequestSchema, type UpdateProfileRequest } from "@/types/auth";
+
+export default function AccountPage() {
+  const { user, updateUser, changePassword, impersonation } = useAuth();
+  const { showToast } = useUiStore();
+
+  const meQuery = useQuery({
+    queryKey: ["auth", "me"],
+    queryFn: getMe,
+  });
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isDirty },
+  } = useForm<UpdateProfileRequest>({
+    resolver: zodResolver(UpdateProfileRequestSchema),
+    defaultValues: {
+      firstName: user?.firstName ?? "",
+      lastName: user?.lastName ?? "",
+      email: user?.email ?? "",
+    },
+  });
+
+  const me = meQuery.data?.data;
+  React.useEffect(() => {
+    if (!me) return;
+    updateUser(me);
+    reset({ firstName: me.firstName ?? "", lastName: me.lastName ?? "", email: me.email });
+  }, [me, reset, updateUser]);
+
+  const profileMutation = useMutation({
+    mutationFn: updateProfile,
+    onSuccess: (res) => {
+      updateUser(res.data);
+      reset({ firstName: res.data.firstName ?? "", lastName: res.data.lastName ?? "", email: res.data.email });
+      showToast(res.message ?? "Profile updated.", "success");
+    },
+    onError: (err) => {
+      showToast(err instanceof Error ? err.message : "Update failed.", "error");
+    },
+  });
+
+  if (impersonation) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Not available while impersonating</CardTitle>
+        </CardHeader>
+        <CardContent className="text-sm text-muted-foreground">
+          Exit impersonation to change account details, passwords or two-factor settings.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>Profile</CardTitle>
+          <div className="text-sm text-muted-foreground">The name and email other admins see.</div>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit((data) => profileMutation.mutate(data))}>
+            <FieldGroup>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <Field>
+                  <FieldLabel htmlFor="accountFirstName">First name</FieldLabel>
+                  <InputGroup>
+                    <InputGroupInput id="accountFirstName" autoComplete="given-name" {...register("firstName")} />
+                  </InputGroup>
+                  <FieldError errors={errors.firstName ? [errors.firstName] : []} />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="accountLastName">Last name</FieldLabel>
+                  <InputGroup>
+                    <InputGroupInput id="accountLastName" autoComplete="family-name" {...register("lastName")} />
+                  </InputGroup>
+                  <FieldError errors={errors.lastName ? [errors.lastName] : []} />
+                </Field>
+              </div>
+              <Field>
+                <FieldLabel htmlFor="accountEmail">Email</FieldLabel>
+                <InputGroup>
+                  <InputGroupInput id="accountEmail" type="email" autoComplete="email" {...register("email")} />
+                </InputGroup>
+                <FieldDescription>You sign in with this address.</FieldDescription>
+                <FieldError errors={errors.email ? [errors.email] : []} />
+              </Field>
+              <Field>
+                <Button type="submit" disabled={!isDirty || profileMutation.isPending}>
+                  {profileMutation.isPending ? "Saving…" : "Save profile"}
+                </Button>
+              </Field>
+            </FieldGroup>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Password</CardTitle>
+            <div className="text-sm text-muted-foreground">Use a password you do not use anywhere else.</div>
+          </CardHeader>
+          <CardContent>
+            <ChangePasswordForm
+              onSubmit={async (data) => {
+                const message = await changePassword(data);
+                showToast(message ?? "Password changed.", "success");
+              }}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Two-factor authentication</CardTitle>
+            <div className="text-sm text-muted-foreground">
+              {user?.mfaEnabled ? "On for this account." : "Off. Turn it on to protect your account."}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <Link to="/account/security" className={buttonVariants({ variant: "outline" })}>
+              Manage
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
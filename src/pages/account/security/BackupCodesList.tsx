@@ -0,0 +1,44 @@
+import { Button } from "@/components/ui/button";
+import { useUiStore } from "@/store";
+
+export function BackupCodesList({ codes }: { codes: string[] }) {
+    const { showToast } = useUiStore();
+
+    async function onCopy() {
+        try {
+            await navigator.clipboard.writeText(codes.join("\n"));
+            showToast("Backup codes copied to clipboard.", "success");
+        } catch {
+            showToast("Failed to copy backup codes.", "error");
+        }
+    }
+
+    function onDownload() {
+        const url = URL.createObjectURL(new Blob([`${codes.join("\n")}\n`], { type: "text/plain" }));
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = "paddypress-backup-codes.txt";
+        document.body.appendChild(a);
+        a.click();
+        a.remove();
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-3 font-mono text-sm">
+                {codes.map((c) => (
+                    <div key={c}>{c}</div>
+                ))}
+            </div>
+            <div className="flex gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={() => void onCopy()}>
+                    Copy
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={onDownload}>
+                    Download
+                </Button>
+            </div>
+        </div>
+    );
+}
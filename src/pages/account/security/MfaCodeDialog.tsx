@@ -0,0 +1,104 @@
+import * as React from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Field, FieldError, FieldLabel } from "@/components/ui/field";
+import { InputGroup, InputGroupInput } from "@/components/ui/input-group";
+
+interface MfaCodeDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    title: string;
+    description: string;
+    submitLabel: string;
+    destructive?: boolean;
+    isSubmitting: boolean;
+    error: string | null;
+    onSubmit: (code: string) => void;
+    children?: React.ReactNode;
+}
+
+export function MfaCodeDialog({
+    open,
+    onOpenChange,
+    title,
+    description,
+    submitLabel,
+    destructive,
+    isSubmitting,
+    error,
+    onSubmit,
+    children,
+}: MfaCodeDialogProps) {
+    const [code, setCode] = React.useState("");
+
+    React.useEffect(() => {
+        if (open) setCode("");
+    }, [open]);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>{title}</DialogTitle>
+                    <DialogDescription>{description}</DialogDescription>
+                </DialogHeader>
+
+                {children ?? (
+                    <form
+                        id="mfaCodeForm"
+                        onSubmit={(e) => {
+                            e.preventDefault();
+                            onSubmit(code.trim());
+                        }}
+                    >
+                        <Field>
+                            <FieldLabel htmlFor="mfaConfirmCode">Authentication code</FieldLabel>
+                            <InputGroup>
+                                <InputGroupInput
+                                    id="mfaConfirmCode"
+                                    autoFocus
+                                    autoComplete="one-time-code"
+                                    inputMode="numeric"
+                                    placeholder="123456"
+                                    value={code}
+                                    onChange={(e) => setCode(e.target.value)}
+                                />
+                            </InputGroup>
+                            {error ? <FieldError>{error}</FieldError> : null}
+                        </Field>
+                    </form>
+                )}
+
+                <DialogFooter>
+                    {children ? (
+                        <Button type="button" onClick={() => onOpenChange(false)}>
+                            Done
+                        </Button>
+                    ) : (
+                        <>
+                            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                                Cancel
+                            </Button>
+                            <Button
+                                type="submit"
+                                form="mfaCodeForm"
+                                variant={destructive ? "destructive" : "default"}
+                                disabled={isSubmitting}
+                            >
+                                {isSubmitting ? "Please wait…" : submitLabel}
+                            </Button>
+                        </>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
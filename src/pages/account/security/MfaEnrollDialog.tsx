@@ -0,0 +1,145 @@
+import * as React from "react";
+import { useMutation } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Field, FieldDescription, FieldError, FieldLabel } from "@/components/ui/field";
+import { InputGroup, InputGroupInput } from "@/components/ui/input-group";
+import { confirmMfaEnrollment, startMfaEnrollment } from "@/lib/auth";
+
+import { BackupCodesList } from "./BackupCodesList";
+
+interface MfaEnrollDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onEnrolled: () => void;
+}
+
+export function MfaEnrollDialog({ open, onOpenChange, onEnrolled }: MfaEnrollDialogProps) {
+    const [code, setCode] = React.useState("");
+    const [backupCodes, setBackupCodes] = React.useState<string[] | null>(null);
+
+    const enrollMutation = useMutation({ mutationFn: startMfaEnrollment });
+    const confirmMutation = useMutation({
+        mutationFn: confirmMfaEnrollment,
+        onSuccess: (res) => {
+            setBackupCodes(res.data.backupCodes);
+            onEnrolled();
+        },
+    });
+
+    const { mutate: startEnrollment, reset: resetEnrollment } = enrollMutation;
+    const { reset: resetConfirm } = confirmMutation;
+
+    React.useEffect(() => {
+        if (!open) return;
+        setCode("");
+        setBackupCodes(null);
+        resetConfirm();
+        resetEnrollment();
+        startEnrollment();
+    }, [open, resetConfirm, resetEnrollment, startEnrollment]);
+
+    const enrollment = enrollMutation.data?.data ?? null;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>{backupCodes ? "Save your backup codes" : "Set up two-factor authentication"}</DialogTitle>
+                    <DialogDescription>
+                        {backupCodes
+                            ? "Each code signs you in once if you lose your phone. They are not shown again."
+                            : "Scan the QR code with an authenticator app such as Google Authenticator, then enter the 6-digit code it shows."}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {backupCodes ? (
+                    <BackupCodesList codes={backupCodes} />
+                ) : enrollMutation.isPending ? (
+                    <div className="text-sm text-muted-foreground">Loading…</div>
+                ) : enrollMutation.isError ? (
+                    <div className="text-sm text-destructive">
+                        {enrollMutation.error instanceof Error
+                            ? enrollMutation.error.message
+                            : "Failed to start setup."}
+                    </div>
+                ) : enrollment ? (
+                    <form
+                        id="mfaEnrollForm"
+                        className="space-y-4"
+                        onSubmit={(e) => {
+                            e.preventDefault();
+                            confirmMutation.mutate({ code: code.trim() });
+                        }}
+                    >
+                        {enrollment.qrCodeDataUrl ? (
+                            <img
+                                src={enrollment.qrCodeDataUrl}
+                                alt="QR code for your authenticator app"
+                                className="mx-auto size-44 rounded-md border border-border bg-white p-2"
+                            />
+                        ) : null}
+                        <Field>
+                            <FieldLabel>Setup key</FieldLabel>
+                            <div className="break-all rounded-md bg-muted px-3 py-2 font-mono text-xs">
+                                {enrollment.secret}
+                            </div>
+                            <FieldDescription>
+                                Enter this key manually if you cannot scan the code.
+                            </FieldDescription>
+                        </Field>
+                        <Field>
+                            <FieldLabel htmlFor="mfaEnrollCode">Code</FieldLabel>
+                            <InputGroup>
+                                <InputGroupInput
+                                    id="mfaEnrollCode"
+                                    autoComplete="one-time-code"
+                                    inputMode="numeric"
+                                    placeholder="123456"
+                                    value={code}
+                                    onChange={(e) => setCode(e.target.value)}
+                                />
+                            </InputGroup>
+                            {confirmMutation.isError ? (
+                                <FieldError>
+                                    {confirmMutation.error instanceof Error
+                                        ? confirmMutation.error.message
+                                        : "Verification failed."}
+                                </FieldError>
+                            ) : null}
+                        </Field>
+                    </form>
+                ) : null}
+
+                <DialogFooter>
+                    {backupCodes ? (
+                        <Button type="button" onClick={() => onOpenChange(false)}>
+                            I saved my codes
+                        </Button>
+                    ) : (
+                        <>
+                            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                                Cancel
+                            </Button>
+                            <Button
+                                type="submit"
+                                form="mfaEnrollForm"
+                                disabled={!enrollment || confirmMutation.isPending}
+                            >
+                                {confirmMutation.isPending ? "Verifying…" : "Turn on"}
+                            </Button>
+                        </>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,185 @@
+import * as React from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ShieldCheckIcon, ShieldOffIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useAuth } from "@/context/AuthContext";
+import { MFA_TRUST_DEVICE_DAYS } from "@/config";
+import { disableMfa, regenerateMfaBackupCodes } from "@/lib/auth";
+import { readTrustedDeviceToken, saveTrustedDeviceToken } from "@/lib/rememberedLogin";
+import { useUiStore } from "@/store";
+
+import { BackupCodesList } from "./BackupCodesList";
+import { MfaCodeDialog } from "./MfaCodeDialog";
+import { MfaEnrollDialog } from "./MfaEnrollDialog";
+
+export default function SecurityPage() {
+  const { user, updateUser, impersonation } = useAuth();
+  const { showToast } = useUiStore();
+
+  const [enrollOpen, setEnrollOpen] = React.useState(false);
+  const [regenerateOpen, setRegenerateOpen] = React.useState(false);
+  const [disableOpen, setDisableOpen] = React.useState(false);
+  const [isTrusted, setIsTrusted] = React.useState(() =>
+    user ? readTrustedDeviceToken(user.email) !== null : false
+  );
+
+  const regenerateMutation = useMutation({
+    mutationFn: regenerateMfaBackupCodes,
+    onError: (err) => {
+      showToast(err instanceof Error ? err.message : "Failed to regenerate backup codes.", "error");
+    },
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: disableMfa,
+    onSuccess: (res) => {
+      if (user) saveTrustedDeviceToken(user.email, null);
+      setIsTrusted(false);
+      updateUser({ mfaEnabled: false });
+      setDisableOpen(false);
+      showToast(res.message ?? "Two-factor authentication turned off.", "success");
+    },
+    onError: (err) => {
+      showToast(err instanceof Error ? err.message : "Failed to turn off two-factor authentication.", "error");
+    },
+  });
+
+  const mfaEnabled = Boolean(user?.mfaEnabled);
+  const regeneratedCodes = regenerateMutation.data?.data.backupCodes ?? null;
+
+  if (impersonation) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Not available while impersonating</CardTitle>
+        </CardHeader>
+        <CardContent className="text-sm text-muted-foreground">
+          Exit impersonation to change account details, passwords or two-factor settings.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle>Two-factor authentication</CardTitle>
+            {mfaEnabled ? <Badge>On</Badge> : <Badge variant="secondary">Off</Badge>}
+          </div>
+          <div className="text-sm text-muted-foreground">
+            Ask for a code from an authenticator app after your password when you sign in.
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {mfaEnabled ? (
+            <>
+              <div className="flex items-start gap-3 text-sm">
+                <ShieldCheckIcon className="mt-0.5 size-4 text-primary" />
+                <div>
+                  Your account is protected. Keep your backup codes somewhere safe; each one signs you in once
+                  if you lose your phone.
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    regenerateMutation.reset();
+                    setRegenerateOpen(true);
+                  }}
+                >
+                  Regenerate backup codes
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => {
+                    disableMutation.reset();
+                    setDisableOpen(true);
+                  }}
+                >
+                  Turn off
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="flex items-start gap-3 text-sm">
+                <ShieldOffIcon className="mt-0.5 size-4 text-muted-foreground" />
+                <div>Anyone with your password can sign in to this account.</div>
+              </div>
+              <Button onClick={() => setEnrollOpen(true)}>Set up</Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {mfaEnabled ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Trusted device</CardTitle>
+            <div className="text-sm text-muted-foreground">
+              A trusted browser skips the code for {MFA_TRUST_DEVICE_DAYS} days.
+            </div>
+          </CardHeader>
+          <CardContent className="flex items-center justify-between gap-4">
+            <div className="text-sm">
+              {isTrusted ? "This browser is trusted." : "This browser is not trusted."}
+            </div>
+            {isTrusted ? (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  if (user) saveTrustedDeviceToken(user.email, null);
+                  setIsTrusted(false);
+                  showToast("This browser will ask for a code next time.", "success");
+                }}
+              >
+                Forget this browser
+              </Button>
+            ) : null}
+          </CardContent>
+        </Card>
+      ) : null}
+
+      <MfaEnrollDialog
+        open={enrollOpen}
+        onOpenChange={setEnrollOpen}
+        onEnrolled={() => updateUser({ mfaEnabled: true })}
+      />
+
+      <MfaCodeDialog
+        open={regenerateOpen}
+        onOpenChange={setRegenerateOpen}
+        title={regeneratedCodes ? "New backup codes" : "Regenerate backup codes"}
+        description={
+          regeneratedCodes
+            ? "Your old codes no longer work. Save these now; they are not shown again."
+            : "Enter a code from your authenticator app. Your current backup codes will stop working."
+        }
+        submitLabel="Regenerate"
+        isSubmitting={regenerateMutation.isPending}
+        error={regenerateMutation.error instanceof Error ? regenerateMutation.error.message : null}
+        onSubmit={(code) => regenerateMutation.mutate({ code })}
+      >
+        {regeneratedCodes ? <BackupCodesList codes={regeneratedCodes} /> : undefined}
+      </MfaCodeDialog>
+
+      <MfaCodeDialog
+        open={disableOpen}
+        onOpenChange={setDisableOpen}
+        title="Turn off two-factor authentication?"
+        description="Enter a code from your authenticator app to confirm. Your backup codes and trusted browsers will stop working."
+        submitLabel="Turn off"
+        destructive
+        isSubmitting={disableMutation.isPending}
+        error={disableMutation.error instanceof Error ? disableMutation.error.message : null}
+        onSubmit={(code) => disableMutation.mutate({ code })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+import * as React from "react";
+import { useQueries, useQuery } from "@tanstack/react-query";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Field,
+  FieldDescription,
+  FieldLabel,
+} from "@/components/ui/field";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import { cn } from "@/lib/utils";
+import {
+  compareSeasons,
+  findCurrentCropYear,
+  formatSeasonName,
+  listCropYears,
+} from "@/lib/cropYears";
+import { listMasterBagSizes } from "@/lib/masterBagSizes";
+import { listMasterRiceTypes } from "@/lib/masterRiceTypes";
+import { listSeasonBagRates } from "@/lib/seasonBagRates";
+import {
+  formatBagSizeLabel,
+  formatPaise,
+  formatPercent,
+  formatRupees,
+  parsePercent,
+  rupeesToPaise,
+} from "@/lib/money";
+import type { SeasonCode } from "@/types/seasonBagRates";
+
+const DEFAULT_SELECTION_SIZE = 3;
+
+type SeasonKey = `${number}:${SeasonCode}`;
+
+function toSeasonKey(startYear: number, seasonCode: SeasonCode): SeasonKey {
+  return `${startYear}:${seasonCode}`;
+}
+
+function fromSeasonKey(key: SeasonKey): { startYear: number; seasonCode: SeasonCode } {
+  const [year, code] = key.split(":");
+  return { startYear: Number(year), seasonCode: code };
+}
+
+function formatChange(changePaise: number, pct: number | null): string {
+  const sign = changePaise > 0 ? "+" : changePaise < 0 ? "−" : "";
+  const absText = `${sign}${formatPaise(Math.abs(changePaise))}`;
+  if (pct === null) return absText;
+  return `${absText} (${sign}${formatPercent(Math.abs(pct))})`;
+}
+
+export default function BagRatesComparePage() {
+  const [selectedKeys, setSelectedKeys] = React.useState<SeasonKey[] | null>(null);
+  const [thresholdRaw, setThresholdRaw] = React.useState("10");
+  const [outliersOnly, setOutliersOnly] = React.useState(false);
+
+  const cropYearsQuery = useQuery({
+    queryKey: ["cropYears", 1, 50],
+    queryFn: () => listCropYears({ page: 1, limit: 50 }),
+  });
+
+  const riceTypesQuery = useQuery({
+    queryKey: ["masterRiceTypes", "activeOnly"],
+    queryFn: () => listMasterRiceTypes({ includeInactive: false }),
+  });
+
+  const bagSizesQuery = useQuery({
+    queryKey: ["masterBagSizes", "activeOnly"],
+    queryFn: () => listMasterBagSizes({ includeInactive: false }),
+  });
+
+  const bagSizes = React.useMemo(() => {
+    return bagSizesQuery.data?.data.items ?? [];
+  }, [bagSizesQuery.data?.data.items]);
+
+  const riceTypes = React.useMemo(() => {
+    return riceTypesQuery.data?.data.items ?? [];
+  }, [riceTypesQuery.data?.data.items]);
+
+  const cropYears = React.useMemo(() => {
+    return (cropYearsQuery.data?.data.items ?? []).slice().sort((a, b) => a.startYear - b.startYear);
+  }, [cropYearsQuery.data?.data.items]);
+
+  const allKeys = React.useMemo(() => {
+    return cropYears.flatMap((cy) =>
+      cy.seasons
+        .slice()
+        .sort(compareSeasons)
+        .map((s) => toSeasonKey(cy.startYear, s.code))
+    );
+  }, [cropYears]);
+
+  React.useEffect(() => {
+    if (selectedKeys !== null || allKeys.length === 0) return;
+    const current = findCurrentCropYear(cropYears);
+    const upToCurrent = current
+      ? allKeys.filter((key) => fromSeasonKey(key).startYear <= current.startYear).length
+      : allKeys.length;
+    const end = upToCurrent === 0 ? allKeys.length : upToCurrent;
+    setSelectedKeys(allKeys.slice(Math.max(0, end - DEFAULT_SELECTION_SIZE), end));
+  }, [allKeys, cropYears, selectedKeys]);
+
+  const columns = React.useMemo(
+    () => allKeys.filter((key) => (selectedKeys ?? []).includes(key)),
+    [allKeys, selectedKeys]
+  );
+
+  const rateQueries = useQueries({
+    queries: columns.map((key) => {
+      const { startYear, seasonCode } = fromSeasonKey(key);
+      return {
+        queryKey: ["seasonBagRates", startYear, seasonCode],
+        queryFn: () => listSeasonBagRates({ cropYearStartYear: startYear, seasonCode }),
+      };
+    }),
+  });
+
+  const threshold = parsePercent(thresholdRaw);
+
+  function seasonLabel(key: SeasonKey) {
+    const { startYear, seasonCode } = fromSeasonKey(key);
+    const cropYear = cropYears.find((cy) => cy.startYear === startYear);
+    return `${cropYear?.label ?? startYear} · ${formatSeasonName(seasonCode, cropYear?.seasons)}`;
+  }
+
+  const rows = React.useMemo(() => {
+    const ratesByColumn = rateQueries.map((q) => {
+      const m = new Map<string, Record<string, number | null>>();
+      for (const item of q.data?.data.items ?? []) m.set(item.riceType.code, item.rates);
+      return m;
+    });
+
+    return riceTypes.flatMap((rt) =>
+      bagSizes.map((size) => {
+        let previous: number | null = null;
+        let hasOutlier = false;
+        const cells = columns.map((key, index) => {
+          const value = ratesByColumn[index]?.get(rt.code)?.[size.code] ?? null;
+          let changePaise: number | null = null;
+          let pct: number | null = null;
+          if (value !== null && previous !== null) {
+            const previousPaise = rupeesToPaise(previous);
+            changePaise = rupeesToPaise(value) - previousPaise;
+            pct = previousPaise === 0 ? null : (changePaise / previousPaise) * 100;
+          }
+          const isOutlier =
+            threshold !== null &&
+            changePaise !== null &&
+            (pct === null ? changePaise !== 0 : Math.abs(pct) > threshold);
+          if (isOutlier) hasOutlier = true;
+          if (value !== null) previous = value;
+          return { key, value, changePaise, pct, isOutlier };
+        });
+        return { riceType: rt, size, cells, hasOutlier };
+      })
+    );
+  }, [bagSizes, columns, rateQueries, riceTypes, threshold]);
+
+  const visibleRows = outliersOnly ? rows.filter((r) => r.hasOutlier) : rows;
+  const outlierCount = rows.reduce((sum, r) => sum + r.cells.filter((c) => c.isOutlier).length, 0);
+  const isLoadingRates = rateQueries.some((q) => q.isLoading);
+  const failedQuery = rateQueries.find((q) => q.isError);
+
+  function toggleKey(key: SeasonKey, checked: boolean) {
+    setSelectedKeys((prev) => {
+      const current = prev ?? [];
+      return checked ? [...current, key] : current.filter((k) => k !== key);
+    });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Bag Rate Comparison</CardTitle>
+        <div className="text-sm text-muted-foreground">
+          Compare bag rates across seasons. Each season is compared with the previous selected season.
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-[1fr_240px]">
+          <Field>
+            <FieldLabel>Seasons</FieldLabel>
+            {cropYearsQuery.isLoading ? (
+              <div className="text-sm text-muted-foreground">Loading…</div>
+            ) : allKeys.length === 0 ? (
+              <div className="text-sm text-muted-foreground">No crop years found.</div>
+            ) : (
+              <div className="flex flex-wrap gap-x-6 gap-y-2">
+                {allKeys.map((key) => (
+                  <label key={key} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={columns.includes(key)}
+                      onCheckedChange={(v) => toggleKey(key, Boolean(v))}
+                    />
+                    <span>{seasonLabel(key)}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </Field>
+
+          <Field>
+            <FieldLabel htmlFor="outlierThreshold">Outlier threshold</FieldLabel>
+            <InputGroup>
+              <InputGroupInput
+                id="outlierThreshold"
+                inputMode="decimal"
+                value={thresholdRaw}
+                onChange={(e) => setThresholdRaw(e.target.value)}
+              />
+              <InputGroupAddon align="inline-end">%</InputGroupAddon>
+            </InputGroup>
+            <FieldDescription>Highlight changes larger than this.</FieldDescription>
+          </Field>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={outliersOnly} onCheckedChange={(v) => setOutliersOnly(Boolean(v))} />
+            <span>Show outliers only</span>
+          </label>
+          {columns.length > 1 ? (
+            <div className="text-xs text-muted-foreground">
+              {outlierCount} outlier{outlierCount === 1 ? "" : "s"} found.
+            </div>
+          ) : null}
+        </div>
+
+        {columns.length === 0 ? (
+          <div className="text-sm text-muted-foreground">Select at least one season.</div>
+        ) : riceTypesQuery.isLoading || bagSizesQuery.isLoading || isLoadingRates ? (
+          <div className="text-sm text-muted-foreground">Loading…</div>
+        ) : failedQuery ? (
+          <div className="text-sm text-destructive">
+            {failedQuery.error instanceof Error ? failedQuery.error.message : "Failed to load bag rates."}
+          </div>
+        ) : visibleRows.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            {outliersOnly ? "No outliers found." : "No active rice types found."}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-muted hover:bg-muted dark:bg-muted/10">
+                  <TableHead className="w-[200px]">Rice Type</TableHead>
+                  <TableHead className="w-[90px]">Bag Size</TableHead>
+                  {columns.map((key) => (
+                    <TableHead key={key}>{seasonLabel(key)}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleRows.map((row) => (
+                  <TableRow key={`${row.riceType.code}:${row.size.code}`}>
+                    <TableCell className="font-medium">
+                      <div>{row.riceType.name}</div>
+                      <div className="text-[10px] text-muted-foreground uppercase">{row.riceType.code}</div>
+                    </TableCell>
+                    <TableCell className="text-xs">{formatBagSizeLabel(row.size)}</TableCell>
+                    {row.cells.map((cell) => (
+                      <TableCell
+                        key={cell.key}
+                        className={cn(
+                          cell.isOutlier && cell.changePaise !== null && cell.changePaise < 0
+                            ? "bg-red-50 dark:bg-red-950/20"
+                            : cell.isOutlier
+                              ? "bg-amber-50 dark:bg-amber-950/20"
+                              : null
+                        )}
+                      >
+                        {cell.value === null ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : (
+                          <div className="space-y-0.5">
+                            <div>{formatRupees(cell.value)}</div>
+                            {cell.changePaise !== null ? (
+                              <div
+                                className={cn(
+                                  "text-[11px]",
+                                  cell.changePaise < 0
+                                    ? "text-destructive"
+                                    : cell.changePaise > 0
+                                      ? "text-green-700 dark:text-green-400"
+                                      : "text-muted-foreground"
+                                )}
+                              >
+                                {formatChange(cell.changePaise, cell.pct)}
+                              </div>
+                            ) : null}
+                          </div>
+                        )}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,371 @@
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import {
+    Select,
+    SelectContent,
+    SelectGroup,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Field, FieldDescription, FieldLabel } from "@/components/ui/field";
+import {
+    InputGroup,
+    InputGroupAddon,
+    InputGroupInput,
+} from "@/components/ui/input-group";
+import {
+    formatBagSizeLabel,
+    formatRupees,
+    paiseToRupees,
+    parsePercent,
+    parseRupeesToPaise,
+    prorataPaise,
+    rupeesToPaise,
+} from "@/lib/money";
+import { compareSeasons, formatSeasonName } from "@/lib/cropYears";
+import { listSeasonBagRates } from "@/lib/seasonBagRates";
+import type { Season } from "@/types/cropYears";
+import type { MasterBagSize } from "@/types/masterBagSizes";
+import type { MasterRiceType } from "@/types/masterRiceTypes";
+import type { SeasonBagRateRatesBySize, SeasonCode } from "@/types/seasonBagRates";
+
+
+type AdjustmentMode = "none" | "percent" | "flat";
+
+type Adjustment = {
+    mode: AdjustmentMode;
+    value: string;
+};
+
+export type CopiedBagRates = {
+    items: Array<{ riceTypeCode: string; rates: SeasonBagRateRatesBySize }>;
+    missingRiceTypeCodes: string[];
+    sourceLabel: string;
+};
+
+function applyAdjustment(rate: number | null, adjustment: Adjustment): number | null {
+    if (rate === null) return null;
+    const paise = rupeesToPaise(rate);
+    let next = paise;
+    if (adjustment.mode === "percent") {
+        next = prorataPaise(paise, 100, 100 + (parsePercent(adjustment.value) ?? 0));
+    }
+    if (adjustment.mode === "flat") next = paise + (parseRupeesToPaise(adjustment.value) ?? 0);
+    return paiseToRupees(Math.max(0, next));
+}
+
+const NO_ADJUSTMENT: Adjustment = { mode: "none", value: "" };
+
+interface BagRatesCopyDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    cropYearStartYearOptions: number[];
+    cropYearLabelByStartYear: Map<number, string>;
+    seasonsByStartYear: Map<number, Season[]>;
+    targetCropYearStartYear: number | null;
+    targetSeasonCode: SeasonCode;
+    riceTypes: MasterRiceType[];
+    bagSizes: MasterBagSize[];
+    onApply: (copied: CopiedBagRates) => void;
+}
+
+export function BagRatesCopyDialog({
+    open,
+    onOpenChange,
+    cropYearStartYearOptions,
+    cropYearLabelByStartYear,
+    seasonsByStartYear,
+    targetCropYearStartYear,
+    targetSeasonCode,
+    riceTypes,
+    bagSizes,
+    onApply,
+}: BagRatesCopyDialogProps) {
+    const [sourceYear, setSourceYear] = React.useState<number | null>(null);
+    const [sourceSeason, setSourceSeason] = React.useState<SeasonCode>(targetSeasonCode);
+    const [adjustments, setAdjustments] = React.useState<Record<string, Adjustment>>({});
+
+    React.useEffect(() => {
+        if (!open) return;
+        setAdjustments({});
+        setSourceSeason(targetSeasonCode);
+        const previous = cropYearStartYearOptions.find(
+            (y) => typeof targetCropYearStartYear === "number" && y < targetCropYearStartYear
+        );
+        setSourceYear(previous ?? cropYearStartYearOptions[0] ?? null);
+    }, [open, cropYearStartYearOptions, targetCropYearStartYear, targetSeasonCode]);
+
+    const sourceSeasons = React.useMemo(() => {
+        const seasons = typeof sourceYear === "number" ? seasonsByStartYear.get(sourceYear) ?? [] : [];
+        return seasons.slice().sort(compareSeasons);
+    }, [seasonsByStartYear, sourceYear]);
+
+    React.useEffect(() => {
+        if (sourceSeasons.length === 0 || sourceSeasons.some((s) => s.code === sourceSeason)) return;
+        setSourceSeason(sourceSeasons[0].code);
+    }, [sourceSeason, sourceSeasons]);
+
+    const sourceQuery = useQuery({
+        enabled: open && typeof sourceYear === "number",
+        queryKey: ["seasonBagRates", sourceYear, sourceSeason],
+        queryFn: () =>
+            listSeasonBagRates({
+                cropYearStartYear: sourceYear as number,
+                seasonCode: sourceSeason,
+            }),
+    });
+
+    const isSameAsTarget = sourceYear === targetCropYearStartYear && sourceSeason === targetSeasonCode;
+
+    const preview = React.useMemo(() => {
+        const sourceByCode = new Map(
+            (sourceQuery.data?.data.items ?? []).map((i) => [i.riceType.code, i])
+        );
+        return riceTypes.map((rt) => {
+            const source = sourceByCode.get(rt.code);
+            const rates: SeasonBagRateRatesBySize = {};
+            for (const size of bagSizes) {
+                rates[size.code] = applyAdjustment(
+                    source?.rates[size.code] ?? null,
+                    adjustments[size.code] ?? NO_ADJUSTMENT
+                );
+            }
+            return {
+                riceType: rt,
+                isMissing: !source || bagSizes.every((size) => (source.rates[size.code] ?? null) === null),
+                sourceRates: source?.rates ?? null,
+                rates,
+            };
+        });
+    }, [adjustments, bagSizes, riceTypes, sourceQuery.data?.data.items]);
+
+    const missingCount = preview.filter((p) => p.isMissing).length;
+
+    const sourceLabel =
+        typeof sourceYear === "number"
+            ? `${cropYearLabelByStartYear.get(sourceYear) ?? sourceYear} · ${formatSeasonName(sourceSeason, sourceSeasons)}`
+            : "";
+
+    function setAdjustment(code: string, patch: Partial<Adjustment>) {
+        setAdjustments((prev) => ({ ...prev, [code]: { ...(prev[code] ?? NO_ADJUSTMENT), ...patch } }));
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-5xl w-[95vw]">
+                <DialogHeader>
+                    <DialogTitle>Copy bag rates</DialogTitle>
+                    <DialogDescription>
+                        Copy rates from another crop year and season, optionally adjusted per bag size. The result is
+                        loaded into the grid so you can review it before saving.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="max-h-[70vh] space-y-6 overflow-y-auto">
+                    <div className="grid gap-4 md:grid-cols-2">
+                        <Field>
+                            <FieldLabel>Source crop year</FieldLabel>
+                            <Select
+                                value={typeof sourceYear === "number" ? String(sourceYear) : ""}
+                                onValueChange={(v) => setSourceYear(v ? Number(v) : null)}
+                            >
+                                <SelectTrigger className="w-full">
+                                    <SelectValue placeholder="Select crop year" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectGroup>
+                                        {cropYearStartYearOptions.map((y) => (
+                                            <SelectItem key={y} value={String(y)}>
+                                                {cropYearLabelByStartYear.get(y) ?? String(y)}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectGroup>
+                                </SelectContent>
+                            </Select>
+                        </Field>
+                        <Field>
+                            <FieldLabel>Source season</FieldLabel>
+                            <Select
+                                value={sourceSeason}
+                                onValueChange={(v) => v && setSourceSeason(v)}
+                            >
+                                <SelectTrigger className="w-full">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectGroup>
+                                        {sourceSeasons.map((s) => (
+                                            <SelectItem key={s.code} value={s.code}>
+                                                {s.name}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectGroup>
+                                </SelectContent>
+                            </Select>
+                        </Field>
+                    </div>
+
+                    <div className="space-y-3">
+                        <div className="text-sm font-medium">Adjustments</div>
+                        <div className="grid gap-4 md:grid-cols-3">
+                            {bagSizes.map((size) => {
+                                const adjustment = adjustments[size.code] ?? NO_ADJUSTMENT;
+                                return (
+                                    <Field key={size.code}>
+                                        <FieldLabel>{formatBagSizeLabel(size)}</FieldLabel>
+                                        <Select
+                                            value={adjustment.mode}
+                                            onValueChange={(v) =>
+                                                setAdjustment(size.code, { mode: (v ?? "none") as AdjustmentMode })
+                                            }
+                                        >
+                                            <SelectTrigger className="w-full">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                <SelectGroup>
+                                                    <SelectItem value="none">No change</SelectItem>
+                                                    <SelectItem value="percent">Percentage</SelectItem>
+                                                    <SelectItem value="flat">Flat amount</SelectItem>
+                                                </SelectGroup>
+                                            </SelectContent>
+                                        </Select>
+                                        {adjustment.mode !== "none" ? (
+                                            <InputGroup>
+                                                <InputGroupAddon>
+                                                    {adjustment.mode === "percent" ? "%" : "₹"}
+                                                </InputGroupAddon>
+                                                <InputGroupInput
+                                                    inputMode="decimal"
+                                                    placeholder={adjustment.mode === "percent" ? "5" : "25.00"}
+                                                    value={adjustment.value}
+                                                    onChange={(e) => setAdjustment(size.code, { value: e.target.value })}
+                                                />
+                                            </InputGroup>
+                                        ) : null}
+                                    </Field>
+                                );
+                            })}
+                        </div>
+                        <FieldDescription>Use a negative value to lower rates.</FieldDescription>
+                    </div>
+
+                    {sourceQuery.isLoading ? (
+                        <div className="text-sm text-muted-foreground">Loading…</div>
+                    ) : sourceQuery.isError ? (
+                        <div className="text-sm text-destructive">
+                            {sourceQuery.error instanceof Error
+                                ? sourceQuery.error.message
+                                : "Failed to load bag rates."}
+                        </div>
+                    ) : (
+                        <div className="space-y-3">
+                            {missingCount > 0 ? (
+                                <div className="text-xs text-amber-700 dark:text-amber-400">
+                                    {missingCount} rice type{missingCount === 1 ? " has" : "s have"} no rates in{" "}
+                                    {sourceLabel}. Enter those rates manually after copying.
+                                </div>
+                            ) : null}
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="bg-muted hover:bg-muted dark:bg-muted/10">
+                                        <TableHead className="w-[200px]">Rice Type</TableHead>
+                                        {bagSizes.map((size) => (
+                                            <TableHead key={size.code}>{formatBagSizeLabel(size)} Rate</TableHead>
+                                        ))}
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {preview.map((row) => (
+                                        <TableRow key={row.riceType.code}>
+                                            <TableCell className="font-medium">
+                                                <div className="flex items-center gap-2">
+                                                    <span>{row.riceType.name}</span>
+                                                    {row.isMissing ? (
+                                                        <Badge variant="destructive">Not in source</Badge>
+                                                    ) : null}
+                                                </div>
+                                                <div className="text-[10px] text-muted-foreground uppercase">
+                                                    {row.riceType.code}
+                                                </div>
+                                            </TableCell>
+                                            {bagSizes.map((size) => {
+                                                const from = row.sourceRates?.[size.code] ?? null;
+                                                const to = row.rates[size.code] ?? null;
+                                                return (
+                                                    <TableCell key={size.code} className="text-xs">
+                                                        {to === null ? (
+                                                            <span className="text-muted-foreground">—</span>
+                                                        ) : from !== to ? (
+                                                            <span>
+                                                                <span className="text-muted-foreground">
+                                                                    {formatRupees(from ?? 0)}
+                                                                </span>{" "}
+                                                                → <span className="font-medium">{formatRupees(to)}</span>
+                                                            </span>
+                                                        ) : (
+                                                            <span>{formatRupees(to)}</span>
+                                                        )}
+                                                    </TableCell>
+                                                );
+                                            })}
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    )}
+                </div>
+
+                <DialogFooter>
+                    {isSameAsTarget ? (
+                        <div className="mr-auto text-xs text-muted-foreground">
+                            Source is the crop year and season being edited.
+                        </div>
+                    ) : null}
+                    <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        disabled={sourceQuery.isLoading || sourceQuery.isError || typeof sourceYear !== "number"}
+                        onClick={() =>
+                            onApply({
+                                items: preview.map((row) => ({
+                                    riceTypeCode: row.riceType.code,
+                                    rates: row.rates,
+                                })),
+                                missingRiceTypeCodes: preview
+                                    .filter((row) => row.isMissing)
+                                    .map((row) => row.riceType.code),
+                                sourceLabel,
+                            })
+                        }
+                    >
+                        Copy to grid
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,95 @@
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { formatBagSizeLabel, formatRupees, paiseToRupees, parseRupeesToPaise } from "@/lib/money";
+import { findPerKgInconsistencies } from "@/lib/seasonBagRates";
+import type { MasterBagSize } from "@/types/masterBagSizes";
+import type { MasterRiceType } from "@/types/masterRiceTypes";
+import type { SeasonBagRateRatesBySize } from "@/types/seasonBagRates";
+
+export type DerivedRateUnit = "kg" | "quintal";
+
+const KG_PER_QUINTAL = 100;
+
+interface BagRatesDerivedTableProps {
+    unit: DerivedRateUnit;
+    riceTypes: MasterRiceType[];
+    bagSizes: MasterBagSize[];
+    rates: Record<string, Record<string, string>>;
+}
+
+export function BagRatesDerivedTable({ unit, riceTypes, bagSizes, rates }: BagRatesDerivedTableProps) {
+    const multiplier = unit === "quintal" ? KG_PER_QUINTAL : 1;
+    const sizeByCode = new Map(bagSizes.map((size) => [size.code, size]));
+
+    return (
+        <Table>
+            <TableHeader>
+                <TableRow className="bg-muted hover:bg-muted dark:bg-muted/10">
+                    <TableHead className="w-[200px]">Rice Type</TableHead>
+                    {bagSizes.map((size) => (
+                        <TableHead key={size.code}>
+                            {formatBagSizeLabel(size)} · ₹/{unit === "quintal" ? "qtl" : "kg"}
+                        </TableHead>
+                    ))}
+                </TableRow>
+            </TableHeader>
+            <TableBody>
+                {riceTypes.map((rt) => {
+                    const numeric: SeasonBagRateRatesBySize = {};
+                    for (const size of bagSizes) {
+                        const paise = parseRupeesToPaise(rates[rt.code]?.[size.code] ?? "");
+                        numeric[size.code] = paise === null ? null : paiseToRupees(paise);
+                    }
+                    const issues = new Map(
+                        findPerKgInconsistencies(numeric, bagSizes).map((issue) => [issue.bagSize, issue])
+                    );
+
+                    return (
+                        <TableRow key={rt.code}>
+                            <TableCell className="font-medium">
+                                <div className="flex items-center gap-2">
+                                    <span>{rt.name}</span>
+                                    {issues.size > 0 ? <Badge variant="destructive">Inconsistent</Badge> : null}
+                                </div>
+                                <div className="text-[10px] text-muted-foreground uppercase">{rt.code}</div>
+                            </TableCell>
+                            {bagSizes.map((size) => {
+                                const rate = numeric[size.code];
+                                const issue = issues.get(size.code);
+                                const reference = issue ? sizeByCode.get(issue.referenceBagSize) : undefined;
+                                return (
+                                    <TableCell
+                                        key={size.code}
+                                        className={cn(issue ? "bg-red-50 dark:bg-red-950/20" : null)}
+                                    >
+                                        {typeof rate === "number" && size.weightKg > 0 ? (
+                                            <div className="space-y-0.5">
+                                                <div>{formatRupees((rate / size.weightKg) * multiplier)}</div>
+                                                {issue && reference ? (
+                                                    <div className="text-[11px] text-destructive">
+                                                        Cheaper per kg than {formatBagSizeLabel(reference)} (
+                                                        {formatRupees(issue.referencePerKg * multiplier)})
+                                                    </div>
+                                                ) : null}
+                                            </div>
+                                        ) : (
+                                            <span className="text-muted-foreground">—</span>
+                                        )}
+                                    </TableCell>
+                                );
+                            })}
+                        </TableRow>
+                    );
+                })}
+            </TableBody>
+        </Table>
+    );
+}
@@ -0,0 +1,373 @@
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import {
+    Select,
+    SelectContent,
+    SelectGroup,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Field, FieldLabel } from "@/components/ui/field";
+import { InputGroup, InputGroupInput } from "@/components/ui/input-group";
+import { cn } from "@/lib/utils";
+import { formatBagSizeLabel, formatRupees } from "@/lib/money";
+import { diffSeasonBagRates, listSeasonBagRateRevisions } from "@/lib/seasonBagRates";
+import type { MasterBagSize } from "@/types/masterBagSizes";
+import type { SeasonBagRateRevision, SeasonCode } from "@/types/seasonBagRates";
+
+function formatDate(value: string): string {
+    const d = new Date(value);
+    if (Number.isNaN(d.getTime())) return value;
+    return d.toLocaleDateString(undefined, { day: "2-digit", month: "short", year: "numeric" });
+}
+
+function formatDateTime(value: string): string {
+    const d = new Date(value);
+    if (Number.isNaN(d.getTime())) return value;
+    return d.toLocaleString(undefined, {
+        day: "2-digit",
+        month: "short",
+        year: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+}
+
+function formatAuthor(revision: SeasonBagRateRevision): string {
+    const author = revision.createdBy;
+    if (!author) return "—";
+    const name = `${author.firstName ?? ""} ${author.lastName ?? ""}`.trim();
+    return name || author.email;
+}
+
+interface BagRatesHistoryDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    cropYearStartYear: number | null;
+    cropYearLabel: string;
+    seasonCode: SeasonCode;
+    seasonName: string;
+    bagSizes: MasterBagSize[];
+    defaultEffectiveFrom: string;
+    onRestore: (revision: SeasonBagRateRevision, effectiveFrom: string, note: string) => void;
+    isRestoring: boolean;
+    readOnly?: boolean;
+}
+
+export function BagRatesHistoryDialog({
+    open,
+    onOpenChange,
+    cropYearStartYear,
+    cropYearLabel,
+    seasonCode,
+    seasonName,
+    bagSizes,
+    defaultEffectiveFrom,
+    onRestore,
+    isRestoring,
+    readOnly = false,
+}: BagRatesHistoryDialogProps) {
+    const [compareFromId, setCompareFromId] = React.useState("");
+    const [compareToId, setCompareToId] = React.useState("");
+    const [restoreTarget, setRestoreTarget] = React.useState<SeasonBagRateRevision | null>(null);
+    const [restoreEffectiveFrom, setRestoreEffectiveFrom] = React.useState(defaultEffectiveFrom);
+    const [restoreNote, setRestoreNote] = React.useState("");
+
+    const revisionsQuery = useQuery({
+        enabled: open && typeof cropYearStartYear === "number",
+        queryKey: ["seasonBagRateRevisions", cropYearStartYear, seasonCode],
+        queryFn: () =>
+            listSeasonBagRateRevisions({
+                cropYearStartYear: cropYearStartYear as number,
+                seasonCode,
+            }),
+    });
+
+    const revisions = React.useMemo(() => {
+        const items = revisionsQuery.data?.data.items ?? [];
+        return items.slice().sort((a, b) => b.version - a.version);
+    }, [revisionsQuery.data?.data.items]);
+
+    React.useEffect(() => {
+        if (!open) {
+            setCompareFromId("");
+            setCompareToId("");
+            setRestoreTarget(null);
+            setRestoreNote("");
+            setRestoreEffectiveFrom(defaultEffectiveFrom);
+        }
+    }, [open, defaultEffectiveFrom]);
+
+    React.useEffect(() => {
+        if (compareToId || revisions.length === 0) return;
+        setCompareToId(revisions[0].id);
+        setCompareFromId(revisions[1]?.id ?? revisions[0].id);
+    }, [compareToId, revisions]);
+
+    const compareFrom = revisions.find((r) => r.id === compareFromId) ?? null;
+    const compareTo = revisions.find((r) => r.id === compareToId) ?? null;
+
+    const diffRows = React.useMemo(() => {
+        if (!compareFrom || !compareTo) return [];
+        return diffSeasonBagRates(
+            compareFrom.items,
+            compareTo.items,
+            bagSizes.map((size) => size.code)
+        );
+    }, [bagSizes, compareFrom, compareTo]);
+
+    const changedCount = diffRows.reduce(
+        (sum, row) => sum + row.cells.filter((c) => c.changed).length,
+        0
+    );
+
+    function revisionLabel(r: SeasonBagRateRevision) {
+        return `v${r.version} · effective ${formatDate(r.effectiveFrom)}`;
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-5xl w-[95vw]">
+                <DialogHeader>
+                    <DialogTitle>Bag rate history</DialogTitle>
+                    <DialogDescription>
+                        Every save creates a revision for {cropYearLabel} · {seasonName}. Restoring a revision
+                        saves its rates as a new revision.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {revisionsQuery.isLoading ? (
+                    <div className="text-sm text-muted-foreground">Loading…</div>
+                ) : revisionsQuery.isError ? (
+                    <div className="text-sm text-destructive">
+                        {revisionsQuery.error instanceof Error
+                            ? revisionsQuery.error.message
+                            : "Failed to load history."}
+                    </div>
+                ) : revisions.length === 0 ? (
+                    <div className="text-sm text-muted-foreground">No revisions saved yet.</div>
+                ) : (
+                    <div className="max-h-[70vh] space-y-6 overflow-y-auto">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-[80px]">Version</TableHead>
+                                    <TableHead>Effective from</TableHead>
+                                    <TableHead>Saved by</TableHead>
+                                    <TableHead>Saved at</TableHead>
+                                    <TableHead>Note</TableHead>
+                                    <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {revisions.map((r, index) => (
+                                    <TableRow key={r.id}>
+                                        <TableCell>
+                                            <div className="flex items-center gap-2">
+                                                <span className="font-medium">v{r.version}</span>
+                                                {index === 0 ? <Badge>Latest</Badge> : null}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>{formatDate(r.effectiveFrom)}</TableCell>
+                                        <TableCell className="max-w-[200px] truncate">{formatAuthor(r)}</TableCell>
+                                        <TableCell className="text-xs text-muted-foreground">
+                                            {formatDateTime(r.createdAt)}
+                                        </TableCell>
+                                        <TableCell className="max-w-[240px] truncate text-xs">
+                                            {r.note || <span className="text-muted-foreground">—</span>}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            <Button
+                                                type="button"
+                                                variant="outline"
+                                                size="sm"
+                                                disabled={index === 0 || isRestoring || readOnly}
+                                                onClick={() => setRestoreTarget(r)}
+                                            >
+                                                Restore
+                                            </Button>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+
+                        {restoreTarget ? (
+                            <div className="space-y-3 rounded-md border border-border p-4">
+                                <div>
+                                    <div className="text-sm font-medium">Restore v{restoreTarget.version}</div>
+                                    <div className="text-xs text-muted-foreground">
+                                        The rates are saved as a draft and published once another admin approves
+                                        them.
+                                    </div>
+                                </div>
+                                <div className="grid gap-4 md:grid-cols-2">
+                                    <Field>
+                                        <FieldLabel htmlFor="restoreEffectiveFrom">Effective from</FieldLabel>
+                                        <InputGroup>
+                                            <InputGroupInput
+                                                id="restoreEffectiveFrom"
+                                                type="date"
+                                                value={restoreEffectiveFrom}
+                                                onChange={(e) => setRestoreEffectiveFrom(e.target.value)}
+                                            />
+                                        </InputGroup>
+                                    </Field>
+                                    <Field>
+                                        <FieldLabel htmlFor="restoreNote">Note</FieldLabel>
+                                        <InputGroup>
+                                            <InputGroupInput
+                                                id="restoreNote"
+                                                placeholder={`Restored from v${restoreTarget.version}`}
+                                                value={restoreNote}
+                                                onChange={(e) => setRestoreNote(e.target.value)}
+                                            />
+                                        </InputGroup>
+                                    </Field>
+                                </div>
+                                <div className="flex justify-end gap-2">
+                                    <Button type="button" variant="outline" onClick={() => setRestoreTarget(null)}>
+                                        Cancel
+                                    </Button>
+                                    <Button
+                                        type="button"
+                                        disabled={isRestoring || !restoreEffectiveFrom}
+                                        onClick={() =>
+                                            onRestore(
+                                                restoreTarget,
+                                                restoreEffectiveFrom,
+                                                restoreNote.trim() || `Restored from v${restoreTarget.version}`
+                                            )
+                                        }
+                                    >
+                                        {isRestoring ? "Saving…" : "Restore as draft"}
+                                    </Button>
+                                </div>
+                            </div>
+                        ) : null}
+
+                        <div className="space-y-3">
+                            <div className="text-sm font-medium">Compare revisions</div>
+                            <div className="grid gap-4 md:grid-cols-2">
+                                <Field>
+                                    <FieldLabel>From</FieldLabel>
+                                    <Select value={compareFromId} onValueChange={(v) => setCompareFromId(v ?? "")}>
+                                        <SelectTrigger className="w-full">
+                                            <SelectValue placeholder="Select revision" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectGroup>
+                                                {revisions.map((r) => (
+                                                    <SelectItem key={r.id} value={r.id}>
+                                                        {revisionLabel(r)}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectGroup>
+                                        </SelectContent>
+                                    </Select>
+                                </Field>
+                                <Field>
+                                    <FieldLabel>To</FieldLabel>
+                                    <Select value={compareToId} onValueChange={(v) => setCompareToId(v ?? "")}>
+                                        <SelectTrigger className="w-full">
+                                            <SelectValue placeholder="Select revision" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectGroup>
+                                                {revisions.map((r) => (
+                                                    <SelectItem key={r.id} value={r.id}>
+                                                        {revisionLabel(r)}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectGroup>
+                                        </SelectContent>
+                                    </Select>
+                                </Field>
+                            </div>
+
+                            {compareFrom && compareTo ? (
+                                <>
+                                    <div className="text-xs text-muted-foreground">
+                                        {changedCount === 0
+                                            ? "No differences."
+                                            : `${changedCount} rate${changedCount === 1 ? "" : "s"} changed.`}
+                                    </div>
+                                    <Table>
+                                        <TableHeader>
+                                            <TableRow className="bg-muted hover:bg-muted dark:bg-muted/10">
+                                                <TableHead className="w-[200px]">Rice Type</TableHead>
+                                                {bagSizes.map((size) => (
+                                                    <TableHead key={size.code}>{formatBagSizeLabel(size)} Rate</TableHead>
+                                                ))}
+                                            </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                            {diffRows.map((row) => (
+                                                <TableRow key={row.riceTypeCode}>
+                                                    <TableCell className="font-medium">
+                                                        <div>{row.riceTypeName}</div>
+                                                        <div className="text-[10px] text-muted-foreground uppercase">
+                                                            {row.riceTypeCode}
+                                                        </div>
+                                                    </TableCell>
+                                                    {row.cells.map((cell) => (
+                                                        <TableCell
+                                                            key={cell.bagSize}
+                                                            className={cn(
+                                                                "text-xs",
+                                                                cell.changed
+                                                                    ? "bg-amber-50 dark:bg-amber-950/20"
+                                                                    : "text-muted-foreground"
+                                                            )}
+                                                        >
+                                                            {cell.changed ? (
+                                                                <span>
+                                                                    <span className="line-through opacity-60">
+                                                                        {formatRupees(cell.from)}
+                                                                    </span>{" "}
+                                                                    → <span className="font-medium">{formatRupees(cell.to)}</span>
+                                                                </span>
+                                                            ) : (
+                                                                formatRupees(cell.to)
+                                                            )}
+                                                        </TableCell>
+                                                    ))}
+                                                </TableRow>
+                                            ))}
+                                        </TableBody>
+                                    </Table>
+                                </>
+                            ) : null}
+                        </div>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                        Close
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,350 @@
+import * as React from "react";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Field, FieldDescription, FieldError, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { formatBagSizeLabel, formatRupees, paiseToRupees, parseRupeesToPaise } from "@/lib/money";
+import { readSpreadsheetFile, type SpreadsheetRow } from "@/lib/spreadsheet";
+import type { MasterBagSize } from "@/types/masterBagSizes";
+import type { MasterRiceType } from "@/types/masterRiceTypes";
+import {
+    UpsertSeasonBagRateItemSchema,
+    UpsertSeasonBagRatesRequestSchema,
+    type SeasonBagRateRatesBySize,
+    type SeasonCode,
+    type UpsertSeasonBagRateItem,
+} from "@/types/seasonBagRates";
+
+type CurrentRates = Record<string, SeasonBagRateRatesBySize>;
+
+type ImportedRow = {
+    line: number;
+    riceTypeCode: string;
+    riceTypeName: string;
+    rates: SeasonBagRateRatesBySize;
+    errors: string[];
+};
+
+function normalizeHeader(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function findColumn(header: string[], candidates: string[]): number {
+    const normalized = header.map(normalizeHeader);
+    return normalized.findIndex((h) => candidates.includes(h));
+}
+
+function bagSizeHeaderCandidates(size: MasterBagSize): string[] {
+    const kg = normalizeHeader(String(size.weightKg));
+    return [normalizeHeader(size.code), `${kg}kg`, `${kg}kgrate`, `rate${kg}kg`];
+}
+
+function parseImportedRows(
+    rows: SpreadsheetRow[],
+    riceTypes: MasterRiceType[],
+    bagSizes: MasterBagSize[]
+): ImportedRow[] {
+    const [header, ...body] = rows;
+    if (!header) throw new Error("The file is empty.");
+
+    const codeCol = findColumn(header, ["ricetypecode", "code"]);
+    if (codeCol < 0) throw new Error("Missing a \"Rice type code\" column.");
+    const nameCol = findColumn(header, ["ricetypename", "ricetype", "name"]);
+
+    const sizeCols: Record<string, number> = {};
+    for (const size of bagSizes) {
+        const col = findColumn(header, bagSizeHeaderCandidates(size));
+        if (col < 0) throw new Error(`Missing a "${formatBagSizeLabel(size)}" column.`);
+        sizeCols[size.code] = col;
+    }
+    const sizeByCode = new Map(bagSizes.map((size) => [size.code, size]));
+
+    const activeByCode = new Map(riceTypes.map((rt) => [rt.code, rt]));
+    const seen = new Set<string>();
+
+    return body.map((cells, index) => {
+        const errors: string[] = [];
+        const riceTypeCode = (cells[codeCol] ?? "").trim().toUpperCase();
+        const riceType = activeByCode.get(riceTypeCode);
+
+        if (!riceTypeCode) {
+            errors.push("Rice type code is missing.");
+        } else if (!riceType) {
+            errors.push(`${riceTypeCode} is not an active rice type.`);
+        } else if (seen.has(riceTypeCode)) {
+            errors.push(`${riceTypeCode} appears more than once.`);
+        }
+        seen.add(riceTypeCode);
+
+        const rates: SeasonBagRateRatesBySize = {};
+        for (const size of bagSizes) {
+            const raw = (cells[sizeCols[size.code]] ?? "").trim();
+            const paise = parseRupeesToPaise(raw);
+            rates[size.code] = !raw ? null : paise === null ? NaN : paiseToRupees(paise);
+        }
+
+        const item = UpsertSeasonBagRateItemSchema.safeParse({ riceTypeCode, rates });
+        if (!item.success) {
+            for (const issue of item.error.issues) {
+                const size = typeof issue.path[1] === "string" ? sizeByCode.get(issue.path[1]) : undefined;
+                if (size) {
+                    const label = formatBagSizeLabel(size);
+                    errors.push(rates[size.code] === null ? `Enter a ${label} rate.` : `Enter a valid ${label} rate.`);
+                }
+            }
+        }
+
+        return {
+            line: index + 2,
+            riceTypeCode,
+            riceTypeName: riceType?.name ?? (nameCol >= 0 ? cells[nameCol] ?? "" : ""),
+            rates,
+            errors,
+        };
+    });
+}
+
+interface BagRatesImportDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    riceTypes: MasterRiceType[];
+    bagSizes: MasterBagSize[];
+    currentRates: CurrentRates;
+    cropYearStartYear: number | null;
+    seasonCode: SeasonCode;
+    effectiveFrom: string;
+    onImport: (rates: UpsertSeasonBagRateItem[], fileName: string) => void;
+    isSaving: boolean;
+}
+
+export function BagRatesImportDialog({
+    open,
+    onOpenChange,
+    riceTypes,
+    bagSizes,
+    currentRates,
+    cropYearStartYear,
+    seasonCode,
+    effectiveFrom,
+    onImport,
+    isSaving,
+}: BagRatesImportDialogProps) {
+    const [fileName, setFileName] = React.useState("");
+    const [rows, setRows] = React.useState<ImportedRow[]>([]);
+    const [fileError, setFileError] = React.useState<string | null>(null);
+    const [isReading, setIsReading] = React.useState(false);
+
+    React.useEffect(() => {
+        if (!open) {
+            setFileName("");
+            setRows([]);
+            setFileError(null);
+        }
+    }, [open]);
+
+    async function onFileChange(file: File | undefined) {
+        setRows([]);
+        setFileError(null);
+        if (!file) {
+            setFileName("");
+            return;
+        }
+        setFileName(file.name);
+        setIsReading(true);
+        try {
+            const parsed = parseImportedRows(await readSpreadsheetFile(file), riceTypes, bagSizes);
+            if (parsed.length === 0) throw new Error("The file has no rate rows.");
+            setRows(parsed);
+        } catch (err) {
+            setFileError(err instanceof Error ? err.message : "Failed to read the file.");
+        } finally {
+            setIsReading(false);
+        }
+    }
+
+    const invalidCount = rows.filter((r) => r.errors.length > 0).length;
+
+    const importedCodes = new Set(rows.map((r) => r.riceTypeCode));
+    const notInFile = riceTypes.filter((rt) => !importedCodes.has(rt.code));
+    const notInFileWithoutRates = notInFile.filter((rt) =>
+        bagSizes.some((size) => currentRates[rt.code]?.[size.code] == null)
+    );
+
+    const changedCount = rows.reduce(
+        (sum, r) =>
+            sum +
+            bagSizes.filter(
+                (size) => (currentRates[r.riceTypeCode]?.[size.code] ?? null) !== (r.rates[size.code] ?? null)
+            ).length,
+        0
+    );
+
+    function buildPayloadRates(): UpsertSeasonBagRateItem[] {
+        const byCode = new Map(rows.map((r) => [r.riceTypeCode, r.rates]));
+        return riceTypes.map((rt) => {
+            const rates = byCode.get(rt.code) ?? currentRates[rt.code];
+            return {
+                riceTypeCode: rt.code,
+                rates: Object.fromEntries(bagSizes.map((size) => [size.code, rates?.[size.code] ?? NaN])),
+            };
+        });
+    }
+
+    const canSave =
+        rows.length > 0 &&
+        invalidCount === 0 &&
+        notInFileWithoutRates.length === 0 &&
+        typeof cropYearStartYear === "number" &&
+        UpsertSeasonBagRatesRequestSchema.safeParse({
+            cropYearStartYear,
+            seasonCode,
+            rates: buildPayloadRates(),
+            effectiveFrom,
+        }).success;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-5xl w-[95vw]">
+                <DialogHeader>
+                    <DialogTitle>Import bag rates</DialogTitle>
+                    <DialogDescription>
+                        Upload a CSV or Excel file with rice type code and one column per bag size. Use Export to get a
+                        file in the expected layout.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="max-h-[70vh] space-y-4 overflow-y-auto">
+                    <Field>
+                        <FieldLabel htmlFor="bagRatesImportFile">File</FieldLabel>
+                        <Input
+                            id="bagRatesImportFile"
+                            type="file"
+                            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                            disabled={isReading || isSaving}
+                            onChange={(e) => void onFileChange(e.target.files?.[0])}
+                        />
+                        {fileError ? <FieldError>{fileError}</FieldError> : null}
+                        {isReading ? <FieldDescription>Reading {fileName}…</FieldDescription> : null}
+                    </Field>
+
+                    {rows.length > 0 ? (
+                        <div className="space-y-3">
+                            <div className="text-xs text-muted-foreground">
+                                {rows.length} row{rows.length === 1 ? "" : "s"} read · {changedCount} rate
+                                {changedCount === 1 ? "" : "s"} will change
+                                {invalidCount > 0 ? ` · ${invalidCount} row(s) need fixing` : ""}
+                            </div>
+                            {notInFile.length > 0 ? (
+                                <div
+                                    className={cn(
+                                        "text-xs",
+                                        notInFileWithoutRates.length > 0
+                                            ? "text-destructive"
+                                            : "text-muted-foreground"
+                                    )}
+                                >
+                                    Not in file: {notInFile.map((rt) => rt.code).join(", ")}.{" "}
+                                    {notInFileWithoutRates.length > 0
+                                        ? "Add these rice types to the file; they have no saved rates."
+                                        : "Their saved rates are kept."}
+                                </div>
+                            ) : null}
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="bg-muted hover:bg-muted dark:bg-muted/10">
+                                        <TableHead className="w-[60px]">Row</TableHead>
+                                        <TableHead className="w-[200px]">Rice Type</TableHead>
+                                        {bagSizes.map((size) => (
+                                            <TableHead key={size.code}>{formatBagSizeLabel(size)} Rate</TableHead>
+                                        ))}
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {rows.map((row) => (
+                                        <TableRow key={row.line}>
+                                            <TableCell className="text-xs text-muted-foreground">{row.line}</TableCell>
+                                            <TableCell className="font-medium">
+                                                <div className="flex items-center gap-2">
+                                                    <span>{row.riceTypeName || row.riceTypeCode || "—"}</span>
+                                                    {row.errors.length > 0 ? (
+                                                        <Badge variant="destructive">Invalid</Badge>
+                                                    ) : null}
+                                                </div>
+                                                <div className="text-[10px] text-muted-foreground uppercase">
+                                                    {row.riceTypeCode}
+                                                </div>
+                                                {row.errors.map((e) => (
+                                                    <div key={e} className="text-[11px] font-normal text-destructive">
+                                                        {e}
+                                                    </div>
+                                                ))}
+                                            </TableCell>
+                                            {bagSizes.map((size) => {
+                                                const from = currentRates[row.riceTypeCode]?.[size.code] ?? null;
+                                                const to = row.rates[size.code] ?? null;
+                                                const changed = from !== to;
+                                                return (
+                                                    <TableCell
+                                                        key={size.code}
+                                                        className={cn(
+                                                            "text-xs",
+                                                            changed && row.errors.length === 0
+                                                                ? "bg-amber-50 dark:bg-amber-950/20"
+                                                                : null
+                                                        )}
+                                                    >
+                                                        {changed ? (
+                                                            <span>
+                                                                <span className="line-through opacity-60">
+                                                                    {formatRupees(from)}
+                                                                </span>{" "}
+                                                                → <span className="font-medium">{formatRupees(to)}</span>
+                                                            </span>
+                                                        ) : (
+                                                            <span className="text-muted-foreground">{formatRupees(to)}</span>
+                                                        )}
+                                                    </TableCell>
+                                                );
+                                            })}
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    ) : null}
+                </div>
+
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        disabled={!canSave || isSaving}
+                        onClick={() => onImport(buildPayloadRates(), fileName)}
+                    >
+                        {isSaving ? "Saving…" : "Save imported rates"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -41,8 +41,8 @@ export function BagRatesResetDialog({
                 <DialogHeader>
                     <DialogTitle>Reset bag rates?</DialogTitle>
                     <DialogDescription>
-                        This will set all bag rates to 0.00 for the selected crop year and season. This is
-                        an admin-only action.
+                        This will save a draft with all bag rates set to 0.00 for the selected crop year and
+                        season. The published rates stay in effect until another admin approves the draft.
                     </DialogDescription>
                 </DialogHeader>
 
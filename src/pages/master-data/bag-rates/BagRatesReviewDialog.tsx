@@ -0,0 +1,223 @@
+import * as React from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Field, FieldDescription, FieldLabel } from "@/components/ui/field";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { cn } from "@/lib/utils";
+import { formatBagSizeLabel, formatRupees } from "@/lib/money";
+import { diffSeasonBagRates } from "@/lib/seasonBagRates";
+import type { MasterBagSize } from "@/types/masterBagSizes";
+import type {
+    SeasonBagRate,
+    SeasonBagRateDraft,
+    SeasonBagRateRevisionAuthor,
+} from "@/types/seasonBagRates";
+
+function formatAuthor(author: SeasonBagRateRevisionAuthor | null): string {
+    if (!author) return "—";
+    const name = `${author.firstName ?? ""} ${author.lastName ?? ""}`.trim();
+    return name || author.email;
+}
+
+function formatDate(value: string): string {
+    const d = new Date(value);
+    if (Number.isNaN(d.getTime())) return value;
+    return d.toLocaleDateString(undefined, { day: "2-digit", month: "short", year: "numeric" });
+}
+
+interface BagRatesReviewDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    draft: SeasonBagRateDraft | null;
+    publishedItems: SeasonBagRate[];
+    bagSizes: MasterBagSize[];
+    blockedReason: string | null;
+    onApprove: (comment: string) => void;
+    onReject: (comment: string) => void;
+    isApproving: boolean;
+    isRejecting: boolean;
+}
+
+export function BagRatesReviewDialog({
+    open,
+    onOpenChange,
+    draft,
+    publishedItems,
+    bagSizes,
+    blockedReason,
+    onApprove,
+    onReject,
+    isApproving,
+    isRejecting,
+}: BagRatesReviewDialogProps) {
+    const [comment, setComment] = React.useState("");
+    const [changedOnly, setChangedOnly] = React.useState(true);
+
+    React.useEffect(() => {
+        if (!open) {
+            setComment("");
+            setChangedOnly(true);
+        }
+    }, [open]);
+
+    const diffRows = React.useMemo(() => {
+        if (!draft) return [];
+        return diffSeasonBagRates(
+            publishedItems,
+            draft.items,
+            bagSizes.map((size) => size.code)
+        );
+    }, [bagSizes, draft, publishedItems]);
+
+    const changedCount = diffRows.reduce(
+        (sum, row) => sum + row.cells.filter((c) => c.changed).length,
+        0
+    );
+    const visibleRows = changedOnly ? diffRows.filter((row) => row.cells.some((c) => c.changed)) : diffRows;
+    const isBusy = isApproving || isRejecting;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="sm:max-w-5xl w-[95vw]">
+                <DialogHeader>
+                    <DialogTitle>Review bag rate draft</DialogTitle>
+                    <DialogDescription>
+                        Compare the draft with the published rates. Approving publishes the draft; rejecting sends
+                        it back with your comment.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {draft ? (
+                    <div className="max-h-[70vh] space-y-4 overflow-y-auto">
+                        <div className="grid gap-2 text-sm md:grid-cols-3">
+                            <div>
+                                <div className="text-xs text-muted-foreground">Submitted by</div>
+                                <div>{formatAuthor(draft.submittedBy)}</div>
+                            </div>
+                            <div>
+                                <div className="text-xs text-muted-foreground">Effective from</div>
+                                <div>{formatDate(draft.effectiveFrom)}</div>
+                            </div>
+                            <div>
+                                <div className="text-xs text-muted-foreground">Note</div>
+                                <div>{draft.note || "—"}</div>
+                            </div>
+                        </div>
+
+                        <div className="flex items-center justify-between gap-3">
+                            <div className="text-xs text-muted-foreground">
+                                {changedCount === 0
+                                    ? "The draft matches the published rates."
+                                    : `${changedCount} rate${changedCount === 1 ? "" : "s"} changed.`}
+                            </div>
+                            <label className="flex items-center gap-2 text-sm">
+                                <Checkbox checked={changedOnly} onCheckedChange={(v) => setChangedOnly(Boolean(v))} />
+                                <span>Changed rows only</span>
+                            </label>
+                        </div>
+
+                        {visibleRows.length > 0 ? (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow className="bg-muted hover:bg-muted dark:bg-muted/10">
+                                        <TableHead className="w-[200px]">Rice Type</TableHead>
+                                        {bagSizes.map((size) => (
+                                            <TableHead key={size.code}>{formatBagSizeLabel(size)} Rate</TableHead>
+                                        ))}
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {visibleRows.map((row) => (
+                                        <TableRow key={row.riceTypeCode}>
+                                            <TableCell className="font-medium">
+                                                <div>{row.riceTypeName}</div>
+                                                <div className="text-[10px] text-muted-foreground uppercase">
+                                                    {row.riceTypeCode}
+                                                </div>
+                                            </TableCell>
+                                            {row.cells.map((cell) => (
+                                                <TableCell
+                                                    key={cell.bagSize}
+                                                    className={cn(
+                                                        "text-xs",
+                                                        cell.changed
+                                                            ? "bg-amber-50 dark:bg-amber-950/20"
+                                                            : "text-muted-foreground"
+                                                    )}
+                                                >
+                                                    {cell.changed ? (
+                                                        <span>
+                                                            <span className="line-through opacity-60">
+                                                                {formatRupees(cell.from)}
+                                                            </span>{" "}
+                                                            → <span className="font-medium">{formatRupees(cell.to)}</span>
+                                                        </span>
+                                                    ) : (
+                                                        formatRupees(cell.to)
+                                                    )}
+                                                </TableCell>
+                                            ))}
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        ) : null}
+
+                        <Field>
+                            <FieldLabel htmlFor="bagRatesReviewComment">Comment</FieldLabel>
+                            <Textarea
+                                id="bagRatesReviewComment"
+                                rows={3}
+                                placeholder="Required when rejecting"
+                                value={comment}
+                                disabled={Boolean(blockedReason)}
+                                onChange={(e) => setComment(e.target.value)}
+                            />
+                            {blockedReason ? <FieldDescription>{blockedReason}</FieldDescription> : null}
+                        </Field>
+                    </div>
+                ) : (
+                    <div className="text-sm text-muted-foreground">No draft is waiting for approval.</div>
+                )}
+
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="destructive"
+                        disabled={!draft || Boolean(blockedReason) || isBusy || !comment.trim()}
+                        onClick={() => onReject(comment.trim())}
+                    >
+                        {isRejecting ? "Rejecting…" : "Reject"}
+                    </Button>
+                    <Button
+                        type="button"
+                        disabled={!draft || Boolean(blockedReason) || isBusy}
+                        onClick={() => onApprove(comment.trim())}
+                    >
+                        {isApproving ? "Publishing…" : "Approve and publish"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
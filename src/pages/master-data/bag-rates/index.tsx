@@ -1,7 +1,8 @@
 import * as React from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
-import { Button } from "@/components/ui/button";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Table,
@@ -19,6 +20,8 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Field,
   FieldDescription,
@@ -30,47 +33,145 @@ import {
   InputGroupAddon,
   InputGroupInput,
 } from "@/components/ui/input-group";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 
 import { useUiStore } from "@/store";
-import { listCropYears } from "@/lib/cropYears";
+import { useAuth } from "@/context/AuthContext";
+import {
+  compareSeasons,
+  findCurrentCropYear,
+  formatSeasonName,
+  isCropYearReadOnly,
+  listCropYears,
+} from "@/lib/cropYears";
+import { listMasterBagSizes } from "@/lib/masterBagSizes";
 import { listMasterRiceTypes } from "@/lib/masterRiceTypes";
 import {
+  approveSeasonBagRateDraft,
+  discardSeasonBagRateDraft,
+  findPerKgInconsistencies,
+  getSeasonBagRateDraft,
   listSeasonBagRates,
-  resetSeasonBagRates,
-  upsertSeasonBagRates,
+  rejectSeasonBagRateDraft,
+  saveSeasonBagRateDraft,
+  submitSeasonBagRateDraft,
 } from "@/lib/seasonBagRates";
-import { formatBagSizeLabel, toNumberOrNull } from "@/lib/money";
-import type { CropYear } from "@/types/cropYears";
-import type { BagSize, SeasonCode } from "@/types/seasonBagRates";
+import {
+  formatBagSizeLabel,
+  paiseToInputValue,
+  paiseToRupees,
+  parseRupeesToPaise,
+  prorataPaise,
+  rupeesToPaise,
+} from "@/lib/money";
+import { BUILT_IN_SEASON_CODES, type CropYear, type Season } from "@/types/cropYears";
+import type { MasterBagSize } from "@/types/masterBagSizes";
+import { downloadSpreadsheet, type SpreadsheetFormat } from "@/lib/spreadsheet";
+import type {
+  SeasonBagRate,
+  SeasonBagRateDraft,
+  SeasonBagRateRatesBySize,
+  SeasonBagRateRevision,
+  SeasonBagRateRevisionAuthor,
+  SeasonCode,
+  UpsertSeasonBagRateItem,
+} from "@/types/seasonBagRates";
 
 import { BagRatesResetDialog } from "./BagRatesResetDialog";
+import { BagRatesHistoryDialog } from "./BagRatesHistoryDialog";
+import { BagRatesCopyDialog, type CopiedBagRates } from "./BagRatesCopyDialog";
+import { BagRatesImportDialog } from "./BagRatesImportDialog";
+import { BagRatesReviewDialog } from "./BagRatesReviewDialog";
+import { BagRatesDerivedTable } from "./BagRatesDerivedTable";
 
-const BAG_SIZES: BagSize[] = ["KG_40", "KG_75", "KG_100"];
-const SEASONS: SeasonCode[] = ["KHARIF", "RABI"];
+type RateView = "bag" | "kg" | "quintal";
 
-type RateInputs = Record<string, Record<BagSize, string>>;
+type RateInputs = Record<string, Record<string, string>>;
 
-function makeEmptyRates(riceTypeCodes: string[]): RateInputs {
+function makeEmptyRow(bagSizes: MasterBagSize[]): Record<string, string> {
+  return Object.fromEntries(bagSizes.map((size) => [size.code, ""]));
+}
+
+function makeEmptyRates(riceTypeCodes: string[], bagSizes: MasterBagSize[]): RateInputs {
   const next: RateInputs = {};
   for (const code of riceTypeCodes) {
-    next[code] = {
-      KG_40: "",
-      KG_75: "",
-      KG_100: "",
-    };
+    next[code] = makeEmptyRow(bagSizes);
   }
   return next;
 }
 
-function truncateToTwoDecimals(num: number): string {
-  if (isNaN(num) || !isFinite(num)) return "0.00";
-  const factor = 100;
-  return (Math.trunc(num * factor) / factor).toFixed(2);
+function toRateInput(rupees: number | null | undefined): string {
+  return typeof rupees === "number" ? paiseToInputValue(rupeesToPaise(rupees)) : "";
+}
+
+function rupeesFromInput(raw: string | undefined): number | null {
+  const paise = parseRupeesToPaise(raw ?? "");
+  return paise === null ? null : paiseToRupees(paise);
+}
+
+function ratesFromItems(
+  riceTypeCodes: string[],
+  bagSizes: MasterBagSize[],
+  items: SeasonBagRate[]
+): RateInputs {
+  const base = makeEmptyRates(riceTypeCodes, bagSizes);
+  for (const item of items) {
+    if (!base[item.riceType.code]) continue;
+    for (const size of bagSizes) {
+      const value = item.rates[size.code];
+      base[item.riceType.code][size.code] = toRateInput(value);
+    }
+  }
+  return base;
+}
+
+function findBaseBagSize(bagSizes: MasterBagSize[]): MasterBagSize | null {
+  return bagSizes.reduce<MasterBagSize | null>(
+    (heaviest, size) => (!heaviest || size.weightKg > heaviest.weightKg ? size : heaviest),
+    null
+  );
+}
+
+function formatAuthor(author: SeasonBagRateRevisionAuthor | null): string {
+  if (!author) return "another admin";
+  const name = `${author.firstName ?? ""} ${author.lastName ?? ""}`.trim();
+  return name || author.email;
+}
+
+function formatDateTime(value: string | null): string {
+  if (!value) return "";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return value;
+  return d.toLocaleString(undefined, {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function DraftStatusBadge({ draft }: { draft: SeasonBagRateDraft | null }) {
+  if (!draft) return <Badge>Published</Badge>;
+  if (draft.status === "PENDING_APPROVAL") return <Badge variant="outline">Pending approval</Badge>;
+  return <Badge variant="secondary">Draft</Badge>;
+}
+
+function todayIsoDate(): string {
+  const now = new Date();
+  const local = new Date(now.getTime() - now.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 10);
 }
 
 export default function BagRatesPage() {
   const { showToast } = useUiStore();
+  const { user, can } = useAuth();
   const queryClient = useQueryClient();
 
   const cropYearsQuery = useQuery({
@@ -83,6 +184,11 @@ export default function BagRatesPage() {
     queryFn: () => listMasterRiceTypes({ includeInactive: false }),
   });
 
+  const bagSizesQuery = useQuery({
+    queryKey: ["masterBagSizes", "activeOnly"],
+    queryFn: () => listMasterBagSizes({ includeInactive: false }),
+  });
+
   const cropYears = React.useMemo(() => {
     return cropYearsQuery.data?.data.items ?? [];
   }, [cropYearsQuery.data?.data.items]);
@@ -91,7 +197,20 @@ export default function BagRatesPage() {
     return riceTypesQuery.data?.data.items ?? [];
   }, [riceTypesQuery.data?.data.items]);
 
+  const bagSizes = React.useMemo(() => {
+    return bagSizesQuery.data?.data.items ?? [];
+  }, [bagSizesQuery.data?.data.items]);
+
+  const baseBagSize = React.useMemo(() => findBaseBagSize(bagSizes), [bagSizes]);
+
   const cropYearStartYearOptions = React.useMemo(() => {
+    const years = cropYears
+      .filter((c: CropYear) => c.status !== "ARCHIVED")
+      .map((c: CropYear) => c.startYear);
+    return Array.from(new Set(years)).sort((a, b) => b - a);
+  }, [cropYears]);
+
+  const copySourceStartYearOptions = React.useMemo(() => {
     const years = cropYears.map((c: CropYear) => c.startYear);
     return Array.from(new Set(years)).sort((a, b) => b - a);
   }, [cropYears]);
@@ -103,19 +222,66 @@ export default function BagRatesPage() {
   const [formError, setFormError] = React.useState<string | null>(null);
   const [lastSavedAt, setLastSavedAt] = React.useState<string | null>(null);
   const [resetOpen, setResetOpen] = React.useState(false);
+  const [historyOpen, setHistoryOpen] = React.useState(false);
+  const [copyOpen, setCopyOpen] = React.useState(false);
+  const [importOpen, setImportOpen] = React.useState(false);
+  const [reviewOpen, setReviewOpen] = React.useState(false);
+  const [rateView, setRateView] = React.useState<RateView>("bag");
+  const [quintalEntry, setQuintalEntry] = React.useState(false);
+  const [quintalInputs, setQuintalInputs] = React.useState<Record<string, string>>({});
+  const [copiedFrom, setCopiedFrom] = React.useState<{
+    sourceLabel: string;
+    missingRiceTypeCodes: Set<string>;
+  } | null>(null);
+  const [effectiveFrom, setEffectiveFrom] = React.useState(() => todayIsoDate());
+  const [revisionNote, setRevisionNote] = React.useState("");
 
 
   React.useEffect(() => {
     if (cropYearStartYear !== null) return;
-    const first = cropYearStartYearOptions[0];
-    if (typeof first === "number") setCropYearStartYear(first);
-  }, [cropYearStartYear, cropYearStartYearOptions]);
+    const current = findCurrentCropYear(cropYears.filter((c) => c.status !== "ARCHIVED"));
+    if (current) setCropYearStartYear(current.startYear);
+  }, [cropYearStartYear, cropYears]);
 
   const selectedYear = cropYearStartYear;
+  const selectedCropYear = cropYears.find((c) => c.startYear === selectedYear) ?? null;
+  const isYearReadOnly = isCropYearReadOnly(selectedCropYear);
+
+  const seasonOptions = React.useMemo(() => {
+    const seasons: Season[] = selectedCropYear?.seasons.length
+      ? selectedCropYear.seasons
+      : BUILT_IN_SEASON_CODES.map((code) => ({
+          id: code,
+          code,
+          name: formatSeasonName(code),
+          isCustom: false,
+          procurementStartDate: null,
+          procurementEndDate: null,
+        }));
+    return seasons.slice().sort(compareSeasons);
+  }, [selectedCropYear]);
+
+  React.useEffect(() => {
+    if (seasonOptions.some((s) => s.code === seasonCode)) return;
+    const today = todayIsoDate();
+    const inWindow = seasonOptions.find(
+      (s) =>
+        !!s.procurementStartDate &&
+        !!s.procurementEndDate &&
+        s.procurementStartDate.slice(0, 10) <= today &&
+        today <= s.procurementEndDate.slice(0, 10)
+    );
+    const next = inWindow ?? seasonOptions[0];
+    if (next) setSeasonCode(next.code);
+  }, [seasonCode, seasonOptions]);
+
+  const seasonName = formatSeasonName(seasonCode, seasonOptions);
 
   React.useEffect(() => {
     setLastSavedAt(null);
     setFormError(null);
+    setRevisionNote("");
+    setCopiedFrom(null);
   }, [selectedYear, seasonCode]);
 
 
@@ -128,6 +294,14 @@ export default function BagRatesPage() {
     return m;
   }, [cropYears]);
 
+  const seasonsByStartYear = React.useMemo(() => {
+    const m = new Map<number, Season[]>();
+    for (const cy of cropYears) {
+      m.set(cy.startYear, cy.seasons);
+    }
+    return m;
+  }, [cropYears]);
+
   const bagRatesQuery = useQuery({
     enabled: typeof selectedYear === "number",
     queryKey: ["seasonBagRates", selectedYear, seasonCode],
@@ -138,116 +312,224 @@ export default function BagRatesPage() {
       }),
   });
 
+  const draftQuery = useQuery({
+    enabled: typeof selectedYear === "number",
+    queryKey: ["seasonBagRateDraft", selectedYear, seasonCode],
+    queryFn: () =>
+      getSeasonBagRateDraft({
+        cropYearStartYear: selectedYear as number,
+        seasonCode,
+      }),
+  });
+
   const bagRateItems = React.useMemo(() => {
     return bagRatesQuery.data?.data.items ?? [];
   }, [bagRatesQuery.data?.data.items]);
 
+  const draft = draftQuery.data?.data ?? null;
+  const isPendingApproval = draft?.status === "PENDING_APPROVAL";
+  const canEdit = can("bagRates:edit");
+  const isLocked = isPendingApproval || isYearReadOnly || !canEdit;
+
+  const gridItems = React.useMemo(() => {
+    return draft?.items ?? bagRateItems;
+  }, [bagRateItems, draft]);
+
   React.useEffect(() => {
-    const codes = riceTypes.map((t) => t.code);
-    const base = makeEmptyRates(codes);
-
-    for (const item of bagRateItems) {
-      if (!base[item.riceType.code]) continue;
-      base[item.riceType.code].KG_40 =
-        typeof item.rates.KG_40 === "number" ? truncateToTwoDecimals(item.rates.KG_40) : "";
-      base[item.riceType.code].KG_75 =
-        typeof item.rates.KG_75 === "number" ? truncateToTwoDecimals(item.rates.KG_75) : "";
-      base[item.riceType.code].KG_100 =
-        typeof item.rates.KG_100 === "number" ? truncateToTwoDecimals(item.rates.KG_100) : "";
-    }
+    const base = ratesFromItems(
+      riceTypes.map((t) => t.code),
+      bagSizes,
+      gridItems
+    );
 
     setRates(base);
     setInitialRates(base);
+    setQuintalInputs({});
+    setFormError(null);
+    setCopiedFrom(null);
+  }, [bagSizes, gridItems, riceTypes]);
+
+  React.useEffect(() => {
+    setEffectiveFrom(draft ? draft.effectiveFrom.slice(0, 10) : todayIsoDate());
+    setRevisionNote(draft?.note ?? "");
+  }, [draft]);
+
+  const reviewBlockedReason =
+    !can("bagRates:approve")
+      ? "Only admins can approve bag rates."
+      : isYearReadOnly
+        ? "This crop year is closed. Reopen it before publishing rates."
+        : draft?.submittedBy?.id === user?.id
+          ? "You submitted this draft. Another admin must review it."
+          : null;
+
+  const inconsistentCount = React.useMemo(() => {
+    return riceTypes.filter((rt) => {
+      const numeric: SeasonBagRateRatesBySize = {};
+      for (const size of bagSizes) numeric[size.code] = rupeesFromInput(rates[rt.code]?.[size.code]);
+      return findPerKgInconsistencies(numeric, bagSizes).length > 0;
+    }).length;
+  }, [bagSizes, rates, riceTypes]);
+
+  function quintalValue(riceTypeCode: string): string {
+    const typed = quintalInputs[riceTypeCode];
+    if (typed !== undefined) return typed;
+    if (!baseBagSize) return "";
+    const base = parseRupeesToPaise(rates[riceTypeCode]?.[baseBagSize.code] ?? "");
+    return base === null ? "" : paiseToInputValue(prorataPaise(base, baseBagSize.weightKg, 100));
+  }
+
+  function setQuintalPrice(riceTypeCode: string, value: string) {
+    const paise = parseRupeesToPaise(value);
+    setQuintalInputs((prev) => ({ ...prev, [riceTypeCode]: value }));
+    setRates((prev) => ({
+      ...prev,
+      [riceTypeCode]: Object.fromEntries(
+        bagSizes.map((size) => [
+          size.code,
+          paise !== null ? paiseToInputValue(prorataPaise(paise, 100, size.weightKg)) : "",
+        ])
+      ),
+    }));
+  }
+
+  function applyCopiedRates(copied: CopiedBagRates) {
+    setRates((prev) => {
+      const next: RateInputs = { ...prev };
+      for (const item of copied.items) {
+        if (!next[item.riceTypeCode]) continue;
+        const row = { ...next[item.riceTypeCode] };
+        for (const size of bagSizes) {
+          const value = item.rates[size.code] ?? null;
+          row[size.code] = toRateInput(value);
+        }
+        next[item.riceTypeCode] = row;
+      }
+      return next;
+    });
+    setCopiedFrom({
+      sourceLabel: copied.sourceLabel,
+      missingRiceTypeCodes: new Set(copied.missingRiceTypeCodes),
+    });
+    if (!revisionNote.trim()) setRevisionNote(`Copied from ${copied.sourceLabel}`);
+    setFormError(null);
+    setCopyOpen(false);
+  }
+
+  function applyDraft(next: SeasonBagRateDraft | null) {
+    queryClient.setQueryData(["seasonBagRateDraft", selectedYear, seasonCode], {
+      success: true,
+      data: next,
+    });
+    setLastSavedAt(next ? new Date().toISOString() : null);
+    setCopiedFrom(null);
     setFormError(null);
-  }, [bagRateItems, riceTypes]);
+  }
+
+  function applyPublishedRates(items: SeasonBagRate[]) {
+    queryClient.setQueryData(["seasonBagRates", selectedYear, seasonCode], {
+      success: true,
+      data: { items },
+    });
+    applyDraft(null);
+    setLastSavedAt(new Date().toISOString());
+    void queryClient.invalidateQueries({ queryKey: ["seasonBagRates", selectedYear, seasonCode] });
+    void queryClient.invalidateQueries({
+      queryKey: ["seasonBagRateRevisions", selectedYear, seasonCode],
+    });
+  }
+
+  function saveDraft(payloadRates: UpsertSeasonBagRateItem[], note: string | undefined) {
+    if (typeof selectedYear !== "number") {
+      throw new Error("Select a crop year.");
+    }
+    if (isYearReadOnly) {
+      throw new Error("This crop year is closed. Reopen it to edit bag rates.");
+    }
+    if (!effectiveFrom) {
+      throw new Error("Enter an effective date.");
+    }
+
+    return saveSeasonBagRateDraft({
+      cropYearStartYear: selectedYear,
+      seasonCode,
+      rates: payloadRates,
+      effectiveFrom,
+      note,
+    });
+  }
+
+  const currentRates = React.useMemo(() => {
+    const m: Record<string, SeasonBagRateRatesBySize> = {};
+    for (const item of gridItems) m[item.riceType.code] = item.rates;
+    return m;
+  }, [gridItems]);
+
+  async function exportRates(format: SpreadsheetFormat) {
+    if (typeof selectedYear !== "number") return;
+    const header = ["Rice type code", "Rice type name", ...bagSizes.map((size) => formatBagSizeLabel(size))];
+    const body = riceTypes.map((rt) => [
+      rt.code,
+      rt.name,
+      ...bagSizes.map((size) => rupeesFromInput(rates[rt.code]?.[size.code])),
+    ]);
+    const label = cropYearLabelByStartYear.get(selectedYear) ?? String(selectedYear);
+    try {
+      await downloadSpreadsheet(
+        [header, ...body],
+        `bag-rates-${label}-${seasonCode.toLowerCase()}`,
+        format,
+        "Bag rates"
+      );
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Export failed.", "error");
+    }
+  }
 
   const isDirty = React.useMemo(() => {
     for (const rt of riceTypes) {
-      for (const size of BAG_SIZES) {
-        const current = rates[rt.code]?.[size] ?? "";
-        const initial = initialRates[rt.code]?.[size] ?? "";
+      for (const size of bagSizes) {
+        const current = rates[rt.code]?.[size.code] ?? "";
+        const initial = initialRates[rt.code]?.[size.code] ?? "";
         if (current !== initial) return true;
       }
     }
     return false;
-  }, [initialRates, rates, riceTypes]);
+  }, [bagSizes, initialRates, rates, riceTypes]);
 
   const saveMutation = useMutation({
     mutationFn: async () => {
       setFormError(null);
-      if (typeof selectedYear !== "number") {
-        throw new Error("Select a crop year.");
+      if (bagSizes.length === 0) {
+        throw new Error("Create bag sizes first.");
       }
 
-      const payloadRates: Array<{
-        riceTypeCode: string;
-        rates: { KG_40: number; KG_75: number; KG_100: number };
-      }> = [];
+      const payloadRates: UpsertSeasonBagRateItem[] = [];
       for (const rt of riceTypes) {
-        const raw40 = rates[rt.code]?.KG_40 ?? "";
-        const raw75 = rates[rt.code]?.KG_75 ?? "";
-        const raw100 = rates[rt.code]?.KG_100 ?? "";
-
-        const n40 = toNumberOrNull(raw40);
-        const n75 = toNumberOrNull(raw75);
-        const n100 = toNumberOrNull(raw100);
-
-        if (n100 === null) {
-          throw new Error(`Enter a rate for ${rt.code} (${formatBagSizeLabel("KG_100")}).`);
-        }
-        if (n75 === null) {
-          throw new Error(`Enter a rate for ${rt.code} (${formatBagSizeLabel("KG_75")}).`);
-        }
-        if (n40 === null) {
-          throw new Error(`Enter a rate for ${rt.code} (${formatBagSizeLabel("KG_40")}).`);
-        }
-
-        if (n100 < 0) {
-          throw new Error(`Enter a valid rate for ${rt.code} (${formatBagSizeLabel("KG_100")}).`);
-        }
-        if (n75 < 0) {
-          throw new Error(`Enter a valid rate for ${rt.code} (${formatBagSizeLabel("KG_75")}).`);
-        }
-        if (n40 < 0) {
-          throw new Error(`Enter a valid rate for ${rt.code} (${formatBagSizeLabel("KG_40")}).`);
+        const rowRates: UpsertSeasonBagRateItem["rates"] = {};
+        for (const size of bagSizes) {
+          const raw = rates[rt.code]?.[size.code] ?? "";
+          const paise = parseRupeesToPaise(raw);
+          if (!raw.trim()) {
+            throw new Error(`Enter a rate for ${rt.code} (${formatBagSizeLabel(size)}).`);
+          }
+          if (paise === null || paise < 0) {
+            throw new Error(`Enter a valid rate for ${rt.code} (${formatBagSizeLabel(size)}).`);
+          }
+          rowRates[size.code] = paiseToRupees(paise);
         }
 
         payloadRates.push({
           riceTypeCode: rt.code,
-          rates: {
-            KG_40: n40,
-            KG_75: n75,
-            KG_100: n100,
-          },
+          rates: rowRates,
         });
       }
 
-      return upsertSeasonBagRates({
-        cropYearStartYear: selectedYear,
-        seasonCode,
-        rates: payloadRates,
-      });
+      return saveDraft(payloadRates, revisionNote.trim() || undefined);
     },
     onSuccess: (res) => {
-      showToast(res.message ?? "Bag rates updated.", "success");
-      const codes = riceTypes.map((t) => t.code);
-      const base = makeEmptyRates(codes);
-
-      const existing = res.data.items ?? [];
-      for (const item of existing) {
-        if (!base[item.riceType.code]) continue;
-        base[item.riceType.code].KG_40 =
-          typeof item.rates.KG_40 === "number" ? truncateToTwoDecimals(item.rates.KG_40) : "";
-        base[item.riceType.code].KG_75 =
-          typeof item.rates.KG_75 === "number" ? truncateToTwoDecimals(item.rates.KG_75) : "";
-        base[item.riceType.code].KG_100 =
-          typeof item.rates.KG_100 === "number" ? truncateToTwoDecimals(item.rates.KG_100) : "";
-      }
-
-      setRates(base);
-      setInitialRates(base);
-      setLastSavedAt(new Date().toISOString());
-      void queryClient.invalidateQueries({ queryKey: ["seasonBagRates", selectedYear, seasonCode] });
+      showToast(res.message ?? "Draft saved.", "success");
+      applyDraft(res.data);
     },
     onError: (err: unknown) => {
       const message = err instanceof Error ? err.message : "Save failed.";
@@ -259,53 +541,204 @@ export default function BagRatesPage() {
   const resetMutation = useMutation({
     mutationFn: async () => {
       setFormError(null);
+      const zeroRates = riceTypes.map((rt) => ({
+        riceTypeCode: rt.code,
+        rates: Object.fromEntries(bagSizes.map((size) => [size.code, 0])),
+      }));
+
+      return saveDraft(zeroRates, revisionNote.trim() || "Reset to 0.00");
+    },
+    onSuccess: (res) => {
+      showToast(res.message ?? "Draft reset to 0.00.", "success");
+      applyDraft(res.data);
+      setResetOpen(false);
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Reset failed.";
+      setFormError(message);
+      showToast(message, "error");
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (params: { rates: UpsertSeasonBagRateItem[]; fileName: string }) =>
+      saveDraft(params.rates, revisionNote.trim() || `Imported from ${params.fileName}`),
+    onSuccess: (res) => {
+      showToast(res.message ?? "Imported rates saved as a draft.", "success");
+      applyDraft(res.data);
+      setImportOpen(false);
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Import failed.";
+      showToast(message, "error");
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (params: {
+      revision: SeasonBagRateRevision;
+      effectiveFrom: string;
+      note: string;
+    }) => {
       if (typeof selectedYear !== "number") {
         throw new Error("Select a crop year.");
       }
-
-      return resetSeasonBagRates({
+      if (isYearReadOnly) {
+        throw new Error("This crop year is closed. Reopen it to edit bag rates.");
+      }
+      if (isPendingApproval) {
+        throw new Error("A draft is waiting for approval. Review it before restoring another revision.");
+      }
+      return saveSeasonBagRateDraft({
         cropYearStartYear: selectedYear,
         seasonCode,
-        confirm: "RESET",
+        rates: params.revision.items.map((item) => ({
+          riceTypeCode: item.riceType.code,
+          rates: Object.fromEntries(
+            Object.entries(item.rates).filter((entry): entry is [string, number] => typeof entry[1] === "number")
+          ),
+        })),
+        effectiveFrom: params.effectiveFrom,
+        note: params.note,
       });
     },
     onSuccess: (res) => {
-      showToast(res.message ?? "Bag rates reset to 0.00.", "success");
-
-      const codes = riceTypes.map((t) => t.code);
-      const base = makeEmptyRates(codes);
-
-      const existing = res.data.items ?? [];
-      for (const item of existing) {
-        if (!base[item.riceType.code]) continue;
-        base[item.riceType.code].KG_40 =
-          typeof item.rates.KG_40 === "number" ? truncateToTwoDecimals(item.rates.KG_40) : "";
-        base[item.riceType.code].KG_75 =
-          typeof item.rates.KG_75 === "number" ? truncateToTwoDecimals(item.rates.KG_75) : "";
-        base[item.riceType.code].KG_100 =
-          typeof item.rates.KG_100 === "number" ? truncateToTwoDecimals(item.rates.KG_100) : "";
-      }
+      showToast(res.message ?? "Revision restored as a draft.", "success");
+      applyDraft(res.data);
+      setHistoryOpen(false);
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Restore failed.";
+      showToast(message, "error");
+    },
+  });
 
-      setRates(base);
-      setInitialRates(base);
-      setLastSavedAt(new Date().toISOString());
-      setFormError(null);
-      setResetOpen(false);
-      void queryClient.invalidateQueries({ queryKey: ["seasonBagRates", selectedYear, seasonCode] });
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      if (!draft) throw new Error("Save a draft first.");
+      return submitSeasonBagRateDraft(draft.id);
+    },
+    onSuccess: (res) => {
+      showToast(res.message ?? "Draft submitted for approval.", "success");
+      applyDraft(res.data);
     },
     onError: (err: unknown) => {
-      const message = err instanceof Error ? err.message : "Reset failed.";
-      setFormError(message);
+      const message = err instanceof Error ? err.message : "Submit failed.";
+      showToast(message, "error");
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async () => {
+      if (!draft) throw new Error("There is no draft to discard.");
+      return discardSeasonBagRateDraft(draft.id);
+    },
+    onSuccess: (res) => {
+      showToast(res.message ?? "Draft discarded.", "success");
+      applyDraft(null);
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Discard failed.";
+      showToast(message, "error");
+    },
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async (comment: string) => {
+      if (!draft) throw new Error("There is no draft to approve.");
+      return approveSeasonBagRateDraft(draft, { comment: comment || undefined });
+    },
+    onSuccess: (res) => {
+      showToast(res.message ?? "Bag rates published.", "success");
+      applyPublishedRates(res.data.items ?? []);
+      setReviewOpen(false);
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Approval failed.";
+      showToast(message, "error");
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async (comment: string) => {
+      if (!draft) throw new Error("There is no draft to reject.");
+      return rejectSeasonBagRateDraft(draft.id, { comment });
+    },
+    onSuccess: (res) => {
+      showToast(res.message ?? "Draft rejected.", "success");
+      applyDraft(res.data);
+      setReviewOpen(false);
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Reject failed.";
       showToast(message, "error");
     },
   });
 
+  const isBusy =
+    saveMutation.isPending ||
+    resetMutation.isPending ||
+    importMutation.isPending ||
+    restoreMutation.isPending ||
+    submitMutation.isPending ||
+    discardMutation.isPending;
+
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Bag Rates</CardTitle>
-        <div className="text-sm text-muted-foreground">
-          Set bag rates for each rice type and bag size. Rates are stored in rupees.
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle>Bag Rates</CardTitle>
+            <div className="text-sm text-muted-foreground">
+              Set bag rates for each rice type and bag size. Rates are stored in rupees and published
+              after another admin approves them.
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              disabled={
+                typeof selectedYear !== "number" ||
+                riceTypes.length === 0 ||
+                bagSizes.length === 0 ||
+                isLocked
+              }
+              onClick={() => setCopyOpen(true)}
+            >
+              Copy from…
+            </Button>
+            <Button
+              variant="outline"
+              disabled={
+                typeof selectedYear !== "number" ||
+                riceTypes.length === 0 ||
+                bagSizes.length === 0 ||
+                isLocked
+              }
+              onClick={() => setImportOpen(true)}
+            >
+              Import
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger
+                disabled={typeof selectedYear !== "number" || riceTypes.length === 0 || bagSizes.length === 0}
+                className={buttonVariants({ variant: "outline" })}
+              >
+                Export
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => void exportRates("csv")}>CSV</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => void exportRates("xlsx")}>Excel (.xlsx)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              variant="outline"
+              disabled={typeof selectedYear !== "number"}
+              onClick={() => setHistoryOpen(true)}
+            >
+              History
+            </Button>
+          </div>
         </div>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -324,6 +757,7 @@ export default function BagRatesPage() {
                   {cropYearStartYearOptions.map((y) => (
                     <SelectItem key={y} value={String(y)}>
                       {cropYearLabelByStartYear.get(y) ?? String(y)}
+                      {cropYears.find((c) => c.startYear === y)?.status === "CLOSED" ? " (Closed)" : ""}
                     </SelectItem>
                   ))}
                 </SelectGroup>
@@ -335,16 +769,16 @@ export default function BagRatesPage() {
             <FieldLabel>Season</FieldLabel>
             <Select
               value={seasonCode}
-              onValueChange={(v) => setSeasonCode((v ?? "KHARIF") as SeasonCode)}
+              onValueChange={(v) => v && setSeasonCode(v)}
             >
               <SelectTrigger className="w-full">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
                 <SelectGroup>
-                  {SEASONS.map((s) => (
-                    <SelectItem key={s} value={s}>
-                      {s === "KHARIF" ? "Kharif" : "Rabi"}
+                  {seasonOptions.map((s) => (
+                    <SelectItem key={s.code} value={s.code}>
+                      {s.name}
                     </SelectItem>
                   ))}
                 </SelectGroup>
@@ -353,16 +787,109 @@ export default function BagRatesPage() {
           </Field>
         </div>
 
-        <FieldDescription>
-          Enter the 100kg rate. The 75kg and 40kg rates will be calculated automatically.
-        </FieldDescription>
+        {isYearReadOnly && selectedCropYear ? (
+          <div className="rounded-md border border-border bg-muted/40 p-3 text-xs text-muted-foreground">
+            {selectedCropYear.label} is {selectedCropYear.status === "ARCHIVED" ? "archived" : "closed"}. Bag
+            rates are read-only. Reopen the crop year on the Crop Years page to make changes.
+          </div>
+        ) : null}
+
+        {typeof selectedYear === "number" && !draftQuery.isLoading ? (
+          <div className="flex flex-wrap items-center gap-3 rounded-md border border-border p-3">
+            <DraftStatusBadge draft={draft} />
+            <div className="min-w-0 flex-1 text-xs text-muted-foreground">
+              {!draft
+                ? isYearReadOnly || !canEdit
+                  ? "Showing the published rates."
+                  : "Showing the published rates. Saving creates a draft that another admin must approve."
+                : draft.status === "PENDING_APPROVAL"
+                  ? `Submitted by ${formatAuthor(draft.submittedBy)} on ${formatDateTime(draft.submittedAt)}. The published rates stay in effect until the draft is approved.`
+                  : draft.status === "REJECTED"
+                    ? `Rejected by ${formatAuthor(draft.reviewedBy)}: "${draft.reviewComment ?? ""}". Update the draft and submit it again.`
+                    : `Draft saved ${formatDateTime(draft.updatedAt)} by ${formatAuthor(draft.updatedBy)}. Submit it for approval to publish.`}
+            </div>
+            {draft && !isLocked ? (
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={isBusy}
+                  onClick={() => discardMutation.mutate()}
+                >
+                  {discardMutation.isPending ? "Discarding…" : "Discard draft"}
+                </Button>
+                <Button size="sm" disabled={isBusy || isDirty} onClick={() => submitMutation.mutate()}>
+                  {submitMutation.isPending ? "Submitting…" : "Submit for approval"}
+                </Button>
+              </div>
+            ) : isPendingApproval ? (
+              <Button size="sm" onClick={() => setReviewOpen(true)}>
+                Review
+              </Button>
+            ) : null}
+          </div>
+        ) : null}
+
+        {bagSizes.length > 0 && riceTypes.length > 0 ? (
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <Tabs value={rateView} onValueChange={(next) => setRateView(next as RateView)}>
+              <TabsList>
+                <TabsTrigger value="bag">Per bag</TabsTrigger>
+                <TabsTrigger value="kg">Per kg</TabsTrigger>
+                <TabsTrigger value="quintal">Per quintal</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            {rateView === "bag" ? (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={quintalEntry}
+                  disabled={isLocked}
+                  onCheckedChange={(v) => {
+                    setQuintalEntry(Boolean(v));
+                    setQuintalInputs({});
+                  }}
+                />
+                <span>Enter price per quintal</span>
+              </label>
+            ) : null}
+          </div>
+        ) : null}
+
+        {rateView !== "bag" ? (
+          <FieldDescription>
+            Derived from the bag rates by bag weight. Switch to Per bag to edit.
+          </FieldDescription>
+        ) : quintalEntry ? (
+          <FieldDescription>
+            Enter the price per quintal (100 kg). Every bag size is calculated from it by weight.
+          </FieldDescription>
+        ) : baseBagSize && bagSizes.length > 1 ? (
+          <FieldDescription>
+            Enter the {formatBagSizeLabel(baseBagSize)} rate. Rates for the other bag sizes are calculated
+            automatically by weight.
+          </FieldDescription>
+        ) : null}
 
-        {riceTypesQuery.isLoading || cropYearsQuery.isLoading ? (
+        {inconsistentCount > 0 ? (
+          <div className="text-xs text-destructive">
+            {inconsistentCount} rice type{inconsistentCount === 1 ? " has" : "s have"} bag sizes priced
+            differently per kg. Check the Per kg view before saving.
+          </div>
+        ) : null}
+
+        {riceTypesQuery.isLoading ||
+        cropYearsQuery.isLoading ||
+        bagSizesQuery.isLoading ||
+        draftQuery.isLoading ? (
           <div className="text-sm text-muted-foreground">Loading…</div>
         ) : riceTypes.length === 0 ? (
           <div className="text-sm text-muted-foreground">
             No active rice types found. Create rice types first.
           </div>
+        ) : bagSizes.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            No active bag sizes found. Create bag sizes first.
+          </div>
         ) : bagRatesQuery.isError ? (
           <div className="text-sm text-destructive">
             {bagRatesQuery.error instanceof Error
@@ -370,83 +897,145 @@ export default function BagRatesPage() {
               : "Failed to load bag rates."}
           </div>
         ) : (
-          <Table>
-            <TableHeader>
-              <TableRow className="bg-muted hover:bg-muted dark:bg-muted/10">
-                <TableHead className="w-[200px]">Rice Type</TableHead>
-                <TableHead>100 kg Rate</TableHead>
-                <TableHead>75 kg Rate</TableHead>
-                <TableHead>40 kg Rate</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {riceTypes.map((rt) => (
-                <TableRow key={rt.code}>
-                  <TableCell className="font-medium">
-                    <div>{rt.name}</div>
-                    <div className="text-[10px] text-muted-foreground uppercase">{rt.code}</div>
-                  </TableCell>
-                  <TableCell>
-                    <InputGroup className="bg-background border-input shadow-xs ring-offset-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2">
-                      <InputGroupAddon className="bg-transparent">₹</InputGroupAddon>
-                      <InputGroupInput
-                        inputMode="decimal"
-                        placeholder="0.00"
-                        value={rates[rt.code]?.["KG_100"] ?? ""}
-                        onChange={(e) => {
-                          const v = e.target.value;
-                          const num = toNumberOrNull(v);
-
-                          setRates((prev) => {
-                            const newRates = {
-                              ...(prev[rt.code] ?? { KG_40: "", KG_75: "", KG_100: "" }),
-                              KG_100: v,
-                            };
-
-                            if (num !== null) {
-                              newRates.KG_75 = truncateToTwoDecimals((num / 100) * 75);
-                              newRates.KG_40 = truncateToTwoDecimals((num / 100) * 40);
-                            } else {
-                              newRates.KG_75 = "";
-                              newRates.KG_40 = "";
-                            }
-
-                            return {
-                              ...prev,
-                              [rt.code]: newRates,
-                            };
-                          });
-                        }}
-                      />
-                    </InputGroup>
-                  </TableCell>
-                  <TableCell>
-                    <InputGroup className="bg-muted/40 opacity-80 border-muted-foreground/10 cursor-not-allowed">
-                      <InputGroupAddon className="bg-transparent opacity-50">₹</InputGroupAddon>
-                      <InputGroupInput
-                        readOnly
-                        tabIndex={-1}
-                        className="cursor-not-allowed"
-                        value={rates[rt.code]?.["KG_75"] ?? ""}
-                      />
-                    </InputGroup>
-                  </TableCell>
-                  <TableCell>
-                    <InputGroup className="bg-muted/40 opacity-80 border-muted-foreground/10 cursor-not-allowed">
-                      <InputGroupAddon className="bg-transparent opacity-50">₹</InputGroupAddon>
-                      <InputGroupInput
-                        readOnly
-                        tabIndex={-1}
-                        className="cursor-not-allowed"
-                        value={rates[rt.code]?.["KG_40"] ?? ""}
-                      />
-                    </InputGroup>
-                  </TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+          <>
+            {copiedFrom ? (
+              <div className="text-xs text-muted-foreground">
+                Rates copied from {copiedFrom.sourceLabel}. Review them and save to apply.
+                {copiedFrom.missingRiceTypeCodes.size > 0
+                  ? ` ${copiedFrom.missingRiceTypeCodes.size} rice type(s) were not in the source.`
+                  : ""}
+              </div>
+            ) : null}
+            {rateView !== "bag" ? (
+              <BagRatesDerivedTable unit={rateView} riceTypes={riceTypes} bagSizes={bagSizes} rates={rates} />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted hover:bg-muted dark:bg-muted/10">
+                    <TableHead className="w-[200px]">Rice Type</TableHead>
+                    {quintalEntry ? <TableHead>Per quintal</TableHead> : null}
+                    {bagSizes.map((size) => (
+                      <TableHead key={size.code}>{formatBagSizeLabel(size)} Rate</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {riceTypes.map((rt) => (
+                    <TableRow key={rt.code}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          <span>{rt.name}</span>
+                          {copiedFrom?.missingRiceTypeCodes.has(rt.code) ? (
+                            <Badge variant="destructive">Not in source</Badge>
+                          ) : null}
+                        </div>
+                        <div className="text-[10px] text-muted-foreground uppercase">{rt.code}</div>
+                      </TableCell>
+                      {quintalEntry ? (
+                        <TableCell>
+                          <InputGroup className="bg-background border-input shadow-xs ring-offset-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2">
+                            <InputGroupAddon className="bg-transparent">₹</InputGroupAddon>
+                            <InputGroupInput
+                              inputMode="decimal"
+                              placeholder="0.00"
+                              aria-label={`${rt.name} price per quintal`}
+                              disabled={isLocked}
+                              value={quintalValue(rt.code)}
+                              onChange={(e) => setQuintalPrice(rt.code, e.target.value)}
+                            />
+                            <InputGroupAddon align="inline-end" className="bg-transparent text-xs">
+                              /qtl
+                            </InputGroupAddon>
+                          </InputGroup>
+                        </TableCell>
+                      ) : null}
+                      {bagSizes.map((size) =>
+                        size.code === baseBagSize?.code && !quintalEntry ? (
+                          <TableCell key={size.code}>
+                            <InputGroup className="bg-background border-input shadow-xs ring-offset-background focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2">
+                              <InputGroupAddon className="bg-transparent">₹</InputGroupAddon>
+                              <InputGroupInput
+                                inputMode="decimal"
+                                placeholder="0.00"
+                                disabled={isLocked}
+                                value={rates[rt.code]?.[size.code] ?? ""}
+                                onChange={(e) => {
+                                  const v = e.target.value;
+                                  const paise = parseRupeesToPaise(v);
+
+                                  setRates((prev) => {
+                                    const newRates = { ...(prev[rt.code] ?? makeEmptyRow(bagSizes)) };
+                                    for (const other of bagSizes) {
+                                      if (other.code === size.code) {
+                                        newRates[other.code] = v;
+                                      } else {
+                                        newRates[other.code] =
+                                          paise !== null
+                                            ? paiseToInputValue(prorataPaise(paise, size.weightKg, other.weightKg))
+                                            : "";
+                                      }
+                                    }
+
+                                    return {
+                                      ...prev,
+                                      [rt.code]: newRates,
+                                    };
+                                  });
+                                }}
+                              />
+                            </InputGroup>
+                          </TableCell>
+                        ) : (
+                          <TableCell key={size.code}>
+                            <InputGroup className="bg-muted/40 opacity-80 border-muted-foreground/10 cursor-not-allowed">
+                              <InputGroupAddon className="bg-transparent opacity-50">₹</InputGroupAddon>
+                              <InputGroupInput
+                                readOnly
+                                tabIndex={-1}
+                                className="cursor-not-allowed"
+                                value={rates[rt.code]?.[size.code] ?? ""}
+                              />
+                            </InputGroup>
+                          </TableCell>
+                        )
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
         )}
+
+        {riceTypes.length > 0 ? (
+          <div className="grid gap-4 md:grid-cols-2">
+            <Field>
+              <FieldLabel htmlFor="effectiveFrom">Effective from</FieldLabel>
+              <InputGroup>
+                <InputGroupInput
+                  id="effectiveFrom"
+                  type="date"
+                  value={effectiveFrom}
+                  onChange={(e) => setEffectiveFrom(e.target.value)}
+                />
+              </InputGroup>
+              <FieldDescription>
+                Purchases on or after this date are paid at the saved rates.
+              </FieldDescription>
+            </Field>
+            <Field>
+              <FieldLabel htmlFor="revisionNote">Note</FieldLabel>
+              <InputGroup>
+                <InputGroupInput
+                  id="revisionNote"
+                  placeholder="Reason for this change"
+                  value={revisionNote}
+                  onChange={(e) => setRevisionNote(e.target.value)}
+                />
+              </InputGroup>
+            </Field>
+          </div>
+        ) : null}
       </CardContent>
 
       <CardFooter className="justify-between gap-3 border-t border-border">
@@ -455,34 +1044,38 @@ export default function BagRatesPage() {
             <FieldError>{formError}</FieldError>
           ) : riceTypes.length === 0 ? null : isDirty ? (
             <div className="text-xs text-muted-foreground">Unsaved changes.</div>
+          ) : lastSavedAt && draft ? (
+            <div className="text-xs text-muted-foreground">Draft saved.</div>
           ) : lastSavedAt ? (
-            <div className="text-xs text-muted-foreground">All changes saved.</div>
+            <div className="text-xs text-muted-foreground">All changes published.</div>
           ) : (
             <div className="text-xs text-muted-foreground">No changes.</div>
           )}
         </div>
 
         <div className="flex items-center gap-2">
-          <Button
-            type="button"
-            variant="outline"
-            disabled={saveMutation.isPending || resetMutation.isPending || riceTypes.length === 0}
-            onClick={() => setResetOpen(true)}
-          >
-            Reset
-          </Button>
+          {can("bagRates:reset") ? (
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isBusy || riceTypes.length === 0 || bagSizes.length === 0 || isLocked}
+              onClick={() => setResetOpen(true)}
+            >
+              Reset
+            </Button>
+          ) : null}
 
           <Button
             disabled={
-              saveMutation.isPending ||
-              resetMutation.isPending ||
+              isBusy ||
               riceTypes.length === 0 ||
               typeof selectedYear !== "number" ||
+              isLocked ||
               !isDirty
             }
             onClick={() => saveMutation.mutate()}
           >
-            {saveMutation.isPending ? "Saving…" : "Save changes"}
+            {saveMutation.isPending ? "Saving…" : "Save draft"}
           </Button>
         </div>
       </CardFooter>
@@ -496,6 +1089,65 @@ export default function BagRatesPage() {
         riceTypesCount={riceTypes.length}
         hasYearSelected={typeof selectedYear === "number"}
       />
+
+      <BagRatesCopyDialog
+        open={copyOpen}
+        onOpenChange={setCopyOpen}
+        cropYearStartYearOptions={copySourceStartYearOptions}
+        cropYearLabelByStartYear={cropYearLabelByStartYear}
+        seasonsByStartYear={seasonsByStartYear}
+        targetCropYearStartYear={selectedYear}
+        targetSeasonCode={seasonCode}
+        riceTypes={riceTypes}
+        bagSizes={bagSizes}
+        onApply={applyCopiedRates}
+      />
+
+      <BagRatesImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        riceTypes={riceTypes}
+        bagSizes={bagSizes}
+        currentRates={currentRates}
+        cropYearStartYear={selectedYear}
+        seasonCode={seasonCode}
+        effectiveFrom={effectiveFrom}
+        onImport={(importedRates, fileName) => importMutation.mutate({ rates: importedRates, fileName })}
+        isSaving={importMutation.isPending}
+      />
+
+      <BagRatesHistoryDialog
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        cropYearStartYear={selectedYear}
+        cropYearLabel={
+          typeof selectedYear === "number"
+            ? cropYearLabelByStartYear.get(selectedYear) ?? String(selectedYear)
+            : ""
+        }
+        seasonCode={seasonCode}
+        seasonName={seasonName}
+        bagSizes={bagSizes}
+        defaultEffectiveFrom={todayIsoDate()}
+        onRestore={(revision, restoreEffectiveFrom, note) =>
+          restoreMutation.mutate({ revision, effectiveFrom: restoreEffectiveFrom, note })
+        }
+        isRestoring={restoreMutation.isPending}
+        readOnly={isLocked}
+      />
+
+      <BagRatesReviewDialog
+        open={reviewOpen}
+        onOpenChange={setReviewOpen}
+        draft={isPendingApproval ? draft : null}
+        publishedItems={bagRateItems}
+        bagSizes={bagSizes}
+        blockedReason={reviewBlockedReason}
+        onApprove={(comment) => approveMutation.mutate(comment)}
+        onReject={(comment) => rejectMutation.mutate(comment)}
+        isApproving={approveMutation.isPending}
+        isRejecting={rejectMutation.isPending}
+      />
     </Card>
   );
 }
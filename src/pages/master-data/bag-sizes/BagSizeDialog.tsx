@@ -0,0 +1,151 @@
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Controller, useForm } from "react-hook-form";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Field,
+    FieldDescription,
+    FieldError,
+    FieldGroup,
+    FieldLabel,
+} from "@/components/ui/field";
+import {
+    InputGroup,
+    InputGroupAddon,
+    InputGroupInput,
+} from "@/components/ui/input-group";
+import { Checkbox } from "@/components/ui/checkbox";
+
+const bagSizeSchema = z.object({
+    code: z.string().min(1, "Enter a bag size code.").toUpperCase(),
+    weightKg: z
+        .string()
+        .trim()
+        .refine((v) => v !== "" && Number.isFinite(Number(v)) && Number(v) > 0, "Enter a valid weight."),
+    displayOrder: z
+        .string()
+        .trim()
+        .refine((v) => /^\d+$/.test(v), "Enter a whole number."),
+    isActive: z.boolean(),
+});
+
+export type BagSizeFormData = z.infer<typeof bagSizeSchema>;
+
+interface BagSizeDialogProps {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    mode: "create" | "edit";
+    initialValues: BagSizeFormData;
+    onSave: (data: BagSizeFormData) => void;
+    isSaving: boolean;
+}
+
+export function BagSizeDialog(props: BagSizeDialogProps) {
+    const isEdit = props.mode === "edit";
+    const {
+        register,
+        handleSubmit,
+        reset,
+        control,
+        formState: { errors, isValid, isDirty },
+    } = useForm<BagSizeFormData>({
+        resolver: zodResolver(bagSizeSchema),
+        defaultValues: props.initialValues,
+        mode: "onChange",
+    });
+
+    React.useEffect(() => {
+        if (props.open) reset(props.initialValues);
+    }, [props.open, props.initialValues, reset]);
+
+    return (
+        <Dialog open={props.open} onOpenChange={props.onOpenChange}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>{isEdit ? "Edit bag size" : "New bag size"}</DialogTitle>
+                    <DialogDescription>
+                        {isEdit
+                            ? "Update the bag size details."
+                            : "Codes are stored in uppercase and are used as column keys in bag rates."}
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit(props.onSave)} className="space-y-4">
+                    <FieldGroup>
+                        <Field>
+                            <FieldLabel htmlFor="bagSizeCode">Code</FieldLabel>
+                            <InputGroup>
+                                <InputGroupAddon>Code</InputGroupAddon>
+                                <InputGroupInput
+                                    id="bagSizeCode"
+                                    placeholder="KG_50"
+                                    disabled={isEdit}
+                                    {...register("code")}
+                                />
+                            </InputGroup>
+                            <FieldError errors={errors.code ? [errors.code] : []} />
+                        </Field>
+                        <Field>
+                            <FieldLabel htmlFor="bagSizeWeight">Weight</FieldLabel>
+                            <InputGroup>
+                                <InputGroupInput
+                                    id="bagSizeWeight"
+                                    inputMode="decimal"
+                                    placeholder="50"
+                                    {...register("weightKg")}
+                                />
+                                <InputGroupAddon align="inline-end">kg</InputGroupAddon>
+                            </InputGroup>
+                            <FieldError errors={errors.weightKg ? [errors.weightKg] : []} />
+                        </Field>
+                        <Field>
+                            <FieldLabel htmlFor="bagSizeDisplayOrder">Display order</FieldLabel>
+                            <InputGroup>
+                                <InputGroupInput
+                                    id="bagSizeDisplayOrder"
+                                    inputMode="numeric"
+                                    placeholder="0"
+                                    {...register("displayOrder")}
+                                />
+                            </InputGroup>
+                            <FieldDescription>Lower numbers appear first in the bag rate grid.</FieldDescription>
+                            <FieldError errors={errors.displayOrder ? [errors.displayOrder] : []} />
+                        </Field>
+                        <Field>
+                            <label className="flex items-center gap-2 text-sm">
+                                <Controller
+                                    control={control}
+                                    name="isActive"
+                                    render={({ field }) => (
+                                        <Checkbox
+                                            checked={field.value}
+                                            onCheckedChange={(v) => field.onChange(Boolean(v))}
+                                        />
+                                    )}
+                                />
+                                <span>Active</span>
+                            </label>
+                        </Field>
+                    </FieldGroup>
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={() => props.onOpenChange(false)}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={props.isSaving || !isValid || (isEdit && !isDirty)}>
+                            {props.isSaving ? "Saving…" : "Save"}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,248 @@
+import * as React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu";
+import { MoreHorizontalIcon } from "lucide-react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+import { useUiStore } from "@/store";
+import {
+  listMasterBagSizes,
+  upsertMasterBagSize,
+  deleteMasterBagSize,
+} from "@/lib/masterBagSizes";
+import { formatBagSizeLabel } from "@/lib/money";
+import type { MasterBagSize } from "@/types/masterBagSizes";
+
+import { BagSizeDialog, type BagSizeFormData } from "./BagSizeDialog";
+
+function ActiveBadge({ isActive }: { isActive: boolean }) {
+  return (
+    <Badge variant={isActive ? "default" : "outline"}>
+      {isActive ? "Active" : "Inactive"}
+    </Badge>
+  );
+}
+
+export default function BagSizesPage() {
+  const { showToast } = useUiStore();
+  const queryClient = useQueryClient();
+
+  const [includeInactive, setIncludeInactive] = React.useState(false);
+  const [createOpen, setCreateOpen] = React.useState(false);
+  const [editItem, setEditItem] = React.useState<MasterBagSize | null>(null);
+  const [deleteItem, setDeleteItem] = React.useState<MasterBagSize | null>(null);
+
+  const bagSizesQuery = useQuery({
+    queryKey: ["masterBagSizes", includeInactive],
+    queryFn: () => listMasterBagSizes({ includeInactive }),
+  });
+
+  const items = React.useMemo(() => {
+    return bagSizesQuery.data?.data.items ?? [];
+  }, [bagSizesQuery.data?.data.items]);
+
+  const createInitialValues = React.useMemo<BagSizeFormData>(() => {
+    const nextOrder = items.reduce((max, i) => Math.max(max, i.displayOrder + 1), 0);
+    return { code: "", weightKg: "", displayOrder: String(nextOrder), isActive: true };
+  }, [items]);
+
+  const editInitialValues = React.useMemo<BagSizeFormData>(
+    () => ({
+      code: editItem?.code ?? "",
+      weightKg: editItem ? String(editItem.weightKg) : "",
+      displayOrder: editItem ? String(editItem.displayOrder) : "0",
+      isActive: editItem?.isActive ?? true,
+    }),
+    [editItem]
+  );
+
+  const upsertMutation = useMutation({
+    mutationFn: async (data: BagSizeFormData) => {
+      return upsertMasterBagSize(editItem?.code ?? data.code, {
+        weightKg: Number(data.weightKg),
+        displayOrder: Number(data.displayOrder),
+        isActive: data.isActive,
+      });
+    },
+    onSuccess: (res) => {
+      showToast(res.message ?? "Bag size saved.", "success");
+      void queryClient.invalidateQueries({ queryKey: ["masterBagSizes"] });
+      setCreateOpen(false);
+      setEditItem(null);
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Save failed.";
+      showToast(message, "error");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (code: string) => {
+      return deleteMasterBagSize(code);
+    },
+    onSuccess: (res) => {
+      showToast(res.message ?? "Bag size deleted.", "success");
+      void queryClient.invalidateQueries({ queryKey: ["masterBagSizes"] });
+      setDeleteItem(null);
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Delete failed.";
+      showToast(message, "error");
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle>Bag Sizes</CardTitle>
+            <div className="text-sm text-muted-foreground">
+              Maintain the bag sizes used for bag rates (example: 100 kg, 75 kg, 50 kg).
+            </div>
+          </div>
+          <Button size="lg" onClick={() => setCreateOpen(true)}>
+            New
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={includeInactive}
+              onCheckedChange={(v) => setIncludeInactive(Boolean(v))}
+            />
+            <span>Show inactive</span>
+          </label>
+        </div>
+
+        {bagSizesQuery.isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading…</div>
+        ) : bagSizesQuery.isError ? (
+          <div className="text-sm text-destructive">Failed to load bag sizes.</div>
+        ) : items.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No bag sizes found.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Code</TableHead>
+                <TableHead>Weight</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((b) => (
+                <TableRow key={b.id}>
+                  <TableCell className="text-muted-foreground">{b.displayOrder}</TableCell>
+                  <TableCell className="font-mono text-xs">{b.code}</TableCell>
+                  <TableCell>{formatBagSizeLabel(b)}</TableCell>
+                  <TableCell>
+                    <ActiveBadge isActive={b.isActive} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger
+                        aria-label="Open actions"
+                        className={buttonVariants({ size: "icon-sm", variant: "ghost" })}
+                      >
+                        <MoreHorizontalIcon />
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => setEditItem(b)}>Edit</DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          className="text-destructive focus:text-destructive"
+                          onClick={() => setDeleteItem(b)}
+                        >
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <BagSizeDialog
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        mode="create"
+        initialValues={createInitialValues}
+        isSaving={upsertMutation.isPending}
+        onSave={(data) => upsertMutation.mutate(data)}
+      />
+
+      <BagSizeDialog
+        open={Boolean(editItem)}
+        onOpenChange={(open) => (!open ? setEditItem(null) : null)}
+        mode="edit"
+        initialValues={editInitialValues}
+        isSaving={upsertMutation.isPending}
+        onSave={(data) => upsertMutation.mutate(data)}
+      />
+
+      <AlertDialog open={!!deleteItem} onOpenChange={(open) => !open && setDeleteItem(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will delete the bag size <strong>{deleteItem ? formatBagSizeLabel(deleteItem) : ""}</strong>.
+              Bag rates already saved for it are kept, but it will no longer appear in the rate grid. Mark it
+              inactive instead if you may need it again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={buttonVariants({ variant: "destructive" })}
+              onClick={() => {
+                if (deleteItem) {
+                  deleteMutation.mutate(deleteItem.code);
+                }
+              }}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Field,
+    FieldError,
+    FieldGroup,
+    FieldLabel,
+} from "@/components/ui/field";
+import {
+    InputGroup,
+    InputGroupAddon,
+    InputGroupInput,
+} from "@/components/ui/input-group";
+import type { CropYear } from "@/types/cropYears";
+
+const cropYearSchema = z.object({
+    label: z.string().trim().min(1, "Enter a label."),
+});
+
+export type CropYearFormData = z.infer<typeof cropYearSchema>;
+
+interface EditCropYearDialogProps {
+    item: CropYear | null;
+    onClose: () => void;
+    onSave: (data: CropYearFormData) => void;
+    isSaving: boolean;
+}
+
+export function EditCropYearDialog({ item, onClose, onSave, isSaving }: EditCropYearDialogProps) {
+    const {
+        register,
+        handleSubmit,
+        reset,
+        formState: { errors, isValid, isDirty },
+    } = useForm<CropYearFormData>({
+        resolver: zodResolver(cropYearSchema),
+        defaultValues: { label: "" },
+        mode: "onChange",
+    });
+
+    React.useEffect(() => {
+        if (item) reset({ label: item.label });
+    }, [item, reset]);
+
+    return (
+        <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="sm:max-w-md">
+                <DialogHeader>
+                    <DialogTitle>Edit crop year</DialogTitle>
+                    <DialogDescription>
+                        The start year cannot be changed because bag rates are stored against it.
+                    </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleSubmit(onSave)} className="space-y-4">
+                    <FieldGroup>
+                        <Field>
+                            <FieldLabel htmlFor="cropYearStartYear">Start year</FieldLabel>
+                            <InputGroup>
+                                <InputGroupInput id="cropYearStartYear" value={item?.startYear ?? ""} disabled readOnly />
+                            </InputGroup>
+                        </Field>
+                        <Field>
+                            <FieldLabel htmlFor="cropYearLabel">Label</FieldLabel>
+                            <InputGroup>
+                                <InputGroupAddon>Label</InputGroupAddon>
+                                <InputGroupInput id="cropYearLabel" placeholder="2025-26" {...register("label")} />
+                            </InputGroup>
+                            <FieldError errors={errors.label ? [errors.label] : []} />
+                        </Field>
+                    </FieldGroup>
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={onClose}>
+                            Cancel
+                        </Button>
+                        <Button type="submit" disabled={isSaving || !isValid || !isDirty}>
+                            {isSaving ? "Saving…" : "Save"}
+                        </Button>
+                    </DialogFooter>
+                </form>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,244 @@
+import * as React from "react";
+import { Trash2Icon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { FieldError } from "@/components/ui/field";
+import { InputGroup, InputGroupInput } from "@/components/ui/input-group";
+import { compareSeasons, findSeasonOverlaps } from "@/lib/cropYears";
+import {
+    UpdateCropYearSeasonsRequestSchema,
+    type CropYear,
+    type Season,
+    type UpdateCropYearSeasonsRequest,
+} from "@/types/cropYears";
+
+type SeasonRow = {
+    key: string;
+    code: string;
+    name: string;
+    procurementStartDate: string;
+    procurementEndDate: string;
+    isCustom: boolean;
+    isNew: boolean;
+};
+
+function rowsFromCropYear(cropYear: CropYear): SeasonRow[] {
+    return cropYear.seasons
+        .slice()
+        .sort(compareSeasons)
+        .map((s) => ({
+            key: s.id,
+            code: s.code,
+            name: s.name,
+            procurementStartDate: s.procurementStartDate?.slice(0, 10) ?? "",
+            procurementEndDate: s.procurementEndDate?.slice(0, 10) ?? "",
+            isCustom: s.isCustom,
+            isNew: false,
+        }));
+}
+
+function rowToSeason(row: SeasonRow): Season {
+    return {
+        id: row.key,
+        code: row.code.trim().toUpperCase(),
+        name: row.name,
+        isCustom: row.isCustom,
+        procurementStartDate: row.procurementStartDate || null,
+        procurementEndDate: row.procurementEndDate || null,
+    };
+}
+
+interface CropYearSeasonsDialogProps {
+    item: CropYear | null;
+    onClose: () => void;
+    onSave: (payload: UpdateCropYearSeasonsRequest) => void;
+    isSaving: boolean;
+}
+
+export function CropYearSeasonsDialog({ item, onClose, onSave, isSaving }: CropYearSeasonsDialogProps) {
+    const [rows, setRows] = React.useState<SeasonRow[]>([]);
+    const [error, setError] = React.useState<string | null>(null);
+
+    React.useEffect(() => {
+        if (!item) return;
+        setRows(rowsFromCropYear(item));
+        setError(null);
+    }, [item]);
+
+    const overlaps = React.useMemo(() => findSeasonOverlaps(rows.map(rowToSeason)), [rows]);
+
+    function updateRow(key: string, patch: Partial<SeasonRow>) {
+        setRows((prev) => prev.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+        setError(null);
+    }
+
+    function addRow() {
+        setRows((prev) => [
+            ...prev,
+            {
+                key: `new-${Date.now()}`,
+                code: "",
+                name: "",
+                procurementStartDate: "",
+                procurementEndDate: "",
+                isCustom: true,
+                isNew: true,
+            },
+        ]);
+    }
+
+    function handleSave() {
+        const parsed = UpdateCropYearSeasonsRequestSchema.safeParse({
+            seasons: rows.map((r) => ({
+                code: r.code,
+                name: r.name,
+                procurementStartDate: r.procurementStartDate || null,
+                procurementEndDate: r.procurementEndDate || null,
+            })),
+        });
+        if (!parsed.success) {
+            setError(parsed.error.issues[0]?.message ?? "Check the season details and try again.");
+            return;
+        }
+        onSave(parsed.data);
+    }
+
+    return (
+        <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="sm:max-w-3xl">
+                <DialogHeader>
+                    <DialogTitle>Seasons · {item?.label}</DialogTitle>
+                    <DialogDescription>
+                        Set the procurement window for each season. Add a custom season (example: Zaid) if your
+                        state runs one.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead className="w-[130px]">Code</TableHead>
+                            <TableHead>Name</TableHead>
+                            <TableHead className="w-[160px]">Procurement start</TableHead>
+                            <TableHead className="w-[160px]">Procurement end</TableHead>
+                            <TableHead className="w-[40px]" />
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {rows.map((row) => {
+                            const overlapping = overlaps.get(row.code.trim().toUpperCase()) ?? [];
+                            return (
+                                <TableRow key={row.key}>
+                                    <TableCell>
+                                        <InputGroup>
+                                            <InputGroupInput
+                                                aria-label="Season code"
+                                                placeholder="ZAID"
+                                                disabled={!row.isNew}
+                                                value={row.code}
+                                                onChange={(e) => updateRow(row.key, { code: e.target.value })}
+                                            />
+                                        </InputGroup>
+                                    </TableCell>
+                                    <TableCell>
+                                        <InputGroup>
+                                            <InputGroupInput
+                                                aria-label="Season name"
+                                                placeholder="Zaid"
+                                                disabled={!row.isCustom}
+                                                value={row.name}
+                                                onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                                            />
+                                        </InputGroup>
+                                        {overlapping.length > 0 ? (
+                                            <div className="mt-1 text-[11px] text-destructive">
+                                                Overlaps {overlapping.map((s) => s.name || s.code).join(", ")}
+                                            </div>
+                                        ) : null}
+                                    </TableCell>
+                                    <TableCell>
+                                        <InputGroup>
+                                            <InputGroupInput
+                                                type="date"
+                                                aria-label="Procurement start"
+                                                value={row.procurementStartDate}
+                                                onChange={(e) =>
+                                                    updateRow(row.key, { procurementStartDate: e.target.value })
+                                                }
+                                            />
+                                        </InputGroup>
+                                    </TableCell>
+                                    <TableCell>
+                                        <InputGroup>
+                                            <InputGroupInput
+                                                type="date"
+                                                aria-label="Procurement end"
+                                                value={row.procurementEndDate}
+                                                onChange={(e) =>
+                                                    updateRow(row.key, { procurementEndDate: e.target.value })
+                                                }
+                                            />
+                                        </InputGroup>
+                                    </TableCell>
+                                    <TableCell className="text-right">
+                                        {row.isCustom ? (
+                                            <Button
+                                                type="button"
+                                                variant="ghost"
+                                                size="icon-sm"
+                                                aria-label="Remove season"
+                                                onClick={() => setRows((prev) => prev.filter((r) => r.key !== row.key))}
+                                            >
+                                                <Trash2Icon />
+                                            </Button>
+                                        ) : null}
+                                    </TableCell>
+                                </TableRow>
+                            );
+                        })}
+                    </TableBody>
+                </Table>
+
+                <div>
+                    <Button type="button" variant="outline" size="sm" onClick={addRow}>
+                        Add custom season
+                    </Button>
+                </div>
+
+                {overlaps.size > 0 ? (
+                    <div className="text-xs text-muted-foreground">
+                        Overlapping windows can be saved, but purchases in the overlap may be recorded against either
+                        season.
+                    </div>
+                ) : null}
+
+                {error ? <FieldError>{error}</FieldError> : null}
+
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={onClose}>
+                        Cancel
+                    </Button>
+                    <Button type="button" disabled={isSaving} onClick={handleSave}>
+                        {isSaving ? "Saving…" : "Save"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -1,7 +1,8 @@
 import * as React from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
-import { Button } from "@/components/ui/button";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Field,
@@ -15,13 +16,95 @@ import {
   InputGroupAddon,
   InputGroupInput,
 } from "@/components/ui/input-group";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MoreHorizontalIcon } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useUiStore } from "@/store";
-import { createCropYear, listCropYears } from "@/lib/cropYears";
-import type { CropYear } from "@/types/cropYears";
+import {
+  CROP_YEAR_STATUS_LABELS,
+  CROP_YEAR_STATUS_TRANSITIONS,
+  compareSeasons,
+  createCropYear,
+  findSeasonOverlaps,
+  listCropYears,
+  setCropYearStatus,
+  setCurrentCropYear,
+  updateCropYear,
+  updateCropYearSeasons,
+} from "@/lib/cropYears";
+import type { CropYear, CropYearStatus, UpdateCropYearSeasonsRequest } from "@/types/cropYears";
+
+import { EditCropYearDialog, type CropYearFormData } from "./CropYearDialog";
+import { CropYearSeasonsDialog } from "./CropYearSeasonsDialog";
 
-function sortSeasons(a: { code: string }, b: { code: string }): number {
-  const order: Record<string, number> = { KHARIF: 1, RABI: 2 };
-  return (order[a.code] ?? 99) - (order[b.code] ?? 99);
+function formatDate(value: string | null): string {
+  if (!value) return "—";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return value;
+  return d.toLocaleDateString(undefined, { day: "2-digit", month: "short", year: "numeric" });
+}
+
+function StatusBadge({ status }: { status: CropYearStatus }) {
+  return (
+    <Badge variant={status === "OPEN" ? "default" : status === "PLANNED" ? "secondary" : "outline"}>
+      {CROP_YEAR_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
+
+function SeasonWindows({ cropYear }: { cropYear: CropYear }) {
+  const overlaps = findSeasonOverlaps(cropYear.seasons);
+  return (
+    <div className="space-y-0.5 text-xs text-muted-foreground">
+      {cropYear.seasons
+        .slice()
+        .sort(compareSeasons)
+        .map((s) => (
+          <div key={s.id} className="flex flex-wrap items-center gap-x-2">
+            <span className="font-medium text-foreground">{s.name}</span>
+            <span>
+              {s.procurementStartDate || s.procurementEndDate
+                ? `${formatDate(s.procurementStartDate)} – ${formatDate(s.procurementEndDate)}`
+                : "No dates set"}
+            </span>
+            {overlaps.has(s.code) ? (
+              <span className="text-destructive">
+                Overlaps {(overlaps.get(s.code) ?? []).map((o) => o.name).join(", ")}
+              </span>
+            ) : null}
+          </div>
+        ))}
+    </div>
+  );
+}
+
+function transitionLabel(from: CropYearStatus, to: CropYearStatus): string {
+  if (to === "OPEN") return from === "PLANNED" ? "Open" : "Reopen";
+  if (to === "CLOSED") return from === "ARCHIVED" ? "Restore" : "Close";
+  if (to === "ARCHIVED") return "Archive";
+  return CROP_YEAR_STATUS_LABELS[to];
+}
+
+function transitionDescription(label: string, to: CropYearStatus): string {
+  if (to === "OPEN") return `Bag rates for ${label} can be edited again.`;
+  if (to === "CLOSED") return `Bag rates for ${label} become read-only. You can reopen the year later.`;
+  if (to === "ARCHIVED") return `${label} is hidden from rate pages and stays read-only. You can restore it later.`;
+  return "";
 }
 
 function parseStartYearFromLabel(raw: string): number {
@@ -63,6 +146,12 @@ export default function CropYearsPage() {
 
   const [startYearRaw, setStartYearRaw] = React.useState("");
   const [formError, setFormError] = React.useState<string | null>(null);
+  const [editItem, setEditItem] = React.useState<CropYear | null>(null);
+  const [seasonsItem, setSeasonsItem] = React.useState<CropYear | null>(null);
+  const [statusChange, setStatusChange] = React.useState<{
+    item: CropYear;
+    status: CropYearStatus;
+  } | null>(null);
 
   const cropYearsQuery = useQuery({
     queryKey: ["cropYears", 1, 50],
@@ -87,6 +176,67 @@ export default function CropYearsPage() {
     },
   });
 
+  const updateMutation = useMutation({
+    mutationFn: async (data: CropYearFormData) => {
+      if (!editItem) throw new Error("Select a crop year.");
+      return updateCropYear(editItem.id, { label: data.label });
+    },
+    onSuccess: (res) => {
+      showToast(res.message ?? "Crop year saved.", "success");
+      void queryClient.invalidateQueries({ queryKey: ["cropYears"] });
+      setEditItem(null);
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Save failed.";
+      showToast(message, "error");
+    },
+  });
+
+  const seasonsMutation = useMutation({
+    mutationFn: async (payload: UpdateCropYearSeasonsRequest) => {
+      if (!seasonsItem) throw new Error("Select a crop year.");
+      return updateCropYearSeasons(seasonsItem.id, payload);
+    },
+    onSuccess: (res) => {
+      showToast(res.message ?? "Seasons saved.", "success");
+      void queryClient.invalidateQueries({ queryKey: ["cropYears"] });
+      setSeasonsItem(null);
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Save failed.";
+      showToast(message, "error");
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async (params: { id: string; status: CropYearStatus }) => {
+      return setCropYearStatus(params.id, params.status);
+    },
+    onSuccess: (res) => {
+      showToast(res.message ?? `Crop year ${CROP_YEAR_STATUS_LABELS[res.data.status].toLowerCase()}.`, "success");
+      void queryClient.invalidateQueries({ queryKey: ["cropYears"] });
+      setStatusChange(null);
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Status change failed.";
+      showToast(message, "error");
+    },
+  });
+
+  const currentMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return setCurrentCropYear(id);
+    },
+    onSuccess: (res) => {
+      showToast(res.message ?? `${res.data.label} is now the current crop year.`, "success");
+      void queryClient.invalidateQueries({ queryKey: ["cropYears"] });
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Update failed.";
+      showToast(message, "error");
+    },
+  });
+
   const items = cropYearsQuery.data?.data.items ?? [];
 
   return (
@@ -94,7 +244,9 @@ export default function CropYearsPage() {
       <CardHeader>
         <CardTitle>Crop Years</CardTitle>
         <div className="text-sm text-muted-foreground">
-          Admin creates crop years. Kharif and Rabi seasons are created automatically.
+          Admin creates crop years. Kharif and Rabi seasons are created automatically; add custom seasons
+          and procurement windows from the actions menu. Closed and archived years are read-only for bag
+          rates.
         </div>
       </CardHeader>
       <CardContent className="space-y-6">
@@ -137,25 +289,58 @@ export default function CropYearsPage() {
             <div className="text-sm text-muted-foreground">No crop years found.</div>
           ) : (
             <div className="overflow-hidden rounded-md border border-border">
-              <div className="grid grid-cols-[160px_110px_1fr] gap-2 bg-muted px-3 py-2 text-xs font-medium">
+              <div className="grid grid-cols-[160px_110px_110px_1fr_40px] gap-2 bg-muted px-3 py-2 text-xs font-medium">
                 <div>Label</div>
                 <div>Start year</div>
+                <div>Status</div>
                 <div>Seasons</div>
+                <div />
               </div>
               <div className="divide-y divide-border">
                 {items.map((cy: CropYear) => (
                   <div
                     key={cy.id}
-                    className="grid grid-cols-[160px_110px_1fr] items-center gap-2 px-3 py-2 text-sm"
+                    className="grid grid-cols-[160px_110px_110px_1fr_40px] items-center gap-2 px-3 py-2 text-sm"
                   >
-                    <div className="font-medium">{cy.label}</div>
+                    <div className="flex items-center gap-2 font-medium">
+                      <span>{cy.label}</span>
+                      {cy.isCurrent ? <Badge>Current</Badge> : null}
+                    </div>
                     <div className="text-xs">{cy.startYear}</div>
-                    <div className="text-xs text-muted-foreground">
-                      {cy.seasons
-                        .slice()
-                        .sort(sortSeasons)
-                        .map((s) => s.name)
-                        .join(" · ")}
+                    <div>
+                      <StatusBadge status={cy.status} />
+                    </div>
+                    <SeasonWindows cropYear={cy} />
+                    <div className="text-right">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger
+                          aria-label="Open actions"
+                          className={buttonVariants({ size: "icon-sm", variant: "ghost" })}
+                        >
+                          <MoreHorizontalIcon />
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => setEditItem(cy)}>Edit</DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setSeasonsItem(cy)}>Edit seasons</DropdownMenuItem>
+                          <DropdownMenuItem
+                            disabled={cy.isCurrent || cy.status !== "OPEN" || currentMutation.isPending}
+                            onClick={() => currentMutation.mutate(cy.id)}
+                          >
+                            Set as current
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          {CROP_YEAR_STATUS_TRANSITIONS[cy.status].map((next) => (
+                            <DropdownMenuItem
+                              key={next}
+                              disabled={cy.isCurrent && next !== "OPEN"}
+                              className={next === "ARCHIVED" ? "text-destructive focus:text-destructive" : undefined}
+                              onClick={() => setStatusChange({ item: cy, status: next })}
+                            >
+                              {transitionLabel(cy.status, next)}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
                     </div>
                   </div>
                 ))}
@@ -164,6 +349,55 @@ export default function CropYearsPage() {
           )}
         </div>
       </CardContent>
+
+      <EditCropYearDialog
+        item={editItem}
+        onClose={() => setEditItem(null)}
+        isSaving={updateMutation.isPending}
+        onSave={(data) => updateMutation.mutate(data)}
+      />
+
+      <CropYearSeasonsDialog
+        item={seasonsItem}
+        onClose={() => setSeasonsItem(null)}
+        isSaving={seasonsMutation.isPending}
+        onSave={(payload) => seasonsMutation.mutate(payload)}
+      />
+
+      <AlertDialog open={!!statusChange} onOpenChange={(open) => !open && setStatusChange(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {statusChange
+                ? `${transitionLabel(statusChange.item.status, statusChange.status)} ${statusChange.item.label}?`
+                : ""}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {statusChange ? transitionDescription(statusChange.item.label, statusChange.status) : ""}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className={
+                statusChange?.status === "ARCHIVED" ? buttonVariants({ variant: "destructive" }) : undefined
+              }
+              onClick={() => {
+                if (statusChange) {
+                  statusMutation.mutate({ id: statusChange.item.id, status: statusChange.status });
+                }
+              }}
+              disabled={statusMutation.isPending}
+            >
+              {statusMutation.isPending
+                ? "Saving..."
+                : statusChange
+                  ? transitionLabel(statusChange.item.status, statusChange.status)
+                  : "Confirm"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 }
@@ -0,0 +1,265 @@
+import * as React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Field, FieldDescription, FieldError, FieldLabel } from "@/components/ui/field";
+import { Textarea } from "@/components/ui/textarea";
+import { useUiStore } from "@/store";
+import {
+    archiveAdminOrganization,
+    deleteAdminOrganization,
+    getAdminOrganizationDependencies,
+    restoreAdminOrganization,
+    suspendAdminOrganization,
+} from "@/lib/adminOrganizations";
+import {
+    SuspendOrganizationRequestSchema,
+    type AdminOrganization,
+    type OrganizationStatus,
+} from "@/types/adminOrganizations";
+
+export type OrganizationStatusAction = "suspend" | "archive" | "restore";
+
+const STATUS_LABELS: Record<OrganizationStatus, string> = {
+    ACTIVE: "Active",
+    SUSPENDED: "Suspended",
+    ARCHIVED: "Archived",
+};
+
+export function OrganizationStatusBadge({ status }: { status: OrganizationStatus }) {
+    const variant = status === "ACTIVE" ? "default" : status === "SUSPENDED" ? "destructive" : "outline";
+    return <Badge variant={variant}>{STATUS_LABELS[status]}</Badge>;
+}
+
+const ACTION_COPY: Record<
+    OrganizationStatusAction,
+    { title: string; confirm: string; pending: string; success: string; describe: (org: AdminOrganization) => string }
+> = {
+    suspend: {
+        title: "Suspend organization",
+        confirm: "Suspend",
+        pending: "Suspending…",
+        success: "Organization suspended.",
+        describe: (org) =>
+            `Every user of ${org.name} is signed out and blocked from signing in until the organization is reactivated. Their data is kept.`,
+    },
+    archive: {
+        title: "Archive organization",
+        confirm: "Archive",
+        pending: "Archiving…",
+        success: "Organization archived.",
+        describe: (org) =>
+            `${org.name} is hidden from lists and its users cannot sign in. You can restore it later, or delete it once nothing depends on it.`,
+    },
+    restore: {
+        title: "Restore organization",
+        confirm: "Restore",
+        pending: "Restoring…",
+        success: "Organization restored.",
+        describe: (org) => `${org.name} becomes active again and its users can sign in.`,
+    },
+};
+
+export function OrganizationStatusDialog({
+    target,
+    onClose,
+}: {
+    target: { org: AdminOrganization; action: OrganizationStatusAction } | null;
+    onClose: () => void;
+}) {
+    const { showToast } = useUiStore();
+    const queryClient = useQueryClient();
+    const [reason, setReason] = React.useState("");
+    const [error, setError] = React.useState<string | null>(null);
+
+    React.useEffect(() => {
+        if (!target) return;
+        setReason("");
+        setError(null);
+    }, [target]);
+
+    const mutation = useMutation({
+        mutationFn: async (params: { org: AdminOrganization; action: OrganizationStatusAction; reason: string }) => {
+            if (params.action === "suspend") return suspendAdminOrganization(params.org.id, { reason: params.reason });
+            if (params.action === "archive") return archiveAdminOrganization(params.org.id);
+            return restoreAdminOrganization(params.org.id);
+        },
+        onSuccess: (res, { action }) => {
+            showToast(res.message ?? ACTION_COPY[action].success, "success");
+            void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
+            onClose();
+        },
+        onError: (err: unknown) => {
+            const message = err instanceof Error ? err.message : "Status change failed.";
+            showToast(message, "error");
+        },
+    });
+
+    const copy = target ? ACTION_COPY[target.action] : null;
+
+    function handleConfirm() {
+        if (!target) return;
+        if (target.action === "suspend") {
+            const parsed = SuspendOrganizationRequestSchema.safeParse({ reason });
+            if (!parsed.success) {
+                setError(parsed.error.issues[0]?.message ?? "Enter a reason for the suspension.");
+                return;
+            }
+        }
+        mutation.mutate({ org: target.org, action: target.action, reason });
+    }
+
+    return (
+        <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>{copy?.title}</DialogTitle>
+                    <DialogDescription>{target && copy ? copy.describe(target.org) : null}</DialogDescription>
+                </DialogHeader>
+
+                {target?.action === "suspend" ? (
+                    <Field>
+                        <FieldLabel htmlFor="orgSuspendReason">Reason</FieldLabel>
+                        <Textarea
+                            id="orgSuspendReason"
+                            rows={3}
+                            placeholder="E.g. Licence expired, pending renewal"
+                            value={reason}
+                            onChange={(e) => {
+                                setReason(e.target.value);
+                                setError(null);
+                            }}
+                        />
+                        <FieldDescription>Shown to admins on the organization and recorded in its activity.</FieldDescription>
+                        {error ? <FieldError>{error}</FieldError> : null}
+                    </Field>
+                ) : null}
+
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={onClose}>
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        variant={target?.action === "restore" ? "default" : "destructive"}
+                        disabled={mutation.isPending}
+                        onClick={handleConfirm}
+                    >
+                        {mutation.isPending ? copy?.pending : copy?.confirm}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+export function DeleteOrganizationDialog({
+    org,
+    onClose,
+    onDeleted,
+}: {
+    org: AdminOrganization | null;
+    onClose: () => void;
+    onDeleted?: () => void;
+}) {
+    const { showToast } = useUiStore();
+    const queryClient = useQueryClient();
+
+    const dependenciesQuery = useQuery({
+        queryKey: ["adminOrganizations", "dependencies", org?.id],
+        queryFn: () => getAdminOrganizationDependencies(org?.id ?? ""),
+        enabled: !!org,
+    });
+
+    const deleteMutation = useMutation({
+        mutationFn: (id: string) => deleteAdminOrganization(id),
+        onSuccess: (res) => {
+            showToast(res.message ?? "Organization deleted.", "success");
+            void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
+            onClose();
+            onDeleted?.();
+        },
+        onError: (err: unknown) => {
+            const message = err instanceof Error ? err.message : "Delete failed.";
+            showToast(message, "error");
+        },
+    });
+
+    const dependencies = dependenciesQuery.data?.data.items ?? [];
+    const blocking = dependencies.filter((d) => d.count > 0);
+    const isArchived = org?.status === "ARCHIVED";
+    const canDelete = isArchived && dependenciesQuery.data?.data.canDelete === true;
+
+    return (
+        <Dialog open={!!org} onOpenChange={(open) => !open && onClose()}>
+            <DialogContent className="sm:max-w-lg">
+                <DialogHeader>
+                    <DialogTitle>Delete {org?.name}</DialogTitle>
+                    <DialogDescription>
+                        Deleting is permanent and cannot be undone. It is only allowed for archived organizations
+                        with no dependent data.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!isArchived ? (
+                    <div className="text-sm text-destructive">Archive the organization before deleting it.</div>
+                ) : null}
+
+                {dependenciesQuery.isLoading ? (
+                    <div className="text-sm text-muted-foreground">Checking dependent data…</div>
+                ) : dependenciesQuery.isError ? (
+                    <div className="text-sm text-destructive">
+                        {dependenciesQuery.error instanceof Error
+                            ? dependenciesQuery.error.message
+                            : "Failed to check dependent data."}
+                    </div>
+                ) : (
+                    <div className="space-y-2 text-sm">
+                        <div className="rounded-md border">
+                            {dependencies.map((d) => (
+                                <div
+                                    key={d.key}
+                                    className="flex items-center justify-between border-b px-3 py-1.5 last:border-b-0"
+                                >
+                                    <span>{d.label}</span>
+                                    <span className={d.count > 0 ? "font-medium text-destructive" : "text-muted-foreground"}>
+                                        {d.count}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                        {blocking.length > 0 ? (
+                            <div className="text-xs text-muted-foreground">
+                                Remove or reassign the records above first. Keep the organization archived if they must
+                                be retained.
+                            </div>
+                        ) : null}
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button type="button" variant="outline" onClick={onClose}>
+                        Cancel
+                    </Button>
+                    <Button
+                        type="button"
+                        variant="destructive"
+                        disabled={!canDelete || deleteMutation.isPending}
+                        onClick={() => (org ? deleteMutation.mutate(org.id) : null)}
+                    >
+                        {deleteMutation.isPending ? "Deleting…" : "Delete permanently"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
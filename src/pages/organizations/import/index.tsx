@@ -0,0 +1,489 @@
+import * as React from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+
+import { Badge } from "@/components/ui/badge";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Field, FieldDescription, FieldError, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUiStore } from "@/store";
+import { DEFAULT_TEMP_CREDENTIAL_EXPIRY_HOURS } from "@/config";
+import { createAdminOrganization } from "@/lib/adminOrganizations";
+import { createAdminUser } from "@/lib/adminUsers";
+import {
+  ORGANIZATION_IMPORT_FIELDS,
+  ORGANIZATION_IMPORT_TEMPLATE,
+  buildImportResultsSheet,
+  guessImportMapping,
+  readImportRows,
+  resolveImportVillages,
+  validateImportMapping,
+  type OrganizationImportMapping,
+  type OrganizationImportResult,
+  type OrganizationImportRow,
+} from "@/lib/organizationImport";
+import { downloadSpreadsheet, readSpreadsheetFile, type SpreadsheetFormat, type SpreadsheetRow } from "@/lib/spreadsheet";
+
+type Step = "upload" | "map" | "preview" | "import";
+
+const NOT_MAPPED = "NOT_MAPPED";
+
+const STEPS: Array<{ value: Step; label: string }> = [
+  { value: "upload", label: "Upload" },
+  { value: "map", label: "Map columns" },
+  { value: "preview", label: "Review" },
+  { value: "import", label: "Import" },
+];
+
+const RESULT_BADGES: Record<OrganizationImportResult["status"], { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  created: { label: "Created", variant: "default" },
+  partial: { label: "Organization only", variant: "secondary" },
+  failed: { label: "Failed", variant: "destructive" },
+  skipped: { label: "Skipped", variant: "outline" },
+};
+
+function formatRowLocation(row: OrganizationImportRow) {
+  if (row.resolvedVillage) {
+    const v = row.resolvedVillage;
+    return `${v.name}, ${v.mandalName}, ${v.districtName}, ${v.stateName}`;
+  }
+  const parts = [row.village, row.mandal, row.district, row.state].filter((p) => p !== "");
+  if (parts.length) return parts.join(", ");
+  return row.villageId ? `Village ID ${row.villageId}` : "—";
+}
+
+function skippedResult(row: OrganizationImportRow): OrganizationImportResult {
+  return {
+    line: row.line,
+    name: row.name,
+    organizationId: null,
+    millerEmail: row.millerEmail,
+    temporaryPassword: null,
+    passwordExpiresAt: null,
+    status: "skipped",
+    message: row.errors.join(" "),
+  };
+}
+
+export default function OrganizationImportPage() {
+  const { showToast } = useUiStore();
+  const queryClient = useQueryClient();
+
+  const [step, setStep] = React.useState<Step>("upload");
+  const [fileName, setFileName] = React.useState("");
+  const [sheet, setSheet] = React.useState<SpreadsheetRow[]>([]);
+  const [fileError, setFileError] = React.useState<string | null>(null);
+  const [isReading, setIsReading] = React.useState(false);
+
+  const [mapping, setMapping] = React.useState<OrganizationImportMapping | null>(null);
+  const [mappingError, setMappingError] = React.useState<string | null>(null);
+  const [checking, setChecking] = React.useState<{ done: number; total: number } | null>(null);
+
+  const [rows, setRows] = React.useState<OrganizationImportRow[]>([]);
+  const [results, setResults] = React.useState<Map<number, OrganizationImportResult>>(new Map());
+  const [activeLine, setActiveLine] = React.useState<number | null>(null);
+  const [isImporting, setIsImporting] = React.useState(false);
+  const stopRequested = React.useRef(false);
+
+  const header = sheet[0] ?? [];
+  const validRows = rows.filter((r) => r.errors.length === 0);
+  const invalidCount = rows.length - validRows.length;
+  const processedCount = validRows.filter((r) => results.has(r.line)).length;
+  const isFinished = step === "import" && !isImporting;
+
+  function reset() {
+    setStep("upload");
+    setFileName("");
+    setSheet([]);
+    setFileError(null);
+    setMapping(null);
+    setMappingError(null);
+    setRows([]);
+    setResults(new Map());
+    setActiveLine(null);
+  }
+
+  async function onFileChange(file: File | undefined) {
+    setSheet([]);
+    setFileError(null);
+    if (!file) {
+      setFileName("");
+      return;
+    }
+    setFileName(file.name);
+    setIsReading(true);
+    try {
+      const parsed = await readSpreadsheetFile(file);
+      if (parsed.length < 2) throw new Error("The file has no organization rows.");
+      setSheet(parsed);
+      setMapping(guessImportMapping(parsed[0]));
+      setMappingError(null);
+      setStep("map");
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : "Failed to read the file.");
+    } finally {
+      setIsReading(false);
+    }
+  }
+
+  async function downloadTemplate(format: SpreadsheetFormat) {
+    try {
+      await downloadSpreadsheet(ORGANIZATION_IMPORT_TEMPLATE, "organization-import-template", format, "Organizations");
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Download failed.", "error");
+    }
+  }
+
+  async function checkRows() {
+    if (!mapping) return;
+    const error = validateImportMapping(mapping);
+    setMappingError(error);
+    if (error) return;
+
+    const parsed = readImportRows(sheet, mapping);
+    setChecking({ done: 0, total: parsed.length });
+    try {
+      const resolved = await resolveImportVillages(parsed, (done, total) => setChecking({ done, total }));
+      setRows(resolved);
+      setResults(new Map());
+      setStep("preview");
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to check villages.", "error");
+    } finally {
+      setChecking(null);
+    }
+  }
+
+  function record(result: OrganizationImportResult) {
+    setResults((prev) => new Map(prev).set(result.line, result));
+  }
+
+  async function runImport() {
+    stopRequested.current = false;
+    setIsImporting(true);
+    setStep("import");
+
+    for (const row of validRows) {
+      if (stopRequested.current) break;
+      if (results.has(row.line)) continue;
+      setActiveLine(row.line);
+
+      const base = {
+        line: row.line,
+        name: row.name,
+        millerEmail: row.millerEmail,
+      };
+
+      let organizationId: string;
+      try {
+        const res = await createAdminOrganization({ name: row.name, villageId: row.villageId });
+        organizationId = res.data.id;
+      } catch (err) {
+        record({
+          ...base,
+          organizationId: null,
+          temporaryPassword: null,
+          passwordExpiresAt: null,
+          status: "failed",
+          message: err instanceof Error ? err.message : "Organization could not be created.",
+        });
+        continue;
+      }
+
+      try {
+        const res = await createAdminUser({
+          role: "MILLER",
+          organizationId,
+          email: row.millerEmail,
+          firstName: row.millerFirstName,
+          lastName: row.millerLastName,
+          handoff: "TEMPORARY_PASSWORD",
+          expiresInHours: DEFAULT_TEMP_CREDENTIAL_EXPIRY_HOURS,
+        });
+        record({
+          ...base,
+          organizationId,
+          temporaryPassword: res.data.temporaryPassword,
+          passwordExpiresAt: res.data.temporaryCredential?.expiresAt ?? null,
+          status: "created",
+          message: "",
+        });
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : "Miller could not be created.";
+        record({
+          ...base,
+          organizationId,
+          temporaryPassword: null,
+          passwordExpiresAt: null,
+          status: "partial",
+          message: `Organization created; add the miller from its profile. ${reason}`,
+        });
+      }
+    }
+
+    setActiveLine(null);
+    setIsImporting(false);
+    void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
+    void queryClient.invalidateQueries({ queryKey: ["adminUsers"] });
+  }
+
+  async function downloadResults(format: SpreadsheetFormat) {
+    const all = rows.map((row) => results.get(row.line) ?? skippedResult(row));
+    try {
+      await downloadSpreadsheet(buildImportResultsSheet(all), "organization-import-results", format, "Results");
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Download failed.", "error");
+    }
+  }
+
+  const createdCount = [...results.values()].filter((r) => r.status === "created").length;
+  const problemCount = [...results.values()].filter((r) => r.status !== "created").length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle>Import organizations</CardTitle>
+            <div className="text-sm text-muted-foreground">
+              Create organizations and their first miller from a CSV or Excel file.
+            </div>
+          </div>
+          <Link to="/organizations" className={buttonVariants({ variant: "outline" })}>
+            All organizations
+          </Link>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 pt-2 text-xs">
+          {STEPS.map((s, i) => (
+            <Badge key={s.value} variant={s.value === step ? "default" : "outline"}>
+              {i + 1}. {s.label}
+            </Badge>
+          ))}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {step === "upload" ? (
+          <div className="space-y-4">
+            <Field>
+              <FieldLabel htmlFor="orgImportFile">File</FieldLabel>
+              <Input
+                id="orgImportFile"
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                disabled={isReading}
+                onChange={(e) => void onFileChange(e.target.files?.[0])}
+              />
+              <FieldDescription>
+                One row per organization: its name, village, and the miller's email and name. Give the mandal and
+                district when a village name is shared, or a village ID.
+              </FieldDescription>
+              {fileError ? <FieldError>{fileError}</FieldError> : null}
+              {isReading ? <FieldDescription>Reading {fileName}…</FieldDescription> : null}
+            </Field>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="outline" onClick={() => void downloadTemplate("csv")}>
+                Template (CSV)
+              </Button>
+              <Button variant="outline" onClick={() => void downloadTemplate("xlsx")}>
+                Template (Excel)
+              </Button>
+            </div>
+          </div>
+        ) : null}
+
+        {step === "map" && mapping ? (
+          <div className="space-y-4">
+            <div className="text-sm text-muted-foreground">
+              {fileName} · {sheet.length - 1} row{sheet.length === 2 ? "" : "s"}. Choose which column holds each field.
+            </div>
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-2 xl:grid-cols-3">
+              {ORGANIZATION_IMPORT_FIELDS.map((field) => (
+                <Field key={field.key}>
+                  <FieldLabel>
+                    {field.label}
+                    {field.required ? "" : " (optional)"}
+                  </FieldLabel>
+                  <Select
+                    value={mapping[field.key] >= 0 ? String(mapping[field.key]) : NOT_MAPPED}
+                    onValueChange={(v) => {
+                      const col = v && v !== NOT_MAPPED ? Number(v) : -1;
+                      setMapping((prev) => (prev ? { ...prev, [field.key]: col } : prev));
+                      setMappingError(null);
+                    }}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue>
+                        {mapping[field.key] >= 0 ? header[mapping[field.key]] || `Column ${mapping[field.key] + 1}` : "Not in file"}
+                      </SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectGroup>
+                        <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                        {header.map((h, i) => (
+                          <SelectItem key={i} value={String(i)}>
+                            {h || `Column ${i + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    </SelectContent>
+                  </Select>
+                </Field>
+              ))}
+            </div>
+            {mappingError ? <div className="text-sm text-destructive">{mappingError}</div> : null}
+            <div className="flex justify-between gap-2">
+              <Button variant="outline" onClick={reset} disabled={!!checking}>
+                Choose another file
+              </Button>
+              <Button onClick={() => void checkRows()} disabled={!!checking}>
+                {checking ? `Checking villages… ${checking.done}/${checking.total}` : "Check rows"}
+              </Button>
+            </div>
+          </div>
+        ) : null}
+
+        {step === "preview" || step === "import" ? (
+          <div className="space-y-3">
+            {step === "preview" ? (
+              <div className="text-sm text-muted-foreground">
+                {rows.length} row{rows.length === 1 ? "" : "s"} · {validRows.length} ready
+                {invalidCount > 0 ? ` · ${invalidCount} with errors will be skipped` : ""}
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground">
+                {isImporting ? "Importing" : "Imported"} {processedCount} of {validRows.length}
+                {isFinished ? ` · ${createdCount} created · ${problemCount} need attention` : ""}
+              </div>
+            )}
+
+            {step === "import" ? (
+              <div className="h-2 overflow-hidden rounded-full bg-muted">
+                <div
+                  className="h-full bg-primary transition-all"
+                  style={{ width: `${validRows.length ? (processedCount / validRows.length) * 100 : 100}%` }}
+                />
+              </div>
+            ) : null}
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-muted hover:bg-muted dark:bg-muted/10">
+                    <TableHead className="w-[60px]">Row</TableHead>
+                    <TableHead>Organization</TableHead>
+                    <TableHead>Village</TableHead>
+                    <TableHead>Miller</TableHead>
+                    <TableHead className="w-[160px]">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => {
+                    const result = results.get(row.line);
+                    return (
+                      <TableRow key={row.line}>
+                        <TableCell className="text-xs text-muted-foreground">{row.line}</TableCell>
+                        <TableCell className="font-medium">
+                          <div>{row.name || "—"}</div>
+                          {row.errors.map((e) => (
+                            <div key={e} className="text-[11px] font-normal text-destructive">
+                              {e}
+                            </div>
+                          ))}
+                          {result?.message ? (
+                            <div className="text-[11px] font-normal text-destructive">{result.message}</div>
+                          ) : null}
+                        </TableCell>
+                        <TableCell className="text-xs">{formatRowLocation(row)}</TableCell>
+                        <TableCell className="text-xs">
+                          <div>{[row.millerFirstName, row.millerLastName].filter(Boolean).join(" ") || "—"}</div>
+                          <div className="text-muted-foreground">{row.millerEmail}</div>
+                        </TableCell>
+                        <TableCell>
+                          {row.errors.length > 0 ? (
+                            <Badge variant="destructive">Invalid</Badge>
+                          ) : result ? (
+                            <Badge variant={RESULT_BADGES[result.status].variant}>
+                              {RESULT_BADGES[result.status].label}
+                            </Badge>
+                          ) : activeLine === row.line ? (
+                            <span className="text-xs text-muted-foreground">Creating…</span>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">
+                              {step === "import" ? "Waiting" : "Ready"}
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            {step === "preview" ? (
+              <div className="flex justify-between gap-2">
+                <Button variant="outline" onClick={() => setStep("map")}>
+                  Back to columns
+                </Button>
+                <Button onClick={() => void runImport()} disabled={validRows.length === 0}>
+                  Import {validRows.length} organization{validRows.length === 1 ? "" : "s"}
+                </Button>
+              </div>
+            ) : isImporting ? (
+              <div className="flex justify-end">
+                <Button variant="outline" onClick={() => {
+                    stopRequested.current = true;
+                  }}>
+                  Stop after this row
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <div className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-sm dark:border-amber-900 dark:bg-amber-950/20">
+                  The results file contains each miller's temporary password and when it expires. They are not shown
+                  again, so download it now and share each password only with its miller.
+                </div>
+                <div className="flex flex-wrap justify-between gap-2">
+                  <div className="flex gap-2">
+                    <Button onClick={() => void downloadResults("xlsx")}>Download results (Excel)</Button>
+                    <Button variant="outline" onClick={() => void downloadResults("csv")}>
+                      Download results (CSV)
+                    </Button>
+                  </div>
+                  <div className="flex gap-2">
+                    {processedCount < validRows.length ? (
+                      <Button variant="outline" onClick={() => void runImport()}>
+                        Continue import
+                      </Button>
+                    ) : null}
+                    <Button variant="outline" onClick={reset}>
+                      Import another file
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
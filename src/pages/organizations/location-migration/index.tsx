@@ -0,0 +1,261 @@
+import * as React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+
+import { Badge } from "@/components/ui/badge";
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { LocationSearchCombobox } from "@/components/ui/location-search-combobox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUiStore } from "@/store";
+import { listAdminOrganizations, updateAdminOrganization } from "@/lib/adminOrganizations";
+import { searchVillagesWithContext } from "@/lib/adminLocationsSearch";
+import { rankVillageMatches } from "@/lib/fuzzyMatch";
+import { cn } from "@/lib/utils";
+import type { AdminOrganization } from "@/types/adminOrganizations";
+
+const DEFAULT_PAGE_SIZE = 20;
+const SUGGESTION_COUNT = 3;
+// Prefix used to widen the search when the full village text finds nothing,
+// so typos after the first few letters still produce candidates.
+const FALLBACK_PREFIX_LENGTH = 3;
+
+function scoreVariant(score: number) {
+  if (score >= 0.85) return "default" as const;
+  if (score >= 0.6) return "secondary" as const;
+  return "outline" as const;
+}
+
+function freeTextLocation(org: AdminOrganization) {
+  const parts = [org.village, org.district, org.state].filter(
+    (v): v is string => typeof v === "string" && v.trim() !== ""
+  );
+  return parts.length ? parts.join(", ") : "No location entered.";
+}
+
+async function suggestVillages(org: AdminOrganization) {
+  const village = org.village?.trim() ?? "";
+  if (!village) return [];
+
+  let candidates = await searchVillagesWithContext(village, 20);
+  if (candidates.length === 0 && village.length > FALLBACK_PREFIX_LENGTH) {
+    candidates = await searchVillagesWithContext(village.slice(0, FALLBACK_PREFIX_LENGTH), 20);
+  }
+
+  return rankVillageMatches(org, candidates).slice(0, SUGGESTION_COUNT);
+}
+
+function LocationMatchRow(props: {
+  org: AdminOrganization;
+  isSaving: boolean;
+  onConfirm: (villageId: string) => void;
+  onSkip: () => void;
+}) {
+  const { org } = props;
+  const [choice, setChoice] = React.useState<{ villageId: string; manual: boolean } | null>(null);
+
+  const suggestionsQuery = useQuery({
+    queryKey: ["orgLocationSuggestions", org.id, org.state, org.district, org.village],
+    queryFn: () => suggestVillages(org),
+    staleTime: 60_000,
+  });
+
+  const suggestions = suggestionsQuery.data ?? [];
+
+  return (
+    <TableRow>
+      <TableCell className="align-top">
+        <div className="font-medium">{org.name}</div>
+        <div className="text-[11px] text-muted-foreground">{freeTextLocation(org)}</div>
+      </TableCell>
+      <TableCell className="align-top">
+        {suggestionsQuery.isLoading ? (
+          <div className="text-xs text-muted-foreground">Finding matches…</div>
+        ) : suggestionsQuery.isError ? (
+          <div className="text-xs text-destructive">Failed to load suggestions.</div>
+        ) : suggestions.length === 0 ? (
+          <div className="text-xs text-muted-foreground">No close matches. Pick a village manually.</div>
+        ) : (
+          <div className="flex flex-col gap-1">
+            {suggestions.map(({ village, score }) => {
+              const selected = choice?.villageId === village.id && !choice.manual;
+              return (
+                <button
+                  key={village.id}
+                  type="button"
+                  aria-pressed={selected}
+                  onClick={() => setChoice(selected ? null : { villageId: village.id, manual: false })}
+                  className={cn(
+                    "flex items-center justify-between gap-3 rounded-md border px-2 py-1 text-left text-xs",
+                    selected ? "border-primary bg-primary/10" : "border-border hover:bg-muted/50"
+                  )}
+                >
+                  <span>
+                    <span className="font-medium">{village.name}</span>
+                    <span className="text-muted-foreground">
+                      {" "}
+                      · {village.mandalName}, {village.districtName}, {village.stateName}
+                    </span>
+                  </span>
+                  <Badge variant={scoreVariant(score)}>{Math.round(score * 100)}%</Badge>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </TableCell>
+      <TableCell className="align-top">
+        <LocationSearchCombobox
+          type="village"
+          value={choice?.manual ? choice.villageId : ""}
+          onValueChange={(id) => setChoice(id ? { villageId: id, manual: true } : null)}
+          placeholder="Search village..."
+        />
+      </TableCell>
+      <TableCell className="align-top text-right">
+        <div className="flex justify-end gap-2">
+          <Button type="button" size="sm" variant="ghost" onClick={props.onSkip}>
+            Skip
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            disabled={!choice || props.isSaving}
+            onClick={() => (choice ? props.onConfirm(choice.villageId) : null)}
+          >
+            Confirm
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function OrganizationLocationMigrationPage() {
+  const { showToast } = useUiStore();
+  const queryClient = useQueryClient();
+
+  const [page, setPage] = React.useState(1);
+  const [skippedIds, setSkippedIds] = React.useState<Set<string>>(() => new Set());
+
+  const listQuery = useQuery({
+    queryKey: ["adminOrganizations", "unlinkedLocations", page, DEFAULT_PAGE_SIZE],
+    queryFn: () =>
+      listAdminOrganizations({ page, limit: DEFAULT_PAGE_SIZE, locationLinked: false }),
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: (params: { id: string; villageId: string }) =>
+      updateAdminOrganization(params.id, { villageId: params.villageId }),
+    onSuccess: (res) => {
+      showToast(res.message ?? `${res.data.name} linked.`, "success");
+      void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
+    },
+    onError: (err) => {
+      showToast(err instanceof Error ? err.message : "Linking failed.", "error");
+    },
+  });
+
+  const items = (listQuery.data?.data.items ?? []).filter((org) => !skippedIds.has(org.id));
+  const total = listQuery.data?.data.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / DEFAULT_PAGE_SIZE));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle>Link organization locations</CardTitle>
+            <div className="text-sm text-muted-foreground">
+              These organizations still have a typed-in state, district and village. Pick the matching village
+              from the location master and confirm. Nothing is linked until you confirm.
+            </div>
+          </div>
+          <Link to="/organizations" className={buttonVariants({ variant: "outline" })}>
+            Back to organizations
+          </Link>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[220px]">Organization</TableHead>
+                <TableHead>Suggested matches</TableHead>
+                <TableHead className="w-[260px]">Or pick a village</TableHead>
+                <TableHead className="w-[160px] text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {listQuery.isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-sm text-muted-foreground">
+                    Loading…
+                  </TableCell>
+                </TableRow>
+              ) : items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-sm text-muted-foreground">
+                    {skippedIds.size > 0
+                      ? "Nothing left on this page. Skipped organizations show again after a reload."
+                      : "Every organization is linked to a location."}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                items.map((org) => (
+                  <LocationMatchRow
+                    key={org.id}
+                    org={org}
+                    isSaving={linkMutation.isPending && linkMutation.variables?.id === org.id}
+                    onConfirm={(villageId) => linkMutation.mutate({ id: org.id, villageId })}
+                    onSkip={() => setSkippedIds((prev) => new Set(prev).add(org.id))}
+                  />
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <div className="text-xs text-muted-foreground">
+            Page {page} of {totalPages} · {total} not linked
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={listQuery.isLoading || page <= 1}
+            >
+              Previous
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+              disabled={listQuery.isLoading || page >= totalPages}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+
+        {listQuery.isError && (
+          <div className="text-xs text-destructive">
+            {listQuery.error instanceof Error ? listQuery.error.message : "Failed to load organizations."}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
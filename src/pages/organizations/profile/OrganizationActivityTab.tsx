@@ -0,0 +1,131 @@
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { listAdminOrganizationActivity } from "@/lib/adminOrganizations";
+
+const DEFAULT_PAGE_SIZE = 20;
+
+function formatDateTime(value: string): string {
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return value;
+  return d.toLocaleString(undefined, {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function OrganizationActivityTab({ organizationId }: { organizationId: string }) {
+  const [page, setPage] = React.useState(1);
+
+  const activityQuery = useQuery({
+    queryKey: ["adminOrganizations", "activity", organizationId, page, DEFAULT_PAGE_SIZE],
+    queryFn: () => listAdminOrganizationActivity(organizationId, { page, limit: DEFAULT_PAGE_SIZE }),
+  });
+
+  const items = activityQuery.data?.data.items ?? [];
+  const total = activityQuery.data?.data.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / DEFAULT_PAGE_SIZE));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Activity</CardTitle>
+        <div className="text-sm text-muted-foreground">
+          Changes to this organization and its users, newest first.
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[180px]">When</TableHead>
+                <TableHead>What happened</TableHead>
+                <TableHead className="w-[240px]">By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {activityQuery.isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-sm text-muted-foreground">
+                    Loading…
+                  </TableCell>
+                </TableRow>
+              ) : items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-sm text-muted-foreground">
+                    No activity recorded yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {formatDateTime(item.createdAt)}
+                    </TableCell>
+                    <TableCell>
+                      <div>{item.summary}</div>
+                      <div className="font-mono text-[11px] text-muted-foreground">
+                        {item.action}
+                      </div>
+                    </TableCell>
+                    <TableCell className="max-w-[240px] truncate">
+                      {item.actorEmail ?? "System"}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <div className="text-xs text-muted-foreground">
+            Page {page} of {totalPages} · {total} total
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={activityQuery.isLoading || page <= 1}
+            >
+              Previous
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+              disabled={activityQuery.isLoading || page >= totalPages}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+
+        {activityQuery.isError && (
+          <div className="text-xs text-destructive">
+            {activityQuery.error instanceof Error
+              ? activityQuery.error.message
+              : "Failed to load activity."}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
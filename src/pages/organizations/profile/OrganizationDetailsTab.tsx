@@ -0,0 +1,386 @@
+import * as React from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Field,
+  FieldDescription,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import { Separator } from "@/components/ui/separator";
+import { useUiStore } from "@/store";
+import { useAuth } from "@/context/AuthContext";
+import { formatOrganizationLocation, updateAdminOrganization } from "@/lib/adminOrganizations";
+import {
+  BankDetailsSchema,
+  GstinSchema,
+  MillLicenceNumberSchema,
+  MillingCapacitySchema,
+  PhoneNumberSchema,
+  type AdminOrganization,
+  type UpdateOrganizationRequest,
+} from "@/types/adminOrganizations";
+
+function formatDateTime(value: string): string {
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return value;
+  return d.toLocaleString(undefined, {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+const BANK_FIELDS = ["bankAccountHolderName", "bankAccountNumber", "bankIfsc", "bankName", "bankBranch"] as const;
+
+const businessSchema = z
+  .object({
+    gstin: z.string(),
+    millLicenceNumber: z.string(),
+    contactPhone: z.string(),
+    millingCapacityTonnesPerDay: z.string(),
+    bankAccountHolderName: z.string(),
+    bankAccountNumber: z.string(),
+    bankIfsc: z.string(),
+    bankName: z.string(),
+    bankBranch: z.string(),
+  })
+  .superRefine((v, ctx) => {
+    // Every business field is optional, but whatever is filled in must be valid.
+    const checks = [
+      ["gstin", GstinSchema],
+      ["millLicenceNumber", MillLicenceNumberSchema],
+      ["contactPhone", PhoneNumberSchema],
+    ] as const;
+    for (const [key, schema] of checks) {
+      if (v[key].trim() === "") continue;
+      const parsed = schema.safeParse(v[key]);
+      if (!parsed.success) {
+        ctx.addIssue({ code: "custom", path: [key], message: parsed.error.issues[0]?.message ?? "Invalid value." });
+      }
+    }
+
+    if (v.millingCapacityTonnesPerDay.trim() !== "") {
+      const parsed = MillingCapacitySchema.safeParse(Number(v.millingCapacityTonnesPerDay));
+      if (!parsed.success) {
+        ctx.addIssue({
+          code: "custom",
+          path: ["millingCapacityTonnesPerDay"],
+          message: parsed.error.issues[0]?.message ?? "Enter a capacity in tonnes a day.",
+        });
+      }
+    }
+
+    // Bank details are all-or-nothing, apart from the optional branch.
+    if (BANK_FIELDS.some((key) => v[key].trim() !== "")) {
+      const parsed = BankDetailsSchema.safeParse({
+        accountHolderName: v.bankAccountHolderName,
+        accountNumber: v.bankAccountNumber,
+        ifsc: v.bankIfsc,
+        bankName: v.bankName,
+      });
+      if (!parsed.success) {
+        const pathFor: Record<string, (typeof BANK_FIELDS)[number]> = {
+          accountHolderName: "bankAccountHolderName",
+          accountNumber: "bankAccountNumber",
+          ifsc: "bankIfsc",
+          bankName: "bankName",
+        };
+        for (const issue of parsed.error.issues) {
+          ctx.addIssue({ code: "custom", path: [pathFor[String(issue.path[0])]], message: issue.message });
+        }
+      }
+    }
+  });
+
+type BusinessFormData = z.infer<typeof businessSchema>;
+
+function toBusinessFormData(org: AdminOrganization): BusinessFormData {
+  return {
+    gstin: org.gstin ?? "",
+    millLicenceNumber: org.millLicenceNumber ?? "",
+    contactPhone: org.contactPhone ?? "",
+    millingCapacityTonnesPerDay:
+      typeof org.millingCapacityTonnesPerDay === "number" ? String(org.millingCapacityTonnesPerDay) : "",
+    bankAccountHolderName: org.bankDetails?.accountHolderName ?? "",
+    bankAccountNumber: org.bankDetails?.accountNumber ?? "",
+    bankIfsc: org.bankDetails?.ifsc ?? "",
+    bankName: org.bankDetails?.bankName ?? "",
+    bankBranch: org.bankDetails?.branch ?? "",
+  };
+}
+
+function toBusinessRequest(data: BusinessFormData): UpdateOrganizationRequest {
+  const orNull = (value: string) => (value.trim() === "" ? null : value);
+  const hasBank = BANK_FIELDS.some((key) => data[key].trim() !== "");
+  return {
+    gstin: orNull(data.gstin),
+    millLicenceNumber: orNull(data.millLicenceNumber),
+    contactPhone: orNull(data.contactPhone),
+    millingCapacityTonnesPerDay:
+      data.millingCapacityTonnesPerDay.trim() === "" ? null : Number(data.millingCapacityTonnesPerDay),
+    bankDetails: hasBank
+      ? {
+          accountHolderName: data.bankAccountHolderName,
+          accountNumber: data.bankAccountNumber,
+          ifsc: data.bankIfsc,
+          bankName: data.bankName,
+          branch: orNull(data.bankBranch),
+        }
+      : null,
+  };
+}
+
+export function OrganizationDetailsTab({ org }: { org: AdminOrganization }) {
+  const { showToast } = useUiStore();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const canManage = can("organizations:manage");
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isDirty },
+  } = useForm<BusinessFormData>({
+    resolver: zodResolver(businessSchema),
+    defaultValues: toBusinessFormData(org),
+  });
+
+  React.useEffect(() => {
+    reset(toBusinessFormData(org));
+  }, [org, reset]);
+
+  const updateMutation = useMutation({
+    mutationFn: (payload: UpdateOrganizationRequest) => updateAdminOrganization(org.id, payload),
+    onSuccess: (res) => {
+      showToast(res.message ?? "Business details saved.", "success");
+      void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Update failed.";
+      showToast(message, "error");
+    },
+  });
+
+  const miller = org.users.find((u) => u.role === "MILLER");
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Overview</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 text-sm md:grid-cols-3">
+            <div>
+              <div className="text-xs text-muted-foreground">Location</div>
+              <div>{formatOrganizationLocation(org)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Miller</div>
+              <div>
+                {miller ? `${miller.firstName} ${miller.lastName}`.trim() || miller.email : "Not set up"}
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Users</div>
+              <div>{org.users.length}</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Org ID</div>
+              <div className="font-mono text-[11px]">{org.id}</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Created</div>
+              <div>{formatDateTime(org.createdAt)}</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Last updated</div>
+              <div>{formatDateTime(org.updatedAt)}</div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Business details</CardTitle>
+          <div className="text-sm text-muted-foreground">
+            Registration, licence and payout details used on invoices and settlements.
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={handleSubmit((data) => updateMutation.mutate(toBusinessRequest(data)))}
+            className="space-y-4"
+          >
+            <fieldset disabled={!canManage} className="space-y-4">
+              <FieldGroup>
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                  <Field>
+                    <FieldLabel htmlFor="orgGstin">GSTIN</FieldLabel>
+                    <InputGroup>
+                      <InputGroupAddon>GSTIN</InputGroupAddon>
+                      <InputGroupInput
+                        id="orgGstin"
+                        placeholder="27AAPFU0939F1ZV"
+                        className="uppercase"
+                        {...register("gstin")}
+                      />
+                    </InputGroup>
+                    <FieldError errors={errors.gstin ? [errors.gstin] : []} />
+                  </Field>
+
+                  <Field>
+                    <FieldLabel htmlFor="orgLicence">Mill licence number</FieldLabel>
+                    <InputGroup>
+                      <InputGroupAddon>Licence</InputGroupAddon>
+                      <InputGroupInput
+                        id="orgLicence"
+                        placeholder="As printed on the licence"
+                        {...register("millLicenceNumber")}
+                      />
+                    </InputGroup>
+                    <FieldError
+                      errors={errors.millLicenceNumber ? [errors.millLicenceNumber] : []}
+                    />
+                  </Field>
+
+                  <Field>
+                    <FieldLabel htmlFor="orgContactPhone">Contact phone</FieldLabel>
+                    <InputGroup>
+                      <InputGroupAddon>+91</InputGroupAddon>
+                      <InputGroupInput
+                        id="orgContactPhone"
+                        inputMode="tel"
+                        placeholder="9876543210"
+                        {...register("contactPhone")}
+                      />
+                    </InputGroup>
+                    <FieldError errors={errors.contactPhone ? [errors.contactPhone] : []} />
+                  </Field>
+
+                  <Field>
+                    <FieldLabel htmlFor="orgCapacity">Milling capacity</FieldLabel>
+                    <InputGroup>
+                      <InputGroupInput
+                        id="orgCapacity"
+                        inputMode="decimal"
+                        placeholder="120"
+                        {...register("millingCapacityTonnesPerDay")}
+                      />
+                      <InputGroupAddon align="inline-end">tonnes/day</InputGroupAddon>
+                    </InputGroup>
+                    <FieldError
+                      errors={
+                        errors.millingCapacityTonnesPerDay
+                          ? [errors.millingCapacityTonnesPerDay]
+                          : []
+                      }
+                    />
+                  </Field>
+                </div>
+              </FieldGroup>
+
+              <Separator />
+
+              <FieldGroup>
+                <FieldDescription>
+                  Bank account for settlements. Leave every bank field empty to clear it.
+                </FieldDescription>
+                <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                  <Field>
+                    <FieldLabel htmlFor="orgBankHolder">Account holder name</FieldLabel>
+                    <InputGroup>
+                      <InputGroupInput
+                        id="orgBankHolder"
+                        placeholder="As on the passbook"
+                        {...register("bankAccountHolderName")}
+                      />
+                    </InputGroup>
+                    <FieldError
+                      errors={errors.bankAccountHolderName ? [errors.bankAccountHolderName] : []}
+                    />
+                  </Field>
+
+                  <Field>
+                    <FieldLabel htmlFor="orgBankAccount">Account number</FieldLabel>
+                    <InputGroup>
+                      <InputGroupInput
+                        id="orgBankAccount"
+                        inputMode="numeric"
+                        autoComplete="off"
+                        {...register("bankAccountNumber")}
+                      />
+                    </InputGroup>
+                    <FieldError
+                      errors={errors.bankAccountNumber ? [errors.bankAccountNumber] : []}
+                    />
+                  </Field>
+
+                  <Field>
+                    <FieldLabel htmlFor="orgBankIfsc">IFSC</FieldLabel>
+                    <InputGroup>
+                      <InputGroupInput
+                        id="orgBankIfsc"
+                        placeholder="SBIN0001234"
+                        className="uppercase"
+                        {...register("bankIfsc")}
+                      />
+                    </InputGroup>
+                    <FieldError errors={errors.bankIfsc ? [errors.bankIfsc] : []} />
+                  </Field>
+
+                  <Field>
+                    <FieldLabel htmlFor="orgBankName">Bank name</FieldLabel>
+                    <InputGroup>
+                      <InputGroupInput id="orgBankName" {...register("bankName")} />
+                    </InputGroup>
+                    <FieldError errors={errors.bankName ? [errors.bankName] : []} />
+                  </Field>
+
+                  <Field>
+                    <FieldLabel htmlFor="orgBankBranch">Branch (optional)</FieldLabel>
+                    <InputGroup>
+                      <InputGroupInput id="orgBankBranch" {...register("bankBranch")} />
+                    </InputGroup>
+                  </Field>
+                </div>
+              </FieldGroup>
+            </fieldset>
+
+            {canManage ? (
+              <div className="flex justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={!isDirty || updateMutation.isPending}
+                  onClick={() => reset(toBusinessFormData(org))}
+                >
+                  Discard
+                </Button>
+                <Button type="submit" disabled={!isDirty || updateMutation.isPending}>
+                  {updateMutation.isPending ? "Saving…" : "Save business details"}
+                </Button>
+              </div>
+            ) : null}
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import * as React from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Controller, useForm } from "react-hook-form";
+import { useNavigate } from "react-router-dom";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Field,
+  FieldDescription,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import { LocationSearchCombobox } from "@/components/ui/location-search-combobox";
+import { useUiStore } from "@/store";
+import { useAuth } from "@/context/AuthContext";
+import { formatOrganizationLocation, updateAdminOrganization } from "@/lib/adminOrganizations";
+import type { AdminOrganization } from "@/types/adminOrganizations";
+
+import {
+  DeleteOrganizationDialog,
+  OrganizationStatusBadge,
+  OrganizationStatusDialog,
+  type OrganizationStatusAction,
+} from "../OrganizationStatusDialogs";
+
+const generalSchema = z.object({
+  name: z.string().min(1, "Enter an organization name."),
+  villageId: z.string().min(1, "Select a village."),
+});
+
+type GeneralFormData = z.infer<typeof generalSchema>;
+
+export function OrganizationSettingsTab({ org }: { org: AdminOrganization }) {
+  const { showToast } = useUiStore();
+  const { can } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [deleteOpen, setDeleteOpen] = React.useState(false);
+  const [statusAction, setStatusAction] = React.useState<OrganizationStatusAction | null>(null);
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isDirty },
+  } = useForm<GeneralFormData>({
+    resolver: zodResolver(generalSchema),
+    defaultValues: { name: org.name, villageId: org.villageId ?? "" },
+  });
+
+  React.useEffect(() => {
+    reset({ name: org.name, villageId: org.villageId ?? "" });
+  }, [org, reset]);
+
+  const updateMutation = useMutation({
+    mutationFn: (data: GeneralFormData) => updateAdminOrganization(org.id, data),
+    onSuccess: (res) => {
+      showToast(res.message ?? "Organization updated.", "success");
+      void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Update failed.";
+      showToast(message, "error");
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      {can("organizations:manage") ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>General</CardTitle>
+            <div className="text-sm text-muted-foreground">Name and location of the organization.</div>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit((data) => updateMutation.mutate(data))} className="space-y-4">
+              <FieldGroup>
+                <Field>
+                  <FieldLabel htmlFor="orgSettingsName">Name</FieldLabel>
+                  <InputGroup>
+                    <InputGroupAddon>Name</InputGroupAddon>
+                    <InputGroupInput
+                      id="orgSettingsName"
+                      placeholder="Organization name"
+                      {...register("name")}
+                    />
+                  </InputGroup>
+                  <FieldError errors={errors.name ? [errors.name] : []} />
+                </Field>
+
+                <Field>
+                  <FieldLabel>Village</FieldLabel>
+                  <Controller
+                    control={control}
+                    name="villageId"
+                    render={({ field }) => (
+                      <LocationSearchCombobox
+                        type="village"
+                        value={field.value}
+                        onValueChange={field.onChange}
+                        placeholder="Search village..."
+                      />
+                    )}
+                  />
+                  <FieldDescription>Current: {formatOrganizationLocation(org)}</FieldDescription>
+                  <FieldError errors={errors.villageId ? [errors.villageId] : []} />
+                </Field>
+              </FieldGroup>
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={!isDirty || updateMutation.isPending}>
+                  {updateMutation.isPending ? "Saving…" : "Save"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {can("organizations:manage") ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Status</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex items-center gap-2 text-sm">
+              <OrganizationStatusBadge status={org.status} />
+              {org.statusReason ? <span className="text-muted-foreground">{org.statusReason}</span> : null}
+            </div>
+            <div className="text-sm text-muted-foreground">
+              Suspending blocks every user of the organization from signing in. Archiving also hides it
+              from lists. Both can be undone.
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {org.status === "ACTIVE" ? (
+                <Button variant="outline" onClick={() => setStatusAction("suspend")}>
+                  Suspend
+                </Button>
+              ) : null}
+              {org.status === "SUSPENDED" ? (
+                <Button variant="outline" onClick={() => setStatusAction("restore")}>
+                  Reactivate
+                </Button>
+              ) : null}
+              {org.status === "ARCHIVED" ? (
+                <Button variant="outline" onClick={() => setStatusAction("restore")}>
+                  Restore
+                </Button>
+              ) : (
+                <Button variant="outline" onClick={() => setStatusAction("archive")}>
+                  Archive
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {can("organizations:deletePermanently") ? (
+        <Card className="border-destructive/40">
+          <CardHeader>
+            <CardTitle>Danger zone</CardTitle>
+          </CardHeader>
+          <CardContent className="flex items-center justify-between gap-3">
+            <div className="text-sm text-muted-foreground">
+              {org.status === "ARCHIVED"
+                ? "Permanently delete the organization. Only allowed when nothing depends on it."
+                : "Archive the organization before it can be deleted permanently."}
+            </div>
+            <Button
+              variant="destructive"
+              disabled={org.status !== "ARCHIVED"}
+              onClick={() => setDeleteOpen(true)}
+            >
+              Delete organization
+            </Button>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {!can("organizations:manage") && !can("organizations:deletePermanently") ? (
+        <div className="text-sm text-muted-foreground">You do not have permission to change this organization.</div>
+      ) : null}
+
+      <OrganizationStatusDialog
+        target={statusAction ? { org, action: statusAction } : null}
+        onClose={() => setStatusAction(null)}
+      />
+
+      <DeleteOrganizationDialog
+        org={deleteOpen ? org : null}
+        onClose={() => setDeleteOpen(false)}
+        onDeleted={() => navigate("/organizations", { replace: true })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,746 @@
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Controller, useForm, useWatch } from "react-hook-form";
+import { z } from "zod";
+import { CheckIcon, CopyIcon } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Field,
+  FieldError,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useUiStore } from "@/store";
+import {
+  type AdminOrganization,
+  type AdminOrgUser,
+  type AdminRole,
+  AdminRoleSchema,
+  PhoneNumberSchema,
+  type TemporaryCredential,
+} from "@/types/adminOrganizations";
+import {
+  CreatableUserRoleSchema,
+  CredentialHandoffSchema,
+  VehicleNumberSchema,
+  type CreateAdminUserRequest,
+  type CredentialHandoff,
+  type IssueCredentialRequest,
+  type UpdateAdminUserRequest,
+} from "@/types/adminUsers";
+import {
+  DEFAULT_TEMP_CREDENTIAL_EXPIRY_HOURS,
+  TEMP_CREDENTIAL_EXPIRY_OPTIONS_HOURS,
+} from "@/config";
+
+const EDIT_USER_ROLES: Array<{ value: AdminRole; label: string }> = [
+  { value: "MILLER", label: "Miller" },
+  { value: "MANAGER", label: "Manager" },
+  { value: "DRIVER", label: "Driver" },
+];
+
+const HANDOFF_OPTIONS: Array<{ value: CredentialHandoff; label: string }> = [
+  { value: "TEMPORARY_PASSWORD", label: "Temporary password" },
+  { value: "INVITE_LINK", label: "Email an invite link" },
+];
+
+function formatExpiryHours(hours: number) {
+  return hours % 24 === 0 ? `${hours / 24} day${hours === 24 ? "" : "s"}` : `${hours} hours`;
+}
+
+function formatExpiresAt(expiresAt: string | null) {
+  if (!expiresAt) return "does not expire";
+  const ms = new Date(expiresAt).getTime() - Date.now();
+  if (Number.isNaN(ms)) return `expires ${expiresAt}`;
+  if (ms <= 0) return "expired";
+  const hours = Math.ceil(ms / 3_600_000);
+  return hours > 48 ? `expires in ${Math.ceil(hours / 24)} days` : `expires in ${hours} h`;
+}
+
+function isPastExpiry(expiresAt: string | null) {
+  return expiresAt !== null && new Date(expiresAt).getTime() <= Date.now();
+}
+
+export function TemporaryCredentialBadge({ credential }: { credential: TemporaryCredential | null | undefined }) {
+  if (!credential) return <span className="text-muted-foreground">—</span>;
+
+  const kind = credential.kind === "INVITE_LINK" ? "Invite" : "Password";
+  if (credential.status === "USED") return <Badge variant="default">{kind} used</Badge>;
+  if (credential.status === "EXPIRED" || isPastExpiry(credential.expiresAt)) {
+    return <Badge variant="destructive">{kind} expired</Badge>;
+  }
+
+  return (
+    <div className="space-y-0.5">
+      <Badge variant="outline">{kind} pending</Badge>
+      <div className="text-[11px] text-muted-foreground">
+        {formatExpiresAt(credential.expiresAt)}
+        {credential.revealedAt ? ` · revealed${credential.revealedBy ? ` by ${credential.revealedBy}` : ""}` : ""}
+      </div>
+    </div>
+  );
+}
+
+export type CredentialHandoffDetails = {
+  name: string;
+  email: string;
+  temporaryPassword: string | null;
+  expiresAt: string | null;
+};
+
+export function CredentialHandoffSummary({ handoff }: { handoff: CredentialHandoffDetails }) {
+  const { showToast } = useUiStore();
+  const [copied, setCopied] = React.useState(false);
+
+  async function onCopy() {
+    if (!handoff.temporaryPassword) return;
+    try {
+      await navigator.clipboard.writeText(handoff.temporaryPassword);
+      showToast("Password copied to clipboard.", "success");
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      showToast("Failed to copy password.", "error");
+    }
+  }
+
+  if (!handoff.temporaryPassword) {
+    return (
+      <div className="text-sm">
+        We emailed an invite link to <span className="font-medium">{handoff.email}</span>. The link{" "}
+        {formatExpiresAt(handoff.expiresAt)}.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm">
+        Share these sign-in details with <span className="font-medium">{handoff.name || handoff.email}</span>.
+        The password is not shown again and {formatExpiresAt(handoff.expiresAt)}. They will be asked to choose a
+        new password on first sign-in.
+      </div>
+      <div className="grid gap-2 rounded-md border border-border bg-muted/40 p-3 text-sm">
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-muted-foreground">Email</span>
+          <span className="font-medium">{handoff.email}</span>
+        </div>
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-muted-foreground">Temporary password</span>
+          <span className="flex items-center gap-2">
+            <span className="font-mono">{handoff.temporaryPassword}</span>
+            <Button variant="ghost" size="icon-xs" onClick={onCopy} title="Copy temporary password">
+              {copied ? <CheckIcon className="size-3 text-green-600" /> : <CopyIcon className="size-3" />}
+            </Button>
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CredentialOptionsFields(props: {
+  handoff: CredentialHandoff;
+  onHandoffChange: (value: CredentialHandoff) => void;
+  expiresInHours: number;
+  onExpiresInHoursChange: (value: number) => void;
+}) {
+  const expiryOptions = TEMP_CREDENTIAL_EXPIRY_OPTIONS_HOURS.includes(DEFAULT_TEMP_CREDENTIAL_EXPIRY_HOURS)
+    ? TEMP_CREDENTIAL_EXPIRY_OPTIONS_HOURS
+    : [DEFAULT_TEMP_CREDENTIAL_EXPIRY_HOURS, ...TEMP_CREDENTIAL_EXPIRY_OPTIONS_HOURS];
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <Field>
+        <FieldLabel>Sign-in handoff</FieldLabel>
+        <Select value={props.handoff} onValueChange={(v) => v && props.onHandoffChange(v as CredentialHandoff)}>
+          <SelectTrigger className="w-full">
+            <SelectValue>{HANDOFF_OPTIONS.find((o) => o.value === props.handoff)?.label}</SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              {HANDOFF_OPTIONS.map((o) => (
+                <SelectItem key={o.value} value={o.value}>
+                  {o.label}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      </Field>
+      <Field>
+        <FieldLabel>Expires after</FieldLabel>
+        <Select
+          value={String(props.expiresInHours)}
+          onValueChange={(v) => v && props.onExpiresInHoursChange(Number(v))}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue>{formatExpiryHours(props.expiresInHours)}</SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              {expiryOptions.map((h) => (
+                <SelectItem key={h} value={String(h)}>
+                  {formatExpiryHours(h)}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      </Field>
+    </div>
+  );
+}
+
+export function IssueCredentialDialog(props: {
+  user: AdminOrgUser | null;
+  issued: CredentialHandoffDetails | null;
+  onClose: () => void;
+  isSaving: boolean;
+  onIssue: (payload: IssueCredentialRequest) => void;
+}) {
+  const [handoff, setHandoff] = React.useState<CredentialHandoff>("INVITE_LINK");
+  const [expiresInHours, setExpiresInHours] = React.useState(DEFAULT_TEMP_CREDENTIAL_EXPIRY_HOURS);
+
+  React.useEffect(() => {
+    if (props.user) {
+      setHandoff("INVITE_LINK");
+      setExpiresInHours(DEFAULT_TEMP_CREDENTIAL_EXPIRY_HOURS);
+    }
+  }, [props.user]);
+
+  return (
+    <Dialog open={Boolean(props.user)} onOpenChange={(open) => (!open ? props.onClose() : null)}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{props.issued ? "Credential issued" : "Issue new sign-in credential"}</DialogTitle>
+          <DialogDescription>
+            {props.issued
+              ? "Any earlier temporary password or invite link no longer works."
+              : `Replaces the outstanding temporary credential for ${props.user?.email ?? "this user"}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {props.issued ? (
+          <CredentialHandoffSummary handoff={props.issued} />
+        ) : (
+          <CredentialOptionsFields
+            handoff={handoff}
+            onHandoffChange={setHandoff}
+            expiresInHours={expiresInHours}
+            onExpiresInHoursChange={setExpiresInHours}
+          />
+        )}
+
+        <DialogFooter>
+          {props.issued ? (
+            <Button type="button" onClick={props.onClose}>
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button type="button" variant="outline" onClick={props.onClose}>
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                disabled={props.isSaving}
+                onClick={() => props.onIssue({ handoff, expiresInHours })}
+              >
+                {props.isSaving ? "Issuing…" : handoff === "INVITE_LINK" ? "Send invite link" : "Generate password"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const userSchema = z.object({
+  email: z.string().min(1, "Enter an email address.").email("Enter a valid email."),
+  firstName: z.string().min(1, "Enter a first name."),
+  lastName: z.string().min(1, "Enter a last name."),
+  role: AdminRoleSchema,
+  password: z.string().optional().or(z.literal("")),
+  emailVerified: z.boolean(),
+  isActive: z.boolean(),
+});
+
+type UserFormInput = z.input<typeof userSchema>;
+type UserFormData = z.output<typeof userSchema>;
+
+export type EditUserPayload = UpdateAdminUserRequest & { id: string };
+
+const createUserSchema = z
+  .object({
+    email: z.string().min(1, "Enter an email address.").email("Enter a valid email."),
+    firstName: z.string().min(1, "Enter a first name."),
+    lastName: z.string().min(1, "Enter a last name."),
+    role: CreatableUserRoleSchema,
+    phone: z.string(),
+    vehicleNumber: z.string(),
+    handoff: CredentialHandoffSchema,
+    expiresInHours: z.number(),
+  })
+  .superRefine((v, ctx) => {
+    const phoneRequired = v.role === "DRIVER";
+    if (phoneRequired || v.phone.trim() !== "") {
+      const phone = PhoneNumberSchema.safeParse(v.phone);
+      if (!phone.success) {
+        ctx.addIssue({ code: "custom", path: ["phone"], message: "Enter a 10-digit mobile number." });
+      }
+    }
+    if (v.role === "DRIVER" && !VehicleNumberSchema.safeParse(v.vehicleNumber).success) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["vehicleNumber"],
+        message: "Enter a vehicle number like AP09AB1234.",
+      });
+    }
+  });
+
+type CreateUserFormData = z.infer<typeof createUserSchema>;
+
+function toCreateUserRequest(org: AdminOrganization, data: CreateUserFormData): CreateAdminUserRequest {
+  const base = {
+    organizationId: org.id,
+    email: data.email,
+    firstName: data.firstName,
+    lastName: data.lastName,
+    handoff: data.handoff,
+    expiresInHours: data.expiresInHours,
+  };
+  switch (data.role) {
+    case "DRIVER":
+      return { ...base, role: "DRIVER", phone: data.phone, vehicleNumber: data.vehicleNumber };
+    case "MANAGER":
+      return { ...base, role: "MANAGER", phone: data.phone.trim() || undefined };
+    default:
+      return { ...base, role: "MILLER" };
+  }
+}
+
+export function CreateUserDialog(props: {
+  org: AdminOrganization | null;
+  created: CredentialHandoffDetails | null;
+  onClose: () => void;
+  isSaving: boolean;
+  onCreate: (payload: CreateAdminUserRequest) => void;
+}) {
+  const org = props.org;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    formState: { errors },
+  } = useForm<CreateUserFormData>({
+    resolver: zodResolver(createUserSchema),
+  });
+
+  const role = useWatch({ control, name: "role" });
+
+  // An organization has a single miller account; further users are managers or drivers.
+  const allowMiller = !org?.users.some((u) => u.role === "MILLER");
+  const roleOptions = EDIT_USER_ROLES.filter((r) => allowMiller || r.value !== "MILLER");
+
+  React.useEffect(() => {
+    if (org) {
+      reset({
+        email: "",
+        firstName: "",
+        lastName: "",
+        role: org.users.some((u) => u.role === "MILLER") ? "MANAGER" : "MILLER",
+        phone: "",
+        vehicleNumber: "",
+        handoff: "TEMPORARY_PASSWORD",
+        expiresInHours: DEFAULT_TEMP_CREDENTIAL_EXPIRY_HOURS,
+      });
+    }
+  }, [org, reset]);
+
+  function onSubmit(data: CreateUserFormData) {
+    if (!org) return;
+    props.onCreate(toCreateUserRequest(org, data));
+  }
+
+  return (
+    <Dialog open={Boolean(org)} onOpenChange={(open) => (!open ? props.onClose() : null)}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{props.created ? "User created" : "Add user"}</DialogTitle>
+          <DialogDescription>
+            {props.created
+              ? "Hand the credential to the user before closing this dialog."
+              : `Creates a user in ${org?.name ?? "this organization"}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {props.created ? (
+          <>
+            <CredentialHandoffSummary handoff={props.created} />
+            <DialogFooter>
+              <Button type="button" onClick={props.onClose}>
+                Done
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <FieldGroup>
+              <Field>
+                <FieldLabel>Role</FieldLabel>
+                <Controller
+                  control={control}
+                  name="role"
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={(v) => v && field.onChange(v)}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectGroup>
+                          {roleOptions.map((r) => (
+                            <SelectItem key={r.value} value={r.value}>
+                              {r.label}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </Field>
+
+              <Field>
+                <FieldLabel htmlFor="createUserEmail">Email</FieldLabel>
+                <InputGroup>
+                  <InputGroupAddon>Email</InputGroupAddon>
+                  <InputGroupInput
+                    id="createUserEmail"
+                    placeholder="user@example.com"
+                    {...register("email")}
+                  />
+                </InputGroup>
+                <FieldError errors={errors.email ? [errors.email] : []} />
+              </Field>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Field>
+                  <FieldLabel htmlFor="createUserFirstName">First name</FieldLabel>
+                  <InputGroup>
+                    <InputGroupAddon>First</InputGroupAddon>
+                    <InputGroupInput
+                      id="createUserFirstName"
+                      placeholder="First name"
+                      {...register("firstName")}
+                    />
+                  </InputGroup>
+                  <FieldError errors={errors.firstName ? [errors.firstName] : []} />
+                </Field>
+
+                <Field>
+                  <FieldLabel htmlFor="createUserLastName">Last name</FieldLabel>
+                  <InputGroup>
+                    <InputGroupAddon>Last</InputGroupAddon>
+                    <InputGroupInput
+                      id="createUserLastName"
+                      placeholder="Last name"
+                      {...register("lastName")}
+                    />
+                  </InputGroup>
+                  <FieldError errors={errors.lastName ? [errors.lastName] : []} />
+                </Field>
+              </div>
+
+              {role === "MANAGER" || role === "DRIVER" ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Field>
+                    <FieldLabel htmlFor="createUserPhone">
+                      {role === "DRIVER" ? "Phone" : "Phone (optional)"}
+                    </FieldLabel>
+                    <InputGroup>
+                      <InputGroupAddon>+91</InputGroupAddon>
+                      <InputGroupInput
+                        id="createUserPhone"
+                        inputMode="tel"
+                        placeholder="9876543210"
+                        {...register("phone")}
+                      />
+                    </InputGroup>
+                    <FieldError errors={errors.phone ? [errors.phone] : []} />
+                  </Field>
+
+                  {role === "DRIVER" ? (
+                    <Field>
+                      <FieldLabel htmlFor="createUserVehicle">Vehicle number</FieldLabel>
+                      <InputGroup>
+                        <InputGroupAddon>Vehicle</InputGroupAddon>
+                        <InputGroupInput
+                          id="createUserVehicle"
+                          placeholder="AP09AB1234"
+                          {...register("vehicleNumber")}
+                        />
+                      </InputGroup>
+                      <FieldError errors={errors.vehicleNumber ? [errors.vehicleNumber] : []} />
+                    </Field>
+                  ) : null}
+                </div>
+              ) : null}
+
+              <Controller
+                control={control}
+                name="handoff"
+                render={({ field: handoffField }) => (
+                  <Controller
+                    control={control}
+                    name="expiresInHours"
+                    render={({ field: expiryField }) => (
+                      <CredentialOptionsFields
+                        handoff={handoffField.value}
+                        onHandoffChange={handoffField.onChange}
+                        expiresInHours={expiryField.value}
+                        onExpiresInHoursChange={expiryField.onChange}
+                      />
+                    )}
+                  />
+                )}
+              />
+            </FieldGroup>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={props.onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={props.isSaving}>
+                {props.isSaving ? "Creating…" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function ActiveBadge({ active }: { active: boolean }) {
+  return (
+    <Badge variant={active ? "default" : "outline"}>
+      {active ? "Active" : "Inactive"}
+    </Badge>
+  );
+}
+
+export function EditUserDialog(props: {
+  value: { org: AdminOrganization; user: AdminOrgUser } | null;
+  onClose: () => void;
+  isSaving: boolean;
+  onSave: (payload: EditUserPayload) => void;
+}) {
+  const value = props.value;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    control,
+    formState: { errors },
+  } = useForm<UserFormInput, unknown, UserFormData>({
+    resolver: zodResolver(userSchema),
+  });
+
+  React.useEffect(() => {
+    if (value) {
+      reset({
+        email: value.user.email,
+        firstName: value.user.firstName,
+        lastName: value.user.lastName,
+        role: value.user.role,
+        password: "",
+        emailVerified: value.user.isEmailVerified,
+        isActive: value.user.isActive,
+      });
+    }
+  }, [value, reset]);
+
+  function onSubmit(data: UserFormData) {
+    if (!value) return;
+    props.onSave({
+      id: value.user.id,
+      email: data.email,
+      firstName: data.firstName,
+      lastName: data.lastName,
+      role: data.role,
+      password: data.password || undefined,
+      emailVerified: data.emailVerified,
+      isActive: data.isActive,
+    });
+  }
+
+  return (
+    <Dialog open={Boolean(value)} onOpenChange={(open) => (!open ? props.onClose() : null)}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Edit user</DialogTitle>
+          <DialogDescription>
+            Update user details for {value?.org.name ?? "this organization"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <FieldGroup>
+            <Field>
+              <FieldLabel htmlFor="editUserEmail">Email</FieldLabel>
+              <InputGroup>
+                <InputGroupAddon>Email</InputGroupAddon>
+                <InputGroupInput
+                  id="editUserEmail"
+                  placeholder="user@example.com"
+                  {...register("email")}
+                />
+              </InputGroup>
+              <FieldError errors={errors.email ? [errors.email] : []} />
+            </Field>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Field>
+                <FieldLabel htmlFor="editUserFirstName">First name</FieldLabel>
+                <InputGroup>
+                  <InputGroupAddon>First</InputGroupAddon>
+                  <InputGroupInput
+                    id="editUserFirstName"
+                    placeholder="First name"
+                    {...register("firstName")}
+                  />
+                </InputGroup>
+                <FieldError errors={errors.firstName ? [errors.firstName] : []} />
+              </Field>
+
+              <Field>
+                <FieldLabel htmlFor="editUserLastName">Last name</FieldLabel>
+                <InputGroup>
+                  <InputGroupAddon>Last</InputGroupAddon>
+                  <InputGroupInput
+                    id="editUserLastName"
+                    placeholder="Last name"
+                    {...register("lastName")}
+                  />
+                </InputGroup>
+                <FieldError errors={errors.lastName ? [errors.lastName] : []} />
+              </Field>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Field>
+                <FieldLabel>Role</FieldLabel>
+                <Controller
+                  control={control}
+                  name="role"
+                  render={({ field }) => (
+                    <Select value={field.value} onValueChange={(v) => field.onChange(v ?? "")}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectGroup>
+                          {EDIT_USER_ROLES.map((r) => (
+                            <SelectItem key={r.value} value={r.value}>
+                              {r.label}
+                            </SelectItem>
+                          ))}
+                        </SelectGroup>
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </Field>
+
+              <Field>
+                <FieldLabel htmlFor="editUserPassword">New password (optional)</FieldLabel>
+                <InputGroup>
+                  <InputGroupAddon>Pass</InputGroupAddon>
+                  <InputGroupInput
+                    id="editUserPassword"
+                    type="password"
+                    placeholder="Leave blank to keep current"
+                    {...register("password")}
+                  />
+                </InputGroup>
+                <FieldError errors={errors.password ? [errors.password] : []} />
+              </Field>
+            </div>
+
+            <div className="flex gap-6 mt-2">
+              <Field>
+                <label className="flex items-center gap-2 text-sm">
+                  <Controller
+                    control={control}
+                    name="emailVerified"
+                    render={({ field }) => (
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(v) => field.onChange(Boolean(v))}
+                      />
+                    )}
+                  />
+                  <span>Email verified</span>
+                </label>
+              </Field>
+
+              <Field>
+                <label className="flex items-center gap-2 text-sm">
+                  <Controller
+                    control={control}
+                    name="isActive"
+                    render={({ field }) => (
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(v) => field.onChange(Boolean(v))}
+                      />
+                    )}
+                  />
+                  <span>Active</span>
+                </label>
+              </Field>
+            </div>
+          </FieldGroup>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={props.onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={props.isSaving}>
+              {props.isSaving ? "Saving…" : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,466 @@
+import * as React from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { MoreHorizontalIcon } from "lucide-react";
+
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useUiStore } from "@/store";
+import { useAuth } from "@/context/AuthContext";
+import {
+  createAdminUser,
+  deactivateAdminUser,
+  issueAdminUserCredential,
+  resendVerificationEmail,
+  revealAdminUserTemporaryPassword,
+  sendPasswordResetEmail,
+  updateAdminUser,
+} from "@/lib/adminUsers";
+import type { AdminOrganization, AdminOrgUser } from "@/types/adminOrganizations";
+import type { IssueCredentialRequest } from "@/types/adminUsers";
+
+import {
+  ActiveBadge,
+  CreateUserDialog,
+  CredentialHandoffSummary,
+  EditUserDialog,
+  IssueCredentialDialog,
+  TemporaryCredentialBadge,
+  type CredentialHandoffDetails,
+  type EditUserPayload,
+} from "./OrganizationUserDialogs";
+
+export function OrganizationUsersTab({ org }: { org: AdminOrganization }) {
+  const { showToast } = useUiStore();
+  const { can, startImpersonation } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [createUserOpen, setCreateUserOpen] = React.useState(false);
+  const [createdUser, setCreatedUser] = React.useState<CredentialHandoffDetails | null>(null);
+  const [revealUser, setRevealUser] = React.useState<AdminOrgUser | null>(null);
+  const [revealed, setRevealed] = React.useState<CredentialHandoffDetails | null>(null);
+  const [issueUser, setIssueUser] = React.useState<AdminOrgUser | null>(null);
+  const [issued, setIssued] = React.useState<CredentialHandoffDetails | null>(null);
+  const [impersonateUser, setImpersonateUser] = React.useState<AdminOrgUser | null>(null);
+  const [editUser, setEditUser] = React.useState<{
+    org: AdminOrganization;
+    user: AdminOrgUser;
+  } | null>(null);
+  const [deactivateUser, setDeactivateUser] = React.useState<{
+    org: AdminOrganization;
+    user: AdminOrgUser;
+  } | null>(null);
+
+  const hasMiller = org.users.some((u) => u.role === "MILLER");
+
+  const createUserMutation = useMutation({
+    mutationFn: createAdminUser,
+    onSuccess: (res) => {
+      showToast(res.message ?? "User created.", "success");
+      void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
+      void queryClient.invalidateQueries({ queryKey: ["adminUsers"] });
+      setCreatedUser({
+        name: `${res.data.user.firstName} ${res.data.user.lastName}`.trim(),
+        email: res.data.user.email,
+        temporaryPassword: res.data.temporaryPassword,
+        expiresAt: res.data.temporaryCredential?.expiresAt ?? null,
+      });
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Create failed.";
+      showToast(message, "error");
+    },
+  });
+
+  const updateUserMutation = useMutation({
+    mutationFn: async ({ id, ...payload }: EditUserPayload) => updateAdminUser(id, payload),
+    onSuccess: (res) => {
+      showToast(res.message ?? "User updated.", "success");
+      void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
+      setEditUser(null);
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Update failed.";
+      showToast(message, "error");
+    },
+  });
+
+  const deactivateUserMutation = useMutation({
+    mutationFn: async (id: string) => deactivateAdminUser(id),
+    onSuccess: (res) => {
+      showToast(res.message ?? "User deactivated.", "success");
+      void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
+      setDeactivateUser(null);
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Deactivate failed.";
+      showToast(message, "error");
+    },
+  });
+
+  const activateUserMutation = useMutation({
+    mutationFn: async (id: string) => updateAdminUser(id, { isActive: true }),
+    onSuccess: (res) => {
+      showToast(res.message ?? "User activated.", "success");
+      void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Activate failed.";
+      showToast(message, "error");
+    },
+  });
+
+  const revealPasswordMutation = useMutation({
+    mutationFn: async (user: AdminOrgUser) => revealAdminUserTemporaryPassword(user.id),
+    onSuccess: (res, user) => {
+      void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
+      setRevealUser(null);
+      if (!res.data.temporaryPassword) {
+        showToast("The temporary password was already revealed or has expired. Issue a new one.", "warning");
+        return;
+      }
+      setRevealed({
+        name: `${user.firstName} ${user.lastName}`.trim(),
+        email: user.email,
+        temporaryPassword: res.data.temporaryPassword,
+        expiresAt: res.data.expiresAt ?? null,
+      });
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Failed to reveal password.";
+      showToast(message, "error");
+    },
+  });
+
+  const issueCredentialMutation = useMutation({
+    mutationFn: async (params: { user: AdminOrgUser; payload: IssueCredentialRequest }) =>
+      issueAdminUserCredential(params.user.id, params.payload),
+    onSuccess: (res, { user }) => {
+      showToast(res.message ?? "Credential issued.", "success");
+      void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
+      setIssued({
+        name: `${user.firstName} ${user.lastName}`.trim(),
+        email: user.email,
+        temporaryPassword: res.data.temporaryPassword,
+        expiresAt: res.data.temporaryCredential.expiresAt,
+      });
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Failed to issue credential.";
+      showToast(message, "error");
+    },
+  });
+
+  const impersonateMutation = useMutation({
+    mutationFn: async (user: AdminOrgUser) => startImpersonation(user.id),
+    onSuccess: () => {
+      setImpersonateUser(null);
+      navigate("/dashboard", { replace: true });
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Failed to start impersonation.";
+      showToast(message, "error");
+    },
+  });
+
+  const resendVerificationMutation = useMutation({
+    mutationFn: async (id: string) => resendVerificationEmail(id),
+    onSuccess: (res) => {
+      showToast(res.message ?? "Verification email sent.", "success");
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Failed to send verification email.";
+      showToast(message, "error");
+    },
+  });
+
+  const sendPasswordResetMutation = useMutation({
+    mutationFn: async (id: string) => sendPasswordResetEmail(id),
+    onSuccess: (res) => {
+      showToast(res.message ?? "Password reset email sent.", "success");
+    },
+    onError: (err: unknown) => {
+      const message = err instanceof Error ? err.message : "Failed to send password reset email.";
+      showToast(message, "error");
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <CardTitle>Users</CardTitle>
+            <div className="text-sm text-muted-foreground">Users linked to {org.name}.</div>
+          </div>
+          {can("users:manage") ? (
+            <Button onClick={() => setCreateUserOpen(true)}>{hasMiller ? "Add user" : "Create miller"}</Button>
+          ) : null}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {org.users.length ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Pwd Changed</TableHead>
+                  <TableHead>Temp credential</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {org.users.map((u) => (
+                  <TableRow key={u.id}>
+                    <TableCell>
+                      <div>{`${u.firstName} ${u.lastName}`.trim() || "—"}</div>
+                      {u.phone || u.vehicleNumber ? (
+                        <div className="text-[11px] text-muted-foreground">
+                          {[u.phone, u.vehicleNumber].filter(Boolean).join(" · ")}
+                        </div>
+                      ) : null}
+                    </TableCell>
+                    <TableCell className="max-w-[260px] truncate">{u.email}</TableCell>
+                    <TableCell>{u.role}</TableCell>
+                    <TableCell>
+                      <Badge variant={u.mustChangePassword ? "outline" : "default"}>
+                        {u.mustChangePassword ? "No" : "Yes"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <TemporaryCredentialBadge credential={u.temporaryCredential} />
+                    </TableCell>
+                    <TableCell>
+                      <ActiveBadge active={u.isActive} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {can("users:manage") ? (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger
+                            aria-label="Open user actions"
+                            className={buttonVariants({ size: "icon-sm", variant: "ghost" })}
+                          >
+                            <MoreHorizontalIcon />
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => setEditUser({ org, user: u })}>
+                              Edit
+                            </DropdownMenuItem>
+                            {!u.isEmailVerified ? (
+                              <DropdownMenuItem
+                                disabled={resendVerificationMutation.isPending}
+                                onClick={() => resendVerificationMutation.mutate(u.id)}
+                              >
+                                Resend verification
+                              </DropdownMenuItem>
+                            ) : null}
+                            <DropdownMenuItem
+                              disabled={sendPasswordResetMutation.isPending}
+                              onClick={() => sendPasswordResetMutation.mutate(u.id)}
+                            >
+                              Send password reset
+                            </DropdownMenuItem>
+                            {u.temporaryCredential?.kind === "PASSWORD" &&
+                            u.temporaryCredential.status === "PENDING" &&
+                            !u.temporaryCredential.revealedAt &&
+                            can("users:viewTemporaryPassword") ? (
+                              <DropdownMenuItem onClick={() => setRevealUser(u)}>
+                                Reveal temporary password
+                              </DropdownMenuItem>
+                            ) : null}
+                            {u.mustChangePassword ? (
+                              <DropdownMenuItem onClick={() => setIssueUser(u)}>
+                                Issue new credential
+                              </DropdownMenuItem>
+                            ) : null}
+                            {u.isActive && u.role !== "ADMIN" && can("users:impersonate") ? (
+                              <DropdownMenuItem onClick={() => setImpersonateUser(u)}>View as user</DropdownMenuItem>
+                            ) : null}
+                            {u.isActive ? (
+                              <DropdownMenuItem onClick={() => setDeactivateUser({ org, user: u })}>
+                                Deactivate
+                              </DropdownMenuItem>
+                            ) : (
+                              <DropdownMenuItem onClick={() => activateUserMutation.mutate(u.id)}>
+                                Activate
+                              </DropdownMenuItem>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      ) : null}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground">No users linked to this organization.</div>
+        )}
+      </CardContent>
+
+      <CreateUserDialog
+        org={createUserOpen ? org : null}
+        created={createdUser}
+        onClose={() => {
+          setCreateUserOpen(false);
+          setCreatedUser(null);
+        }}
+        isSaving={createUserMutation.isPending}
+        onCreate={(payload) => createUserMutation.mutate(payload)}
+      />
+
+      <AlertDialog open={Boolean(revealUser)} onOpenChange={(open) => (!open ? setRevealUser(null) : null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reveal temporary password?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The password for {revealUser?.email} can be revealed only once and the reveal is recorded in the
+              audit log. If you lose it, issue a new credential instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={revealPasswordMutation.isPending}
+              onClick={() => {
+                if (!revealUser) return;
+                revealPasswordMutation.mutate(revealUser);
+              }}
+            >
+              {revealPasswordMutation.isPending ? "Revealing…" : "Reveal"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={Boolean(revealed)} onOpenChange={(open) => (!open ? setRevealed(null) : null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Temporary password</DialogTitle>
+            <DialogDescription>Copy it now. It cannot be revealed again.</DialogDescription>
+          </DialogHeader>
+          {revealed ? <CredentialHandoffSummary handoff={revealed} /> : null}
+          <DialogFooter>
+            <Button type="button" onClick={() => setRevealed(null)}>
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog
+        open={Boolean(impersonateUser)}
+        onOpenChange={(open) => (!open ? setImpersonateUser(null) : null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>View as {impersonateUser?.email}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You will see the app as this user until you exit from the banner at the top. The session is recorded
+              in the audit log, and deleting, approving and credential changes are blocked.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={impersonateMutation.isPending}
+              onClick={() => {
+                if (!impersonateUser) return;
+                impersonateMutation.mutate(impersonateUser);
+              }}
+            >
+              {impersonateMutation.isPending ? "Starting…" : "View as user"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <IssueCredentialDialog
+        user={issueUser}
+        issued={issued}
+        onClose={() => {
+          setIssueUser(null);
+          setIssued(null);
+        }}
+        isSaving={issueCredentialMutation.isPending}
+        onIssue={(payload) => {
+          if (!issueUser) return;
+          issueCredentialMutation.mutate({ user: issueUser, payload });
+        }}
+      />
+
+      <EditUserDialog
+        value={editUser}
+        onClose={() => setEditUser(null)}
+        isSaving={updateUserMutation.isPending}
+        onSave={(payload) => updateUserMutation.mutate(payload)}
+      />
+
+      <AlertDialog
+        open={Boolean(deactivateUser)}
+        onOpenChange={(open) => (!open ? setDeactivateUser(null) : null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Deactivate user</AlertDialogTitle>
+            <AlertDialogDescription>
+              This disables login for the user. Use Activate to re-enable.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              variant="destructive"
+              disabled={deactivateUserMutation.isPending}
+              onClick={() => {
+                if (!deactivateUser) return;
+                deactivateUserMutation.mutate(deactivateUser.user.id);
+              }}
+            >
+              {deactivateUserMutation.isPending ? "Deactivating…" : "Deactivate"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,108 @@
+import * as React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+
+import { buttonVariants } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { formatOrganizationLocation, getAdminOrganization } from "@/lib/adminOrganizations";
+
+import { OrganizationStatusBadge } from "../OrganizationStatusDialogs";
+
+import { OrganizationActivityTab } from "./OrganizationActivityTab";
+import { OrganizationDetailsTab } from "./OrganizationDetailsTab";
+import { OrganizationSettingsTab } from "./OrganizationSettingsTab";
+import { OrganizationUsersTab } from "./OrganizationUsersTab";
+
+const allowedTabs = ["details", "users", "activity", "settings"] as const;
+
+type TabValue = (typeof allowedTabs)[number];
+
+function normalizeTab(value: string | null): TabValue {
+  if (!value) return "details";
+  const v = value.trim().toLowerCase();
+  return (allowedTabs as readonly string[]).includes(v) ? (v as TabValue) : "details";
+}
+
+export default function OrganizationProfilePage() {
+  const { id = "" } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab = React.useMemo(() => normalizeTab(searchParams.get("tab")), [searchParams]);
+
+  const orgQuery = useQuery({
+    queryKey: ["adminOrganizations", "detail", id],
+    queryFn: () => getAdminOrganization(id),
+    enabled: id !== "",
+  });
+
+  const org = orgQuery.data?.data ?? null;
+
+  if (orgQuery.isLoading) {
+    return <div className="text-sm text-muted-foreground">Loading…</div>;
+  }
+
+  if (!org) {
+    return (
+      <div className="space-y-3">
+        <div className="text-sm text-destructive">
+          {orgQuery.error instanceof Error ? orgQuery.error.message : "Organization not found."}
+        </div>
+        <Link to="/organizations" className={buttonVariants({ variant: "outline" })}>
+          Back to organizations
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2">
+            <div className="text-lg font-semibold">{org.name}</div>
+            <OrganizationStatusBadge status={org.status} />
+          </div>
+          <div className="text-sm text-muted-foreground">{formatOrganizationLocation(org)}</div>
+        </div>
+        <Link to="/organizations" className={buttonVariants({ variant: "outline" })}>
+          All organizations
+        </Link>
+      </div>
+
+      {org.status === "SUSPENDED" ? (
+        <div className="rounded-md border border-destructive/40 bg-destructive/10 px-3 py-2 text-sm text-destructive">
+          Suspended{org.statusReason ? `: ${org.statusReason}` : ""}. Users of this organization cannot sign in.
+        </div>
+      ) : null}
+
+      <Tabs
+        value={tab}
+        onValueChange={(next) => {
+          const nextTab = normalizeTab(next);
+          const sp = new URLSearchParams(searchParams);
+          sp.set("tab", nextTab);
+          setSearchParams(sp, { replace: true });
+        }}
+      >
+        <TabsList>
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="users">Users ({org.users.length})</TabsTrigger>
+          <TabsTrigger value="activity">Activity</TabsTrigger>
+          <TabsTrigger value="settings">Settings</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details">
+          <OrganizationDetailsTab org={org} />
+        </TabsContent>
+        <TabsContent value="users">
+          <OrganizationUsersTab org={org} />
+        </TabsContent>
+        <TabsContent value="activity">
+          <OrganizationActivityTab organizationId={org.id} />
+        </TabsContent>
+        <TabsContent value="settings">
+          <OrganizationSettingsTab org={org} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -0,0 +1,427 @@
+import * as React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Field, FieldLabel } from "@/components/ui/field";
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupInput,
+} from "@/components/ui/input-group";
+import { OrganizationSearchCombobox } from "@/components/ui/organization-search-combobox";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useUiStore } from "@/store";
+import { useDebounce } from "@/lib/useDebounce";
+import { bulkUpdateAdminUsers, listAdminUsers } from "@/lib/adminUsers";
+import type { AdminRole } from "@/types/adminOrganizations";
+import type { BulkAdminUsersAction } from "@/types/adminUsers";
+
+const DEFAULT_PAGE_SIZE = 20;
+const ALL = "ALL";
+
+const ROLE_OPTIONS: Array<{ value: AdminRole | typeof ALL; label: string }> = [
+  { value: ALL, label: "All roles" },
+  { value: "ADMIN", label: "Admin" },
+  { value: "MILLER", label: "Miller" },
+  { value: "MANAGER", label: "Manager" },
+  { value: "DRIVER", label: "Driver" },
+];
+
+const ACTIVE_OPTIONS = [
+  { value: ALL, label: "Any status" },
+  { value: "true", label: "Active" },
+  { value: "false", label: "Inactive" },
+];
+
+const VERIFIED_OPTIONS = [
+  { value: ALL, label: "Any" },
+  { value: "true", label: "Verified" },
+  { value: "false", label: "Not verified" },
+];
+
+const LAST_LOGIN_OPTIONS = [
+  { value: ALL, label: "Any time" },
+  { value: "7", label: "Not in 7 days" },
+  { value: "30", label: "Not in 30 days" },
+  { value: "90", label: "Not in 90 days" },
+  { value: "180", label: "Not in 180 days" },
+  { value: "never", label: "Never signed in" },
+];
+
+const BULK_ACTION_LABELS: Record<BulkAdminUsersAction, string> = {
+  activate: "Activate",
+  deactivate: "Deactivate",
+  resendInvite: "Resend invite",
+};
+
+function optionLabel(options: Array<{ value: string; label: string }>, value: string) {
+  return options.find((o) => o.value === value)?.label ?? value;
+}
+
+function formatLastLogin(value: string | null): string {
+  if (!value) return "Never";
+  const d = new Date(value);
+  if (Number.isNaN(d.getTime())) return value;
+  const days = Math.floor((Date.now() - d.getTime()) / 86_400_000);
+  if (days <= 0) return "Today";
+  if (days === 1) return "Yesterday";
+  return `${days} days ago`;
+}
+
+export default function UsersPage() {
+  const { showToast } = useUiStore();
+  const queryClient = useQueryClient();
+
+  const [searchInput, setSearchInput] = React.useState("");
+  const debouncedSearch = useDebounce(searchInput, 300);
+
+  const [filters, setFilters] = React.useState({
+    search: "",
+    role: ALL,
+    organizationId: ALL,
+    isActive: ALL,
+    isEmailVerified: ALL,
+    lastLogin: ALL,
+  });
+
+  React.useEffect(() => {
+    setFilters((p) => ({ ...p, search: debouncedSearch }));
+  }, [debouncedSearch]);
+
+  const [page, setPage] = React.useState(1);
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(() => new Set());
+  const [confirmAction, setConfirmAction] = React.useState<BulkAdminUsersAction | null>(null);
+
+  React.useEffect(() => {
+    setPage(1);
+    setSelectedIds(new Set());
+  }, [filters]);
+
+  const listQuery = useQuery({
+    queryKey: ["adminUsers", page, DEFAULT_PAGE_SIZE, filters],
+    queryFn: () => {
+      const days = Number(filters.lastLogin);
+      return listAdminUsers({
+        page,
+        limit: DEFAULT_PAGE_SIZE,
+        search: filters.search,
+        role: filters.role === ALL ? undefined : (filters.role as AdminRole),
+        organizationId: filters.organizationId === ALL ? undefined : filters.organizationId,
+        isActive: filters.isActive === ALL ? undefined : filters.isActive === "true",
+        isEmailVerified: filters.isEmailVerified === ALL ? undefined : filters.isEmailVerified === "true",
+        lastLoginBefore: Number.isFinite(days)
+          ? new Date(Date.now() - days * 86_400_000).toISOString()
+          : undefined,
+        neverLoggedIn: filters.lastLogin === "never",
+      });
+    },
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: bulkUpdateAdminUsers,
+    onSuccess: (res, variables) => {
+      const failed = res.data.failed.length;
+      const label = BULK_ACTION_LABELS[variables.action].toLowerCase();
+      if (failed > 0) {
+        showToast(`${res.data.succeeded} done, ${failed} failed to ${label}.`, "warning");
+        setSelectedIds(new Set(res.data.failed.map((f) => f.id)));
+      } else {
+        showToast(res.message ?? `${res.data.succeeded} user(s) updated.`, "success");
+        setSelectedIds(new Set());
+      }
+      setConfirmAction(null);
+      void queryClient.invalidateQueries({ queryKey: ["adminUsers"] });
+      void queryClient.invalidateQueries({ queryKey: ["adminOrganizations"] });
+    },
+    onError: (err) => {
+      showToast(err instanceof Error ? err.message : "Bulk action failed.", "error");
+    },
+  });
+
+  const items = listQuery.data?.data.items ?? [];
+  const total = listQuery.data?.data.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / DEFAULT_PAGE_SIZE));
+
+  const allOnPageSelected = items.length > 0 && items.every((u) => selectedIds.has(u.id));
+
+  function toggleAllOnPage(checked: boolean) {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      for (const u of items) {
+        if (checked) next.add(u.id);
+        else next.delete(u.id);
+      }
+      return next;
+    });
+  }
+
+  function toggleOne(id: string, checked: boolean) {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  }
+
+  function runBulk(action: BulkAdminUsersAction) {
+    bulkMutation.mutate({ action, userIds: Array.from(selectedIds) });
+  }
+
+  function filterSelect(
+    key: keyof typeof filters,
+    label: string,
+    options: Array<{ value: string; label: string }>
+  ) {
+    return (
+      <Field>
+        <FieldLabel>{label}</FieldLabel>
+        <Select
+          value={filters[key]}
+          onValueChange={(v) => setFilters((p) => ({ ...p, [key]: v ?? ALL }))}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue>{optionLabel(options, filters[key])}</SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              {options.map((o) => (
+                <SelectItem key={o.value} value={o.value}>
+                  {o.label}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      </Field>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Users</CardTitle>
+        <div className="text-sm text-muted-foreground">
+          Every user across organizations. Filter by last sign-in to find dormant accounts.
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3 xl:grid-cols-6">
+          <Field className="md:col-span-3 xl:col-span-1">
+            <FieldLabel htmlFor="usersSearch">Search</FieldLabel>
+            <InputGroup>
+              <InputGroupAddon>Search</InputGroupAddon>
+              <InputGroupInput
+                id="usersSearch"
+                placeholder="Name or email"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+              />
+            </InputGroup>
+          </Field>
+          {filterSelect("role", "Role", ROLE_OPTIONS)}
+          <Field>
+            <FieldLabel>Organization</FieldLabel>
+            <OrganizationSearchCombobox
+              value={filters.organizationId === ALL ? "" : filters.organizationId}
+              onValueChange={(id) => setFilters((p) => ({ ...p, organizationId: id || ALL }))}
+              placeholder="All organizations"
+            />
+          </Field>
+          {filterSelect("isActive", "Status", ACTIVE_OPTIONS)}
+          {filterSelect("isEmailVerified", "Email verified", VERIFIED_OPTIONS)}
+          {filterSelect("lastLogin", "Last sign-in", LAST_LOGIN_OPTIONS)}
+        </div>
+
+        {selectedIds.size > 0 ? (
+          <div className="flex flex-wrap items-center gap-2 rounded-md border border-border bg-muted/40 p-2 text-sm">
+            <span className="px-1">{selectedIds.size} selected</span>
+            <Button size="sm" variant="outline" disabled={bulkMutation.isPending} onClick={() => runBulk("activate")}>
+              Activate
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={bulkMutation.isPending}
+              onClick={() => setConfirmAction("deactivate")}
+            >
+              Deactivate
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={bulkMutation.isPending}
+              onClick={() => setConfirmAction("resendInvite")}
+            >
+              Resend invite
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setSelectedIds(new Set())}>
+              Clear
+            </Button>
+          </div>
+        ) : null}
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[40px]">
+                  <Checkbox
+                    aria-label="Select all on this page"
+                    checked={allOnPageSelected}
+                    onCheckedChange={(v) => toggleAllOnPage(Boolean(v))}
+                  />
+                </TableHead>
+                <TableHead>User</TableHead>
+                <TableHead>Organization</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Last sign-in</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {listQuery.isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-xs text-muted-foreground">
+                    Loading users…
+                  </TableCell>
+                </TableRow>
+              ) : items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-xs text-muted-foreground">
+                    No users found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                items.map((u) => (
+                  <TableRow key={u.id} data-state={selectedIds.has(u.id) ? "selected" : undefined}>
+                    <TableCell>
+                      <Checkbox
+                        aria-label={`Select ${u.email}`}
+                        checked={selectedIds.has(u.id)}
+                        onCheckedChange={(v) => toggleOne(u.id, Boolean(v))}
+                      />
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <div className="font-medium">{`${u.firstName} ${u.lastName}`.trim() || "—"}</div>
+                      <div className="max-w-[240px] truncate text-[11px] text-muted-foreground">{u.email}</div>
+                    </TableCell>
+                    <TableCell className="text-xs">{u.organizationName ?? "—"}</TableCell>
+                    <TableCell className="text-xs">{optionLabel(ROLE_OPTIONS, u.role)}</TableCell>
+                    <TableCell>
+                      <Badge variant={u.isEmailVerified ? "default" : "outline"}>
+                        {u.isEmailVerified ? "Verified" : "Not verified"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-xs" title={u.lastLoginAt ?? undefined}>
+                      {formatLastLogin(u.lastLoginAt)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={u.isActive ? "default" : "secondary"}>
+                        {u.isActive ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <div className="text-xs text-muted-foreground">
+            Page {page} of {totalPages} · {total} total
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              disabled={listQuery.isLoading || page <= 1}
+            >
+              Previous
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+              disabled={listQuery.isLoading || page >= totalPages}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+
+        {listQuery.isError && (
+          <div className="text-xs text-destructive">
+            {listQuery.error instanceof Error ? listQuery.error.message : "Failed to load users."}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmAction !== null} onOpenChange={(open) => !open && setConfirmAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirmAction === "deactivate"
+                ? `Deactivate ${selectedIds.size} user(s)?`
+                : `Resend invite to ${selectedIds.size} user(s)?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirmAction === "deactivate"
+                ? "They will be signed out and cannot sign in until activated again."
+                : "Each user gets a new invite email. Earlier invite links stop working."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              variant={confirmAction === "deactivate" ? "destructive" : "default"}
+              disabled={bulkMutation.isPending}
+              onClick={() => {
+                if (confirmAction) runBulk(confirmAction);
+              }}
+            >
+              {bulkMutation.isPending
+                ? "Working…"
+                : confirmAction
+                  ? BULK_ACTION_LABELS[confirmAction]
+                  : ""}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
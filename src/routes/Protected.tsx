@@ -1,8 +1,10 @@
 import { Navigate, Outlet } from "react-router-dom";
 import { useAuth } from "../context/AuthContext";
+import ChangePasswordRequired from "../pages/ChangePasswordRequired";
 
 export default function Protected() {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, user, impersonation } = useAuth();
   if (!isAuthenticated) return <Navigate to="/login" replace />;
+  if (user?.mustChangePassword && !impersonation) return <ChangePasswordRequired />;
   return <Outlet />;
 }
@@ -0,0 +1,10 @@
+import { Outlet } from "react-router-dom";
+import { useAuth } from "../context/AuthContext";
+import type { Permission } from "../lib/permissions";
+import Forbidden from "../pages/Forbidden";
+
+export default function RequirePermission({ permission }: { permission: Permission }) {
+  const { can } = useAuth();
+  if (!can(permission)) return <Forbidden />;
+  return <Outlet />;
+}
@@ -1,35 +1,83 @@
 import { create } from "zustand";
 
-import { AUTH_STORAGE_KEY } from "../config";
+import { AUTH_STORAGE_KEY, IMPERSONATION_STORAGE_KEY } from "../config";
 import type { User } from "../types/auth";
 
 interface AuthSession {
   token: string;
+  refreshToken?: string | null;
   user: User;
 }
 
+export interface Impersonation {
+  /** The admin session to return to. It stays untouched in storage while impersonating. */
+  admin: AuthSession;
+  startedAt: string;
+  expiresAt: string | null;
+}
+
 interface AuthStoreState {
   token: string | null;
+  refreshToken: string | null;
   user: User | null;
+  impersonation: Impersonation | null;
   setSession: (session: AuthSession, remember: boolean) => void;
+  startImpersonation: (session: AuthSession, expiresAt: string | null) => void;
+  stopImpersonation: () => void;
+  updateTokens: (token: string, refreshToken?: string | null) => void;
+  updateUser: (patch: Partial<User>) => void;
   clearSession: () => void;
 }
 
+function parseStoredSession(raw: string | null): AuthSession | null {
+  try {
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as { token?: unknown; refreshToken?: unknown; user?: unknown };
+    if (typeof parsed?.token !== "string") return null;
+    if (!parsed?.user || typeof parsed.user !== "object") return null;
+    return {
+      token: parsed.token,
+      refreshToken: typeof parsed.refreshToken === "string" ? parsed.refreshToken : null,
+      user: parsed.user as User,
+    };
+  } catch {
+    return null;
+  }
+}
+
 function readStoredAuth(): AuthSession | null {
-  const read = (storage: Storage): AuthSession | null => {
-    try {
-      const raw = storage.getItem(AUTH_STORAGE_KEY);
-      if (!raw) return null;
-      const parsed = JSON.parse(raw) as { token?: unknown; user?: unknown };
-      if (typeof parsed?.token !== "string") return null;
-      if (!parsed?.user || typeof parsed.user !== "object") return null;
-      return { token: parsed.token, user: parsed.user as User };
-    } catch {
-      return null;
-    }
-  };
+  return (
+    parseStoredSession(localStorage.getItem(AUTH_STORAGE_KEY)) ??
+    parseStoredSession(sessionStorage.getItem(AUTH_STORAGE_KEY))
+  );
+}
 
-  return read(localStorage) ?? read(sessionStorage);
+// Impersonation lives in sessionStorage only, so closing the tab always ends it.
+function readStoredImpersonation(): { session: AuthSession; startedAt: string; expiresAt: string | null } | null {
+  try {
+    const raw = sessionStorage.getItem(IMPERSONATION_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as { session?: unknown; startedAt?: unknown; expiresAt?: unknown };
+    const session = parseStoredSession(JSON.stringify(parsed?.session ?? null));
+    if (!session || typeof parsed.startedAt !== "string") return null;
+    return {
+      session,
+      startedAt: parsed.startedAt,
+      expiresAt: typeof parsed.expiresAt === "string" ? parsed.expiresAt : null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function writeStoredImpersonation(
+  value: { session: AuthSession; startedAt: string; expiresAt: string | null } | null
+) {
+  if (!value) {
+    sessionStorage.removeItem(IMPERSONATION_STORAGE_KEY);
+    return;
+  }
+  sessionStorage.setItem(IMPERSONATION_STORAGE_KEY, JSON.stringify(value));
 }
 
 function writeStoredAuth(session: AuthSession | null, remember: boolean) {
@@ -48,21 +96,100 @@ function writeStoredAuth(session: AuthSession | null, remember: boolean) {
 
 const initial = (() => {
   if (typeof window === "undefined") {
-    return { token: null as string | null, user: null as User | null };
+    return {
+      token: null as string | null,
+      refreshToken: null as string | null,
+      user: null as User | null,
+      impersonation: null as Impersonation | null,
+    };
   }
   const stored = readStoredAuth();
-  return { token: stored?.token ?? null, user: stored?.user ?? null };
+  const impersonated = stored ? readStoredImpersonation() : null;
+  if (stored && impersonated) {
+    return {
+      token: impersonated.session.token,
+      refreshToken: null,
+      user: impersonated.session.user,
+      impersonation: { admin: stored, startedAt: impersonated.startedAt, expiresAt: impersonated.expiresAt },
+    };
+  }
+  return {
+    token: stored?.token ?? null,
+    refreshToken: stored?.refreshToken ?? null,
+    user: stored?.user ?? null,
+    impersonation: null,
+  };
 })();
 
-export const useAuthStore = create<AuthStoreState>((set) => ({
-  token: initial.token,
-  user: initial.user,
-  setSession: (session, remember) => {
+export const useAuthStore = create<AuthStoreState>((set, get) => {
+  // Writes the active session back to where it came from: the impersonation slot or the sign-in storage.
+  function persist(session: AuthSession) {
+    const { impersonation } = get();
+    if (impersonation) {
+      writeStoredImpersonation({ session, startedAt: impersonation.startedAt, expiresAt: impersonation.expiresAt });
+      return;
+    }
+    // Keep the session in whichever storage the user chose at sign-in.
+    const remember = localStorage.getItem(AUTH_STORAGE_KEY) !== null;
     writeStoredAuth(session, remember);
-    set({ token: session.token, user: session.user });
-  },
-  clearSession: () => {
-    writeStoredAuth(null, false);
-    set({ token: null, user: null });
-  },
-}));
+  }
+
+  return {
+    token: initial.token,
+    refreshToken: initial.refreshToken,
+    user: initial.user,
+    impersonation: initial.impersonation,
+    setSession: (session, remember) => {
+      writeStoredImpersonation(null);
+      writeStoredAuth(session, remember);
+      set({
+        token: session.token,
+        refreshToken: session.refreshToken ?? null,
+        user: session.user,
+        impersonation: null,
+      });
+    },
+    startImpersonation: (session, expiresAt) => {
+      const { token, refreshToken, user, impersonation } = get();
+      if (!token || !user || impersonation) return;
+      const startedAt = new Date().toISOString();
+      writeStoredImpersonation({ session: { token: session.token, user: session.user }, startedAt, expiresAt });
+      set({
+        token: session.token,
+        refreshToken: null,
+        user: session.user,
+        impersonation: { admin: { token, refreshToken, user }, startedAt, expiresAt },
+      });
+    },
+    stopImpersonation: () => {
+      const { impersonation } = get();
+      if (!impersonation) return;
+      writeStoredImpersonation(null);
+      set({
+        token: impersonation.admin.token,
+        refreshToken: impersonation.admin.refreshToken ?? null,
+        user: impersonation.admin.user,
+        impersonation: null,
+      });
+    },
+    updateTokens: (token, refreshToken) => {
+      const { user, refreshToken: previousRefreshToken } = get();
+      if (!user) return;
+      const nextRefreshToken = refreshToken ?? previousRefreshToken;
+      persist({ token, refreshToken: nextRefreshToken, user });
+      set({ token, refreshToken: nextRefreshToken });
+    },
+    updateUser: (patch) => {
+      const { token, refreshToken, user } = get();
+      if (!token || !user) return;
+      const nextUser = { ...user, ...patch };
+      persist({ token, refreshToken, user: nextUser });
+      set({ user: nextUser });
+    },
+    clearSession: () => {
+      writeStoredImpersonation(null);
+      writeStoredAuth(null, false);
+      set({ token: null, refreshToken: null, user: null, impersonation: null });
+    },
+  };
+});
@@ -3,6 +3,25 @@ import { z } from "zod";
 export const AdminRoleSchema = z.enum(["ADMIN", "MILLER", "MANAGER", "DRIVER"]);
 export type AdminRole = z.infer<typeof AdminRoleSchema>;
 
+export const PhoneNumberSchema = z
+  .string()
+  .trim()
+  .transform((v) => v.replace(/[\s-]/g, "").replace(/^\+?91(?=\d{10}$)/, ""))
+  .refine((v) => /^[6-9]\d{9}$/.test(v), "Enter a 10-digit mobile number.");
+
+export const TemporaryCredentialStatusSchema = z.enum(["PENDING", "USED", "EXPIRED"]);
+export type TemporaryCredentialStatus = z.infer<typeof TemporaryCredentialStatusSchema>;
+
+export const TemporaryCredentialSchema = z.object({
+  kind: z.enum(["PASSWORD", "INVITE_LINK"]),
+  status: TemporaryCredentialStatusSchema,
+  expiresAt: z.string().nullable(),
+  revealedAt: z.string().nullable().optional(),
+  revealedBy: z.string().nullable().optional(),
+});
+
+export type TemporaryCredential = z.infer<typeof TemporaryCredentialSchema>;
+
 export const AdminOrgUserSchema = z.object({
   id: z.string(),
   organizationId: z.string().nullable(),
@@ -14,18 +33,94 @@ export const AdminOrgUserSchema = z.object({
   mustChangePassword: z.boolean(),
   emailVerifiedAt: z.string().nullable(),
   isEmailVerified: z.boolean(),
+  phone: z.string().nullable().optional(),
+  vehicleNumber: z.string().nullable().optional(),
+  temporaryCredential: TemporaryCredentialSchema.nullable().optional(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
 
 export type AdminOrgUser = z.infer<typeof AdminOrgUserSchema>;
 
+const GSTIN_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+// GSTIN check digit: weights alternate 1 and 2 over the first 14 characters,
+// each product is folded into base 36 and the sum picks the 15th character.
+function gstinCheckCharacter(first14: string) {
+  let sum = 0;
+  for (let i = 0; i < 14; i += 1) {
+    const product = GSTIN_CHARSET.indexOf(first14[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+}
+
+export const GstinSchema = z
+  .string()
+  .trim()
+  .transform((v) => v.replace(/\s/g, "").toUpperCase())
+  .refine((v) => /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/.test(v), {
+    message: "Enter a 15-character GSTIN like 27AAPFU0939F1ZV.",
+    abort: true,
+  })
+  .refine((v) => gstinCheckCharacter(v.slice(0, 14)) === v[14], "This GSTIN's check digit does not match.");
+
+export const MillLicenceNumberSchema = z
+  .string()
+  .trim()
+  .transform((v) => v.toUpperCase())
+  .refine((v) => /^[A-Z0-9][A-Z0-9/-]{3,39}$/.test(v), "Enter the licence number as printed.");
+
+export const IfscSchema = z
+  .string()
+  .trim()
+  .transform((v) => v.toUpperCase())
+  .refine((v) => /^[A-Z]{4}0[A-Z0-9]{6}$/.test(v), "Enter an 11-character IFSC like SBIN0001234.");
+
+export const BankDetailsSchema = z.object({
+  accountHolderName: z.string().trim().min(1, "Enter the account holder name."),
+  accountNumber: z
+    .string()
+    .trim()
+    .refine((v) => /^\d{9,18}$/.test(v), "Enter an account number of 9 to 18 digits."),
+  ifsc: IfscSchema,
+  bankName: z.string().trim().min(1, "Enter the bank name."),
+  branch: z.string().trim().nullable().optional(),
+});
+
+export type BankDetails = z.infer<typeof BankDetailsSchema>;
+
+export const MILLING_CAPACITY_MAX_TONNES_PER_DAY = 2000;
+
+export const MillingCapacitySchema = z
+  .number()
+  .positive("Enter a capacity above zero.")
+  .max(MILLING_CAPACITY_MAX_TONNES_PER_DAY, `Capacity cannot exceed ${MILLING_CAPACITY_MAX_TONNES_PER_DAY} tonnes a day.`);
+
+export const OrganizationStatusSchema = z.enum(["ACTIVE", "SUSPENDED", "ARCHIVED"]);
+export type OrganizationStatus = z.infer<typeof OrganizationStatusSchema>;
+
 export const AdminOrganizationSchema = z.object({
   id: z.string(),
   name: z.string(),
+  status: OrganizationStatusSchema.default("ACTIVE"),
+  statusReason: z.string().nullable().optional(),
+  statusChangedAt: z.string().nullable().optional(),
+  stateId: z.string().nullable().optional(),
+  districtId: z.string().nullable().optional(),
+  mandalId: z.string().nullable().optional(),
+  villageId: z.string().nullable().optional(),
+  // Names resolved from the linked location. Unlinked organizations still
+  // carry the free text entered before location IDs existed.
   state: z.string().nullable(),
   district: z.string().nullable(),
+  mandal: z.string().nullable().optional(),
   village: z.string().nullable(),
+  gstin: z.string().nullable().optional(),
+  millLicenceNumber: z.string().nullable().optional(),
+  contactPhone: z.string().nullable().optional(),
+  millingCapacityTonnesPerDay: z.number().nullable().optional(),
+  bankDetails: BankDetailsSchema.nullable().optional(),
   createdAt: z.string(),
   updatedAt: z.string(),
   users: z.array(AdminOrgUserSchema),
@@ -33,6 +128,12 @@ export const AdminOrganizationSchema = z.object({
 
 export type AdminOrganization = z.infer<typeof AdminOrganizationSchema>;
 
+export const OrganizationSortFieldSchema = z.enum(["name", "createdAt", "userCount"]);
+export type OrganizationSortField = z.infer<typeof OrganizationSortFieldSchema>;
+
+export const SortOrderSchema = z.enum(["asc", "desc"]);
+export type SortOrder = z.infer<typeof SortOrderSchema>;
+
 export const AdminOrganizationsListResponseSchema = z.object({
   success: z.boolean(),
   data: z.object({
@@ -56,20 +157,68 @@ export const AdminOrganizationResponseSchema = z.object({
 
 export type AdminOrganizationResponse = z.infer<typeof AdminOrganizationResponseSchema>;
 
+// The server fills stateId, districtId and mandalId from the village.
 export const CreateOrganizationRequestSchema = z.object({
   name: z.string().min(2, "Enter an organization name."),
-  state: z.string().min(1, "Enter a state."),
-  district: z.string().min(1, "Enter a district."),
-  village: z.string().min(1, "Enter a village."),
+  villageId: z.string().min(1, "Select a village."),
 });
 
 export type CreateOrganizationRequest = z.infer<typeof CreateOrganizationRequestSchema>;
 
 export const UpdateOrganizationRequestSchema = z.object({
   name: z.string().min(2, "Enter an organization name.").optional(),
-  state: z.string().min(1, "Enter a state.").optional(),
-  district: z.string().min(1, "Enter a district.").optional(),
-  village: z.string().min(1, "Enter a village.").optional(),
+  villageId: z.string().min(1, "Select a village.").optional(),
+  gstin: GstinSchema.nullable().optional(),
+  millLicenceNumber: MillLicenceNumberSchema.nullable().optional(),
+  contactPhone: PhoneNumberSchema.nullable().optional(),
+  millingCapacityTonnesPerDay: MillingCapacitySchema.nullable().optional(),
+  bankDetails: BankDetailsSchema.nullable().optional(),
 });
 
-export type UpdateOrganizationRequest = z.infer<typeof UpdateOrganizationRequestSchema>;
+export type UpdateOrganizationRequest = z.input<typeof UpdateOrganizationRequestSchema>;
+
+export const SuspendOrganizationRequestSchema = z.object({
+  reason: z.string().trim().min(3, "Enter a reason for the suspension."),
+});
+
+export type SuspendOrganizationRequest = z.infer<typeof SuspendOrganizationRequestSchema>;
+
+export const OrganizationDependencySchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  count: z.number(),
+});
+
+export type OrganizationDependency = z.infer<typeof OrganizationDependencySchema>;
+
+export const OrganizationDependenciesResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    items: z.array(OrganizationDependencySchema),
+    canDelete: z.boolean(),
+  }),
+  message: z.string().optional(),
+});
+
+export type OrganizationDependenciesResponse = z.infer<typeof OrganizationDependenciesResponseSchema>;
+
+export const OrganizationActivitySchema = z.object({
+  id: z.string(),
+  action: z.string(),
+  summary: z.string(),
+  actorEmail: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export type OrganizationActivity = z.infer<typeof OrganizationActivitySchema>;
+
+export const OrganizationActivityListResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    items: z.array(OrganizationActivitySchema),
+    total: z.number(),
+    page: z.number(),
+    limit: z.number(),
+  }),
+  message: z.string().optional(),
+});
@@ -1,6 +1,7 @@
 import { z } from "zod";
 
-import { AdminRoleSchema } from "./adminOrganizations";
+import { AdminRoleSchema, PhoneNumberSchema, TemporaryCredentialSchema } from "./adminOrganizations";
+import { UserSchema } from "./auth";
 
 export const AdminUserSchema = z.object({
   id: z.string(),
@@ -14,6 +15,8 @@ export const AdminUserSchema = z.object({
   emailVerifiedAt: z.string().nullable(),
   isEmailVerified: z.boolean(),
   lastLoginAt: z.string().nullable(),
+  phone: z.string().nullable().optional(),
+  vehicleNumber: z.string().nullable().optional(),
   createdAt: z.string(),
   updatedAt: z.string(),
 });
@@ -28,6 +31,47 @@ export const AdminUserResponseSchema = z.object({
 
 export type AdminUserResponse = z.infer<typeof AdminUserResponseSchema>;
 
+export const AdminUsersListResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    items: z.array(AdminUserSchema),
+    total: z.number(),
+    page: z.number(),
+    limit: z.number(),
+  }),
+  message: z.string().optional(),
+});
+
+export type AdminUsersListResponse = z.infer<typeof AdminUsersListResponseSchema>;
+
+export const BulkAdminUsersActionSchema = z.enum(["activate", "deactivate", "resendInvite"]);
+export type BulkAdminUsersAction = z.infer<typeof BulkAdminUsersActionSchema>;
+
+export const BulkAdminUsersRequestSchema = z.object({
+  action: BulkAdminUsersActionSchema,
+  userIds: z.array(z.string()).min(1, "Select at least one user."),
+});
+
+export type BulkAdminUsersRequest = z.infer<typeof BulkAdminUsersRequestSchema>;
+
+export const BulkAdminUsersResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    succeeded: z.number(),
+    failed: z
+      .array(
+        z.object({
+          id: z.string(),
+          message: z.string(),
+        })
+      )
+      .default([]),
+  }),
+  message: z.string().optional(),
+});
+
+export type BulkAdminUsersResponse = z.infer<typeof BulkAdminUsersResponseSchema>;
+
 export const CreateMillerUserRequestSchema = z.object({
   organizationId: z.string().min(1, "Select an organization."),
   email: z.string().email("Enter a valid email address."),
@@ -48,6 +92,60 @@ export const CreateMillerUserResponseSchema = z.object({
 
 export type CreateMillerUserResponse = z.infer<typeof CreateMillerUserResponseSchema>;
 
+export const CreatableUserRoleSchema = z.enum(["MILLER", "MANAGER", "DRIVER"]);
+export type CreatableUserRole = z.infer<typeof CreatableUserRoleSchema>;
+
+export const VehicleNumberSchema = z
+  .string()
+  .trim()
+  .transform((v) => v.replace(/[\s-]/g, "").toUpperCase())
+  .refine((v) => /^[A-Z]{2}\d{1,2}[A-Z]{0,3}\d{4}$/.test(v), "Enter a vehicle number like AP09AB1234.");
+
+export const CredentialHandoffSchema = z.enum(["TEMPORARY_PASSWORD", "INVITE_LINK"]);
+export type CredentialHandoff = z.infer<typeof CredentialHandoffSchema>;
+
+export const IssueCredentialRequestSchema = z.object({
+  handoff: CredentialHandoffSchema,
+  expiresInHours: z.number().int().positive().max(24 * 30),
+});
+
+export type IssueCredentialRequest = z.infer<typeof IssueCredentialRequestSchema>;
+
+const CreateUserBaseSchema = IssueCredentialRequestSchema.extend({
+  organizationId: z.string().min(1, "Select an organization."),
+  email: z.string().email("Enter a valid email address."),
+  firstName: z.string().min(1, "Enter a first name."),
+  lastName: z.string().min(1, "Enter a last name."),
+});
+
+export const CreateAdminUserRequestSchema = z.discriminatedUnion("role", [
+  CreateUserBaseSchema.extend({
+    role: z.literal("MILLER"),
+  }),
+  CreateUserBaseSchema.extend({
+    role: z.literal("MANAGER"),
+    phone: PhoneNumberSchema.optional(),
+  }),
+  CreateUserBaseSchema.extend({
+    role: z.literal("DRIVER"),
+    phone: PhoneNumberSchema,
+    vehicleNumber: VehicleNumberSchema,
+  }),
+]);
+
+export type CreateAdminUserRequest = z.input<typeof CreateAdminUserRequestSchema>;
+
+export const CreateAdminUserResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    user: AdminUserSchema,
+    temporaryPassword: z.string().nullable(),
+    temporaryCredential: TemporaryCredentialSchema.nullable().optional(),
+  }),
+  message: z.string().optional(),
+});
+export type CreateAdminUserResponse = z.infer<typeof CreateAdminUserResponseSchema>;
+
 export const UpdateAdminUserRequestSchema = z.object({
   organizationId: z.string().min(1, "Select an organization.").optional(),
   email: z.string().email("Enter a valid email address.").optional(),
@@ -69,6 +167,7 @@ export const AdminUserTemporaryPasswordResponseSchema = z.object({
   success: z.boolean(),
   data: z.object({
     temporaryPassword: z.string().nullable(),
+    expiresAt: z.string().nullable().optional(),
   }),
   message: z.string().optional(),
 });
@@ -76,3 +175,26 @@ export const AdminUserTemporaryPasswordResponseSchema = z.object({
 export type AdminUserTemporaryPasswordResponse = z.infer<
   typeof AdminUserTemporaryPasswordResponseSchema
 >;
+
+export const IssueCredentialResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    temporaryPassword: z.string().nullable(),
+    temporaryCredential: TemporaryCredentialSchema,
+  }),
+  message: z.string().optional(),
+});
+
+export type IssueCredentialResponse = z.infer<typeof IssueCredentialResponseSchema>;
+
+export const ImpersonationResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    token: z.string(),
+    user: UserSchema,
+    expiresAt: z.string().nullable().optional(),
+  }),
+  message: z.string().optional(),
+});
+
+export type ImpersonationResponse = z.infer<typeof ImpersonationResponseSchema>;
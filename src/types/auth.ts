@@ -8,6 +8,8 @@ export const UserSchema = z.object({
   lastName: z.string().optional(),
   email: z.string(),
   role: z.enum(["ADMIN", "MILLER", "MANAGER", "DRIVER"]),
+  mfaEnabled: z.boolean().optional(),
+  mustChangePassword: z.boolean().optional(),
 });
 
 export type User = z.infer<typeof UserSchema>;
@@ -15,6 +17,7 @@ export type User = z.infer<typeof UserSchema>;
 export const LoginRequestSchema = z.object({
   email: z.string().min(1, "Enter your email."),
   password: z.string().min(1, "Enter your password."),
+  trustedDeviceToken: z.string().optional(),
 });
 
 export type LoginRequest = z.infer<typeof LoginRequestSchema>;
@@ -23,9 +26,160 @@ export const LoginResponseSchema = z.object({
   success: z.boolean(),
   data: z.object({
     token: z.string(),
+    refreshToken: z.string().optional(),
     user: UserSchema,
+    trustedDeviceToken: z.string().optional(),
   }),
   message: z.string().optional(),
 });
 
 export type LoginResponse = z.infer<typeof LoginResponseSchema>;
+
+export const MfaRequiredResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    status: z.literal("mfa_required"),
+    mfaToken: z.string(),
+  }),
+  message: z.string().optional(),
+});
+
+export type MfaRequiredResponse = z.infer<typeof MfaRequiredResponseSchema>;
+
+export const VerifyMfaRequestSchema = z.object({
+  mfaToken: z.string().min(1),
+  code: z
+    .string()
+    .trim()
+    .transform((v) => v.replace(/[\s-]/g, ""))
+    .refine((v) => /^\d{6}$/.test(v) || /^[A-Za-z0-9]{8,12}$/.test(v), "Enter the 6-digit code or a backup code."),
+  trustDevice: z.boolean(),
+});
+
+export type VerifyMfaRequest = z.input<typeof VerifyMfaRequestSchema>;
+
+export const MfaEnrollmentSchema = z.object({
+  secret: z.string(),
+  otpauthUrl: z.string(),
+  qrCodeDataUrl: z.string().optional(),
+});
+
+export type MfaEnrollment = z.infer<typeof MfaEnrollmentSchema>;
+
+export const MfaEnrollmentResponseSchema = z.object({
+  success: z.boolean(),
+  data: MfaEnrollmentSchema,
+  message: z.string().optional(),
+});
+
+export const MfaCodeRequestSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app."),
+});
+
+export type MfaCodeRequest = z.infer<typeof MfaCodeRequestSchema>;
+
+export const MfaBackupCodesResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    backupCodes: z.array(z.string()),
+  }),
+  message: z.string().optional(),
+});
+
+export type MfaBackupCodesResponse = z.infer<typeof MfaBackupCodesResponseSchema>;
+
+export const AuthMessageResponseSchema = z.object({
+  success: z.boolean(),
+  message: z.string().optional(),
+});
+
+export const UserResponseSchema = z.object({
+  success: z.boolean(),
+  data: UserSchema,
+  message: z.string().optional(),
+});
+
+export const UpdateProfileRequestSchema = z.object({
+  firstName: z.string().trim().min(1, "Enter your first name."),
+  lastName: z.string().trim().optional(),
+  email: z.string().trim().min(1, "Enter your email.").email("Enter a valid email."),
+});
+
+export type UpdateProfileRequest = z.infer<typeof UpdateProfileRequestSchema>;
+
+export const PASSWORD_MIN_LENGTH = 10;
+
+export const PASSWORD_RULES = [
+  { label: `At least ${PASSWORD_MIN_LENGTH} characters`, pattern: new RegExp(`^.{${PASSWORD_MIN_LENGTH},}$`) },
+  { label: "A lowercase letter", pattern: /[a-z]/ },
+  { label: "An uppercase letter", pattern: /[A-Z]/ },
+  { label: "A number", pattern: /\d/ },
+  { label: "A symbol", pattern: /[^A-Za-z0-9]/ },
+] as const;
+
+export const NewPasswordSchema = PASSWORD_RULES.reduce(
+  (schema, rule) => schema.regex(rule.pattern, `Password needs ${rule.label.toLowerCase()}.`),
+  z.string().min(1, "Enter a new password.")
+);
+
+export const ChangePasswordRequestSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Enter your current password."),
+    newPassword: NewPasswordSchema,
+    confirmPassword: z.string().min(1, "Confirm the new password."),
+  })
+  .refine((v) => v.newPassword === v.confirmPassword, {
+    message: "Passwords do not match.",
+    path: ["confirmPassword"],
+  })
+  .refine((v) => v.newPassword !== v.currentPassword, {
+    message: "Choose a password different from your current one.",
+    path: ["newPassword"],
+  });
+
+export type ChangePasswordRequest = z.infer<typeof ChangePasswordRequestSchema>;
+
+export const ForgotPasswordRequestSchema = z.object({
+  email: z.string().trim().min(1, "Enter your email.").email("Enter a valid email."),
+});
+
+export type ForgotPasswordRequest = z.infer<typeof ForgotPasswordRequestSchema>;
+
+export const ResetPasswordRequestSchema = z
+  .object({
+    token: z.string().min(1, "This reset link is incomplete."),
+    newPassword: NewPasswordSchema,
+    confirmPassword: z.string().min(1, "Confirm the new password."),
+  })
+  .refine((v) => v.newPassword === v.confirmPassword, {
+    message: "Passwords do not match.",
+    path: ["confirmPassword"],
+  });
+
+export type ResetPasswordRequest = z.infer<typeof ResetPasswordRequestSchema>;
+
+export const ChangePasswordResponseSchema = z.object({
+  success: z.boolean(),
+  data: z
+    .object({
+      token: z.string(),
+      refreshToken: z.string().optional(),
+    })
+    .nullable()
+    .optional(),
+  message: z.string().optional(),
+});
+
+export const RefreshTokenResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    token: z.string(),
+    refreshToken: z.string().optional(),
+  }),
+  message: z.string().optional(),
+});
+
+export type RefreshTokenResponse = z.infer<typeof RefreshTokenResponseSchema>;
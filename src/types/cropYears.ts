@@ -1,20 +1,32 @@
 import { z } from "zod";
 
-export const SeasonCodeSchema = z.enum(["KHARIF", "RABI"]);
+export const BUILT_IN_SEASON_CODES = ["KHARIF", "RABI"] as const;
+
+export const SeasonCodeSchema = z.string().min(1);
 export type SeasonCode = z.infer<typeof SeasonCodeSchema>;
 
 export const SeasonSchema = z.object({
   id: z.string(),
   code: z.string(),
   name: z.string(),
+  isCustom: z.boolean().default(false),
+  procurementStartDate: z.string().nullable().default(null),
+  procurementEndDate: z.string().nullable().default(null),
+  startedAt: z.string().nullable().optional(),
+  endedAt: z.string().nullable().optional(),
 });
 
 export type Season = z.infer<typeof SeasonSchema>;
 
+export const CropYearStatusSchema = z.enum(["PLANNED", "OPEN", "CLOSED", "ARCHIVED"]);
+export type CropYearStatus = z.infer<typeof CropYearStatusSchema>;
+
 export const CropYearSchema = z.object({
   id: z.string(),
   label: z.string(),
   startYear: z.number().int(),
+  status: CropYearStatusSchema.default("OPEN"),
+  isCurrent: z.boolean().default(false),
   seasons: z.array(SeasonSchema),
 });
 
@@ -42,3 +54,52 @@ export const CreateCropYearRequestSchema = z.object({
 });
 
 export type CreateCropYearRequest = z.infer<typeof CreateCropYearRequestSchema>;
+
+export const UpdateCropYearRequestSchema = z.object({
+  label: z.string().trim().min(1, "Enter a label."),
+});
+
+export type UpdateCropYearRequest = z.infer<typeof UpdateCropYearRequestSchema>;
+
+export const SetCropYearStatusRequestSchema = z.object({
+  status: CropYearStatusSchema,
+});
+
+export type SetCropYearStatusRequest = z.infer<typeof SetCropYearStatusRequestSchema>;
+
+const SeasonDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Enter a valid date.")
+  .nullable();
+
+export const UpsertCropYearSeasonSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z][A-Z0-9_]*$/, "Use letters, numbers and underscores."),
+    name: z.string().trim().min(1, "Enter a season name."),
+    procurementStartDate: SeasonDateSchema,
+    procurementEndDate: SeasonDateSchema,
+  })
+  .refine(
+    (s) =>
+      !s.procurementStartDate ||
+      !s.procurementEndDate ||
+      s.procurementEndDate >= s.procurementStartDate,
+    { message: "End date must be on or after the start date.", path: ["procurementEndDate"] }
+  );
+
+export type UpsertCropYearSeason = z.infer<typeof UpsertCropYearSeasonSchema>;
+
+export const UpdateCropYearSeasonsRequestSchema = z
+  .object({
+    seasons: z.array(UpsertCropYearSeasonSchema).min(1, "Add at least one season."),
+  })
+  .refine((v) => new Set(v.seasons.map((s) => s.code)).size === v.seasons.length, {
+    message: "Season codes must be unique.",
+    path: ["seasons"],
+  });
+
+export type UpdateCropYearSeasonsRequest = z.infer<typeof UpdateCropYearSeasonsRequestSchema>;
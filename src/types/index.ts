@@ -1,16 +1,25 @@
 export * from "./masterRiceTypes";
 export * from "./masterRiceVarieties";
+export * from "./masterBagSizes";
 export * from "./cropYears";
 export * from "./adminByProducts";
  
 
 export {
-  BagSizeSchema,
-  type BagSize,
+  BagSizeCodeSchema,
+  type BagSizeCode,
   SeasonBagRateSchema,
   type SeasonBagRate,
   ListSeasonBagRatesResponseSchema,
   type ListSeasonBagRatesResponse,
   UpsertSeasonBagRatesRequestSchema,
   type UpsertSeasonBagRatesRequest,
+  SeasonBagRateRevisionSchema,
+  type SeasonBagRateRevision,
+  ListSeasonBagRateRevisionsResponseSchema,
+  type ListSeasonBagRateRevisionsResponse,
+  SeasonBagRateDraftStatusSchema,
+  type SeasonBagRateDraftStatus,
+  SeasonBagRateDraftSchema,
+  type SeasonBagRateDraft,
 } from "./seasonBagRates";
@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+export const MasterBagSizeSchema = z.object({
+  id: z.string(),
+  code: z.string(),
+  weightKg: z.number(),
+  displayOrder: z.number().int(),
+  isActive: z.boolean(),
+});
+
+export type MasterBagSize = z.infer<typeof MasterBagSizeSchema>;
+
+export const MasterBagSizeListResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    items: z.array(MasterBagSizeSchema),
+  }),
+  message: z.string().optional(),
+});
+
+export type MasterBagSizeListResponse = z.infer<
+  typeof MasterBagSizeListResponseSchema
+>;
+
+export const MasterBagSizeResponseSchema = z.object({
+  success: z.boolean(),
+  data: MasterBagSizeSchema,
+  message: z.string().optional(),
+});
+
+export type MasterBagSizeResponse = z.infer<typeof MasterBagSizeResponseSchema>;
+
+export const DeleteMasterBagSizeResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.null().optional(),
+  message: z.string().optional(),
+});
+
+export type DeleteMasterBagSizeResponse = z.infer<typeof DeleteMasterBagSizeResponseSchema>;
+
+export const UpsertMasterBagSizeRequestSchema = z.object({
+  weightKg: z.number().positive("Enter a valid weight."),
+  displayOrder: z.number().int().min(0, "Enter a valid display order."),
+  isActive: z.boolean().optional(),
+});
+
+export type UpsertMasterBagSizeRequest = z.infer<
+  typeof UpsertMasterBagSizeRequestSchema
+>;
@@ -1,16 +1,14 @@
 import { z } from "zod";
 
-export const BagSizeSchema = z.enum(["KG_40", "KG_75", "KG_100"]);
-export type BagSize = z.infer<typeof BagSizeSchema>;
+export const BagSizeCodeSchema = z.string().min(1);
+export type BagSizeCode = z.infer<typeof BagSizeCodeSchema>;
 
-export const SeasonCodeSchema = z.enum(["KHARIF", "RABI"]);
+export const SeasonCodeSchema = z.string().min(1);
 export type SeasonCode = z.infer<typeof SeasonCodeSchema>;
 
-export const SeasonBagRateRatesBySizeSchema = z.object({
-  KG_40: z.number().nullable(),
-  KG_75: z.number().nullable(),
-  KG_100: z.number().nullable(),
-});
+export const SeasonBagRateRatesBySizeSchema = z.record(BagSizeCodeSchema, z.number().nullable());
+
+export type SeasonBagRateRatesBySize = z.infer<typeof SeasonBagRateRatesBySizeSchema>;
 
 export const SeasonBagRateSchema = z.object({
   cropYearStartYear: z.number().int(),
@@ -36,23 +34,131 @@ export type ListSeasonBagRatesResponse = z.infer<
   typeof ListSeasonBagRatesResponseSchema
 >;
 
+export const UpsertSeasonBagRateItemSchema = z.object({
+  riceTypeCode: z.string().min(1),
+  rates: z.record(BagSizeCodeSchema, z.number().min(0, "Enter a valid rate.")),
+});
+
+export type UpsertSeasonBagRateItem = z.infer<typeof UpsertSeasonBagRateItemSchema>;
+
 export const UpsertSeasonBagRatesRequestSchema = z.object({
   cropYearStartYear: z.number().int(),
   seasonCode: SeasonCodeSchema,
-  rates: z
-    .array(
-      z.object({
-        riceTypeCode: z.string().min(1),
-        rates: z.object({
-          KG_40: z.number().min(0, "Enter a valid rate."),
-          KG_75: z.number().min(0, "Enter a valid rate."),
-          KG_100: z.number().min(0, "Enter a valid rate."),
-        }),
-      })
-    )
-    .min(1, "Add at least one rate."),
+  rates: z.array(UpsertSeasonBagRateItemSchema).min(1, "Add at least one rate."),
+  effectiveFrom: z.string().min(1, "Enter an effective date."),
+  note: z.string().optional(),
 });
 
 export type UpsertSeasonBagRatesRequest = z.infer<
   typeof UpsertSeasonBagRatesRequestSchema
 >;
+
+export const SeasonBagRateRevisionAuthorSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  firstName: z.string().nullable().optional(),
+  lastName: z.string().nullable().optional(),
+});
+
+export type SeasonBagRateRevisionAuthor = z.infer<typeof SeasonBagRateRevisionAuthorSchema>;
+
+export const SeasonBagRateRevisionSchema = z.object({
+  id: z.string(),
+  cropYearStartYear: z.number().int(),
+  seasonCode: SeasonCodeSchema,
+  version: z.number().int(),
+  effectiveFrom: z.string(),
+  note: z.string().nullable(),
+  createdAt: z.string(),
+  createdBy: SeasonBagRateRevisionAuthorSchema.nullable(),
+  items: z.array(SeasonBagRateSchema),
+});
+
+export type SeasonBagRateRevision = z.infer<typeof SeasonBagRateRevisionSchema>;
+
+export const ListSeasonBagRateRevisionsResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.object({
+    items: z.array(SeasonBagRateRevisionSchema),
+  }),
+  message: z.string().optional(),
+});
+
+export type ListSeasonBagRateRevisionsResponse = z.infer<
+  typeof ListSeasonBagRateRevisionsResponseSchema
+>;
+
+export const RestoreSeasonBagRateRevisionRequestSchema = z.object({
+  effectiveFrom: z.string().min(1, "Enter an effective date."),
+  note: z.string().optional(),
+});
+
+export type RestoreSeasonBagRateRevisionRequest = z.infer<
+  typeof RestoreSeasonBagRateRevisionRequestSchema
+>;
+
+export const SeasonBagRateDraftStatusSchema = z.enum(["DRAFT", "PENDING_APPROVAL", "REJECTED"]);
+export type SeasonBagRateDraftStatus = z.infer<typeof SeasonBagRateDraftStatusSchema>;
+
+export const SeasonBagRateDraftSchema = z.object({
+  id: z.string(),
+  cropYearStartYear: z.number().int(),
+  seasonCode: SeasonCodeSchema,
+  status: SeasonBagRateDraftStatusSchema,
+  effectiveFrom: z.string(),
+  note: z.string().nullable(),
+  items: z.array(SeasonBagRateSchema),
+  updatedAt: z.string(),
+  updatedBy: SeasonBagRateRevisionAuthorSchema.nullable(),
+  submittedAt: z.string().nullable(),
+  submittedBy: SeasonBagRateRevisionAuthorSchema.nullable(),
+  reviewedAt: z.string().nullable(),
+  reviewedBy: SeasonBagRateRevisionAuthorSchema.nullable(),
+  reviewComment: z.string().nullable(),
+});
+
+export type SeasonBagRateDraft = z.infer<typeof SeasonBagRateDraftSchema>;
+
+export const GetSeasonBagRateDraftResponseSchema = z.object({
+  success: z.boolean(),
+  data: SeasonBagRateDraftSchema.nullable(),
+  message: z.string().optional(),
+});
+
+export type GetSeasonBagRateDraftResponse = z.infer<
+  typeof GetSeasonBagRateDraftResponseSchema
+>;
+
+export const SeasonBagRateDraftResponseSchema = z.object({
+  success: z.boolean(),
+  data: SeasonBagRateDraftSchema,
+  message: z.string().optional(),
+});
+
+export type SeasonBagRateDraftResponse = z.infer<typeof SeasonBagRateDraftResponseSchema>;
+
+export const SeasonBagRateDraftClosedResponseSchema = z.object({
+  success: z.boolean(),
+  data: z.null().optional(),
+  message: z.string().optional(),
+});
+
+export type SeasonBagRateDraftClosedResponse = z.infer<
+  typeof SeasonBagRateDraftClosedResponseSchema
+>;
+
+export const ApproveSeasonBagRateDraftRequestSchema = z.object({
+  comment: z.string().optional(),
+});
+
+export type ApproveSeasonBagRateDraftRequest = z.infer<
+  typeof ApproveSeasonBagRateDraftRequestSchema
+>;
+
+export const RejectSeasonBagRateDraftRequestSchema = z.object({
+  comment: z.string().trim().min(1, "Enter a reason for rejecting."),
+});
+
+export type RejectSeasonBagRateDraftRequest = z.infer<
+  typeof RejectSeasonBagRateDraftRequestSchema
+>;